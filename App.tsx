@@ -1,29 +1,295 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { Cue } from './types';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { Cue, Lane, ProjectRecord, Setlist, LoopRegion, TempoMap, TimeDisplayMode, TimeFormatOptions, TimecodeSettings } from './types';
 import { Controls } from './components/Controls';
-import { Timeline } from './components/Timeline';
+import { Timeline, MIN_ZOOM, MAX_ZOOM } from './components/Timeline';
 import { CueList } from './components/CueList';
+import { ProjectBrowser } from './components/ProjectBrowser';
+import { TempoMapEditor } from './components/TempoMapEditor';
+import { TimecodeDialog } from './components/TimecodeDialog';
+import { CountInDialog } from './components/CountInDialog';
+import { ExportDialog } from './components/ExportDialog';
+import { ImportDialog } from './components/ImportDialog';
+import { LtcDialog } from './components/LtcDialog';
+import { OnsetPanel } from './components/OnsetPanel';
+import { KeymapSettings } from './components/KeymapSettings';
+import { LaneManager } from './components/LaneManager';
+import { CueActionsEditor } from './components/CueActionsEditor';
+import { ShowLog } from './components/ShowLog';
+import { OscBridgeDialog } from './components/OscBridgeDialog';
+import { SetlistPanel } from './components/SetlistPanel';
+import { useHistory } from './hooks/useHistory';
+import { useOnsetDetection } from './hooks/useOnsetDetection';
+import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
+import { useShowControl } from './hooks/useShowControl';
+import { useOscBridge } from './hooks/useOscBridge';
+import { useStageSync } from './hooks/useStageSync';
+import {
+  saveProject,
+  updateProject,
+  getProject,
+  getProjectAudio,
+  getLastProjectId,
+  setLastProjectId,
+} from './utils/projectStore';
+import { resolveLoopPosition, isValidLoop, createLtcRouting, LtcRouting } from './utils/playback';
+import { renderLtcBuffer, renderTimeStretched } from './utils/audioWorkers';
+import { DEFAULT_TEMPO_MAP } from './utils/tempo';
+import { DEFAULT_TIMECODE, parseTimecodeSettings } from './utils/timecode';
+import { CueImportSource, ImportPlan, ImportStrategy, ParsedCueFile } from './utils/cueImport';
+import { WavInfo, embedWavMarkers, readWavInfo } from './utils/wav';
+import { AudioMarkerFormat, ChapterInfo, cuesToChapters, readChapters, writeChapters } from './utils/chapters';
+import { sortCuesByTime } from './utils/cueUtils';
+import { AudioFingerprint, hashAudio } from './utils/projectSchema';
+import { getStageViewUrl } from './utils/stageSync';
+import { CountInScheduler, CountInSettings, loadCountInSettings, saveCountInSettings } from './utils/countIn';
+import { LtcSettings, DEFAULT_LTC_SETTINGS, LTC_FORMATS, getLtcGain } from './utils/ltc';
+import { Keymap, loadKeymap, saveKeymap, loadRecordOffset, saveRecordOffset } from './utils/keymap';
+import { OscBridgeSettings, OscBridgeCommand, loadOscBridgeSettings, saveOscBridgeSettings, buildCueGoMessage } from './utils/oscBridge';
+import { loadSetlist, saveSetlist, createSetlistEntry, findSetlistIndex, removeSetlistEntries } from './utils/setlist';
+import { writeShowBundle, readShowBundle, ShowBundleEntry, SHOW_FILE_EXTENSION } from './utils/showBundle';
+import { LaneDocument, createDefaultLanes, createLane, ensureLanes, moveLane, removeLane, isLaneLocked } from './utils/lanes';
 
 // Web Audio API context
 const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
 const audioCtx = new AudioContextClass();
+const countInScheduler = new CountInScheduler(audioCtx);
+const STRETCH_CACHE_SIZE = 2;
+
+// Markers embedded in the original audio are a bonus: a file whose marker chunks
+// or atoms can't be parsed still plays, it just brings no markers along
+const readAudioMarkers = (data: ArrayBuffer): { wav: WavInfo | null; chapters: ChapterInfo | null } => {
+  try {
+    const wav = readWavInfo(data);
+    return { wav, chapters: wav ? null : readChapters(data) };
+  } catch (err) {
+    console.warn("Ignoring unreadable markers in the audio file", err);
+    return { wav: null, chapters: null };
+  }
+};
+
+const createProjectRecord = (fileName: string, duration: number): ProjectRecord => {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    name: fileName.replace(/\.[^.]+$/, ''),
+    fileName,
+    duration,
+    cues: [],
+    lanes: createDefaultLanes(),
+    tempoMap: null,
+    timecode: DEFAULT_TIMECODE,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
 
 export default function App() {
   const [audioBuffer, setAudioBuffer] = useState<AudioBuffer | null>(null);
   const [fileName, setFileName] = useState<string | null>(null);
+  const [audioHash, setAudioHash] = useState<string | null>(null); // SHA-256 of the audio file, for project file fingerprints
+  const [audioMarkers, setAudioMarkers] = useState<AudioMarkerFormat | null>(null); // How cues can be written back into the original file
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
-  const [cues, setCues] = useState<Cue[]>([]);
+  // Cues and lanes share one undo history, since lane edits remap cue rows
+  const {
+    state: doc,
+    set: setDoc,
+    reset: resetDoc,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    beginTransaction,
+    commitTransaction,
+  } = useHistory<LaneDocument>({ cues: [], lanes: createDefaultLanes() });
+  const { cues, lanes } = doc;
+  const setCues = useCallback((update: Cue[] | ((prev: Cue[]) => Cue[])) => {
+    setDoc(d => ({ ...d, cues: typeof update === 'function' ? update(d.cues) : update }));
+  }, [setDoc]);
+  const [showLaneManager, setShowLaneManager] = useState(false);
   const [waveformColor] = useState('#00d2ff'); 
 
+  // Musical time
+  const [tempoMap, setTempoMap] = useState<TempoMap | null>(null);
+  const [timeDisplay, setTimeDisplay] = useState<TimeDisplayMode>('clock');
+  const [showTempoEditor, setShowTempoEditor] = useState(false);
+  // Show timecode (format and start offset are saved with the project)
+  const [timecode, setTimecode] = useState<TimecodeSettings>(DEFAULT_TIMECODE);
+  const [showTimecode, setShowTimecode] = useState(false);
+  const sampleRate = audioBuffer?.sampleRate ?? audioCtx.sampleRate;
+  const timeFormat = useMemo<TimeFormatOptions>(
+    () => ({ display: timeDisplay, tempoMap, timecode, sampleRate }),
+    [timeDisplay, tempoMap, timecode, sampleRate]
+  );
+
+  // LTC track: follows the project timecode until changed in the dialog
+  const [ltcSettings, setLtcSettings] = useState<LtcSettings>(DEFAULT_LTC_SETTINGS);
+  const [showLtc, setShowLtc] = useState(false);
+  const ltcRoutingRef = useRef<LtcRouting | null>(null);
+  const ltcSourceRef = useRef<AudioBufferSourceNode | null>(null);
+
+  useEffect(() => {
+    setLtcSettings(s => ({
+      ...s,
+      format: LTC_FORMATS.includes(timecode.format) ? timecode.format : s.format,
+      start: timecode.startOffset,
+    }));
+  }, [timecode]);
+
+  // Rendered at full scale in a worker once per file, format and start, so live
+  // playback only has to start a source; the level is set on the routing's gain
+  const [ltcBuffer, setLtcBuffer] = useState<AudioBuffer | null>(null);
+  const ltcLive = ltcSettings.liveChannel !== null;
+
+  useEffect(() => {
+    if (!ltcLive || !audioBuffer) {
+      setLtcBuffer(null);
+      return;
+    }
+    // The previous buffer keeps playing until the new one is ready
+    const controller = new AbortController();
+    renderLtcBuffer(audioCtx, ltcSettings, audioBuffer.length, audioBuffer.sampleRate, controller.signal)
+      .then(setLtcBuffer)
+      .catch(err => {
+        if (controller.signal.aborted) return;
+        console.error("Error rendering LTC", err);
+      });
+    return () => controller.abort();
+  }, [audioBuffer, ltcLive, ltcSettings.format, ltcSettings.start]);
+
+  useEffect(() => {
+    if (ltcSettings.liveChannel === null) return;
+    const routing = createLtcRouting(audioCtx, ltcSettings.liveChannel);
+    ltcRoutingRef.current = routing;
+    countInScheduler.setOutput(routing.program);
+    return () => {
+      countInScheduler.setOutput(audioCtx.destination);
+      routing.dispose();
+      ltcRoutingRef.current = null;
+    };
+  }, [ltcSettings.liveChannel]);
+
+  useEffect(() => {
+    ltcRoutingRef.current?.ltc.gain.setValueAtTime(getLtcGain(ltcSettings), audioCtx.currentTime);
+  }, [ltcSettings.liveChannel, ltcSettings.levelDb]);
+
+  // Cue suggestions from onset/beat detection
+  const onsets = useOnsetDetection(audioBuffer);
+  const [showOnsetPanel, setShowOnsetPanel] = useState(false);
+  const [suggestionRow, setSuggestionRow] = useState(0);
+  const suggestionLane = Math.min(suggestionRow, lanes.length - 1); // lanes may have been removed since
+  // Hide suggestions that already have a cue in the target lane
+  const ghostMarkers = useMemo(() => {
+    const taken = cues.filter(c => c.row === suggestionLane).map(c => c.time);
+    return onsets.suggestions.filter(t => !taken.some(ct => Math.abs(ct - t) < 0.02));
+  }, [onsets.suggestions, cues, suggestionLane]);
+
+  // Timeline view
+  const [zoom, setZoom] = useState(100);
+  const [isFollowing, setIsFollowing] = useState(true);
+
+  // Keyboard & record mode
+  const [keymap, setKeymap] = useState<Keymap>(loadKeymap);
+  const [showKeymapSettings, setShowKeymapSettings] = useState(false);
+  const [isRecording, setIsRecording] = useState(false);
+  const [recordOffset, setRecordOffset] = useState(loadRecordOffset); // ms
+
+  // Show control (cue actions)
+  const showControl = useShowControl(cues);
+  const [showLog, setShowLog] = useState(false);
+  const [actionsCueId, setActionsCueId] = useState<string | null>(null);
+  const actionsCue = cues.find(c => c.id === actionsCueId) ?? null;
+
+  // OSC bridge to lighting/video consoles (outgoing GO/transport/heartbeat, incoming remote control)
+  const [oscSettings, setOscSettings] = useState<OscBridgeSettings>(loadOscBridgeSettings);
+  const [showOscSettings, setShowOscSettings] = useState(false);
+  const oscBridge = useOscBridge(oscSettings, {
+    onCommand: (command) => handleOscCommand(command),
+    getHeartbeat: () => ({ time: isPlaying ? getPlaybackPosition().time : currentTime, playing: isPlaying }),
+  });
+
+  useEffect(() => {
+    const engine = showControl.engine;
+    if (!oscSettings.enabled || !engine) return;
+    return engine.onGo((cue, index) => {
+      const { address, args } = buildCueGoMessage(oscSettings, cue, index, lanes);
+      oscBridge.send(address, args);
+    });
+  }, [showControl.engine, oscSettings, lanes, oscBridge.send]);
+
+  // Rehearsal State
+  const [loopRegion, setLoopRegion] = useState<LoopRegion | null>(null);
+  const [loopEnabled, setLoopEnabled] = useState(false);
+  const [loopCount, setLoopCount] = useState(0);
+  const [selectedCueId, setSelectedCueId] = useState<string | null>(null);
+  const [preRoll, setPreRoll] = useState(3);
+
+  // Speed
+  const [playbackRate, setPlaybackRate] = useState(1);
+  const [preservePitch, setPreservePitch] = useState(true);
+  const [isStretching, setIsStretching] = useState(false);
+  const [stretchVersion, setStretchVersion] = useState(0); // bumps when a stretched buffer becomes available
+
+  // Setlist (one project per song)
+  const [setlist, setSetlist] = useState<Setlist>(loadSetlist);
+  const [showSetlist, setShowSetlist] = useState(false);
+  const [setlistBusy, setSetlistBusy] = useState<string | null>(null);
+  const [songEnded, setSongEnded] = useState(false);
+  const pendingPlayRef = useRef(false); // Start playback once the next song's audio is loaded
+
+  // Count-in clicks before cues, scheduled alongside the program source
+  const [countIn, setCountIn] = useState<CountInSettings>(loadCountInSettings);
+  const [showCountIn, setShowCountIn] = useState(false);
+
+  useEffect(() => {
+    countInScheduler.setShow(cues, lanes);
+  }, [cues, lanes]);
+
+  useEffect(() => {
+    countInScheduler.setSettings(countIn);
+    saveCountInSettings(countIn);
+  }, [countIn]);
+
+  // Pop-out stage display in another window, fed over a BroadcastChannel
+  const stageShow = useMemo(
+    () => ({ name: fileName, duration, cues, lanes, timeFormat }),
+    [fileName, duration, cues, lanes, timeFormat]
+  );
+  useStageSync(stageShow, {
+    playing: isPlaying,
+    time: currentTime,
+    rate: playbackRate,
+    loop: loopEnabled && isValidLoop(loopRegion) ? loopRegion : null,
+  });
+
+  // Persistence
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [saveStatus, setSaveStatus] = useState<'saved' | 'saving' | 'error'>('saved');
+  const [showProjectBrowser, setShowProjectBrowser] = useState(false);
+  // Last project data written to (or read from) storage; autosave skips when nothing changed
+  const lastSavedRef = useRef<{ cues: Cue[]; lanes: Lane[]; tempoMap: TempoMap | null; timecode: TimecodeSettings } | null>(null);
+
   // Refs for audio playback logic
   const sourceNodeRef = useRef<AudioBufferSourceNode | null>(null);
-  const startTimeRef = useRef<number>(0);
+  const startTimeRef = useRef<number>(0); // audioCtx time when the current source started
+  const startOffsetRef = useRef<number>(0); // media time the current source started from
+  const activeLoopRef = useRef<LoopRegion | null>(null); // loop points of the current source
+  const loopCountRef = useRef<number>(0);
+  const rateRef = useRef<number>(1); // media seconds per audioCtx second for the current source
+  const bufferScaleRef = useRef<number>(1); // media seconds per buffer second (≠ 1 for stretched buffers)
+  const stretchCacheRef = useRef(new Map<number, AudioBuffer>());
   const pauseTimeRef = useRef<number>(0);
   const animationFrameRef = useRef<number>(0);
 
-  // File Upload Handler
+  // Loop points and selection belong to the audio that was loaded
+  const resetRehearsal = () => {
+    setLoopRegion(null);
+    setLoopEnabled(false);
+    setSelectedCueId(null);
+  };
+
+  // File Upload Handler (starts a new project)
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -31,70 +297,234 @@ export default function App() {
     // Stop current playback
     handleStop();
 
-    const arrayBuffer = await file.arrayBuffer();
-    
     try {
-      const decodedBuffer = await audioCtx.decodeAudioData(arrayBuffer);
+      const arrayBuffer = await file.arrayBuffer();
+      // Read before decoding, which detaches the buffer
+      const { wav, chapters } = readAudioMarkers(arrayBuffer);
+      const [hash, decodedBuffer] = await Promise.all([hashAudio(arrayBuffer), audioCtx.decodeAudioData(arrayBuffer)]);
+      const project = createProjectRecord(file.name, decodedBuffer.duration);
+
       setAudioBuffer(decodedBuffer);
+      setAudioHash(hash);
+      setAudioMarkers(wav ? 'wav' : chapters?.container ?? null);
       setDuration(decodedBuffer.duration);
       setFileName(file.name);
-      setCues([]); // Reset cues for new file
+      lastSavedRef.current = { cues: project.cues, lanes: project.lanes!, tempoMap: null, timecode: DEFAULT_TIMECODE };
+      resetDoc({ cues: project.cues, lanes: project.lanes! }); // Reset cues (and their history) for new file
+      setTempoMap(null);
+      setTimecode(DEFAULT_TIMECODE);
+      resetRehearsal();
+      setProjectId(project.id);
+      // decodeAudioData drops embedded markers: offer them as cues
+      if (wav && wav.markers.length > 0) setPendingImport({ fileName: file.name, source: { wav } });
+      else if (chapters && chapters.chapters.length > 0) setPendingImport({ fileName: file.name, source: { chapters } });
+
+      try {
+        await saveProject(project, file);
+        setLastProjectId(project.id);
+        setSaveStatus('saved');
+      } catch (err) {
+        console.error("Error saving project", err);
+        setSaveStatus('error');
+      }
     } catch (err) {
       console.error("Error decoding audio", err);
       alert("Failed to decode audio file.");
     }
+    e.target.value = '';
+  };
+
+  // openProject is memoised, so it stops through the latest handleStop (current OSC settings and position)
+  const handleStopRef = useRef<() => void>(() => {});
+
+  // Reopen a saved project, including its original audio
+  const openProject = useCallback(async (id: string): Promise<boolean> => {
+    try {
+      const [project, audio] = await Promise.all([getProject(id), getProjectAudio(id)]);
+      if (!project || !audio) {
+        setLastProjectId(null);
+        return false;
+      }
+      const data = await audio.arrayBuffer();
+      const { wav, chapters } = readAudioMarkers(data);
+      const markers = wav ? 'wav' : chapters?.container ?? null;
+      const [hash, decodedBuffer] = await Promise.all([hashAudio(data), audioCtx.decodeAudioData(data)]);
+
+      handleStopRef.current();
+      setAudioBuffer(decodedBuffer);
+      setAudioHash(hash);
+      setAudioMarkers(markers);
+      setDuration(decodedBuffer.duration);
+      setFileName(project.fileName);
+      const projectTempo = project.tempoMap ?? null;
+      const projectLanes = ensureLanes(project.lanes, project.cues);
+      const projectTimecode = parseTimecodeSettings(project.timecode);
+      lastSavedRef.current = { cues: project.cues, lanes: projectLanes, tempoMap: projectTempo, timecode: projectTimecode };
+      resetDoc({ cues: project.cues, lanes: projectLanes });
+      setTempoMap(projectTempo);
+      setTimecode(projectTimecode);
+      resetRehearsal();
+      setProjectId(project.id);
+      setLastProjectId(project.id);
+      setSaveStatus('saved');
+      return true;
+    } catch (err) {
+      console.error("Error opening project", err);
+      alert("Failed to open project.");
+      return false;
+    }
+  }, [resetDoc]);
+
+  const closeProject = () => {
+    handleStop();
+    setAudioBuffer(null);
+    setAudioHash(null);
+    setAudioMarkers(null);
+    setDuration(0);
+    setFileName(null);
+    const empty: LaneDocument = { cues: [], lanes: createDefaultLanes() };
+    lastSavedRef.current = { ...empty, tempoMap: null, timecode: DEFAULT_TIMECODE };
+    resetDoc(empty);
+    setTempoMap(null);
+    setTimecode(DEFAULT_TIMECODE);
+    resetRehearsal();
+    setProjectId(null);
   };
 
-  // Cue JSON Import Handler
+  const handleProjectDeleted = (id: string) => {
+    if (id === projectId) closeProject();
+    setSetlist(s => removeSetlistEntries(s, id));
+  };
+
+  // Restore the last open project after a reload
+  useEffect(() => {
+    const lastId = getLastProjectId();
+    if (lastId) openProject(lastId);
+  }, [openProject]);
+
+  // Autosave cues (and project settings) after every edit. The write waits for a
+  // 300 ms pause; a waiting write goes out at once when another project is opened
+  // (or this one closed) and when the page is hidden or closed.
+  const pendingSaveRef = useRef<{ projectId: string; timer: number; save: () => void } | null>(null);
+  // A write flushed by opening another project finishes after the switch: it must not mark the new one saved
+  const projectIdRef = useRef(projectId);
+  projectIdRef.current = projectId;
+
+  const flushPendingSave = () => {
+    const pending = pendingSaveRef.current;
+    if (!pending) return;
+    pendingSaveRef.current = null;
+    window.clearTimeout(pending.timer);
+    pending.save();
+  };
+
+  useEffect(() => {
+    const pending = pendingSaveRef.current;
+    if (pending?.projectId === projectId) {
+      // Superseded by this edit
+      window.clearTimeout(pending.timer);
+      pendingSaveRef.current = null;
+    } else {
+      flushPendingSave();
+    }
+
+    const saved = lastSavedRef.current;
+    if (!projectId || (saved && saved.cues === cues && saved.lanes === lanes && saved.tempoMap === tempoMap && saved.timecode === timecode)) return;
+
+    setSaveStatus('saving');
+    const save = () => {
+      updateProject(projectId, { cues, lanes, tempoMap, timecode, fileName, duration })
+        .then(() => {
+          if (projectIdRef.current !== projectId) return;
+          lastSavedRef.current = { cues, lanes, tempoMap, timecode };
+          setSaveStatus('saved');
+        })
+        .catch(err => {
+          console.error("Error autosaving project", err);
+          if (projectIdRef.current === projectId) setSaveStatus('error');
+        });
+    };
+    pendingSaveRef.current = { projectId, timer: window.setTimeout(flushPendingSave, 300), save };
+  }, [projectId, cues, lanes, tempoMap, timecode, fileName, duration]);
+
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flushPendingSave();
+    };
+    window.addEventListener('pagehide', flushPendingSave);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      window.removeEventListener('pagehide', flushPendingSave);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, []);
+
+  // Cue import: the file is parsed and previewed in ImportDialog before anything changes
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; source: CueImportSource } | null>(null);
+
   const handleCueImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
-    const text = await file.text();
     try {
-        const data = JSON.parse(text);
-        if (Array.isArray(data.cues)) {
-            // Replace current cues with imported ones
-            // Ensure they have all properties (migration safety)
-            const importedCues = data.cues.map((c: any) => ({
-                id: c.id || crypto.randomUUID(),
-                time: Number(c.time) || 0,
-                label: c.label || "Imported Cue",
-                color: c.color || '#ef4444',
-                row: typeof c.row === 'number' ? c.row : 0
-            }));
-            
-            setCues(importedCues);
-            
-            // Allow importing even if names don't match, but maybe warn if duration is wildly different?
-            // User knows best.
+        if (/\.(wav|bwf)$/i.test(file.name)) {
+            const wav = readWavInfo(await file.arrayBuffer());
+            if (!wav) throw new Error(`${file.name} is not a WAV file`);
+            setPendingImport({ fileName: file.name, source: { wav } });
+        } else if (/\.(mp3|m4a|m4b|mp4)$/i.test(file.name)) {
+            const chapters = readChapters(await file.arrayBuffer());
+            if (!chapters) throw new Error(`${file.name} is not an MP3 or MP4 file`);
+            setPendingImport({ fileName: file.name, source: { chapters } });
         } else {
-            alert("Invalid JSON format: missing 'cues' array.");
+            setPendingImport({ fileName: file.name, source: { text: await file.text() } });
         }
     } catch (err) {
-        console.error("Error parsing JSON", err);
-        alert("Failed to parse JSON file.");
+        console.error("Error reading cue file", err);
+        alert(`Failed to read cue file: ${err instanceof Error ? err.message : err}`);
     }
     // Reset input so same file can be selected again if needed
     e.target.value = '';
   };
 
+  const applyCueImport = (plan: ImportPlan, file: ParsedCueFile, strategy: ImportStrategy) => {
+    setDoc(plan.doc);
+    // A replaced project file brings its tempo map and timecode along
+    if (strategy === 'replace') {
+        if (file.tempoMap !== undefined) setTempoMap(file.tempoMap);
+        if (file.timecode) setTimecode(file.timecode);
+    }
+    setPendingImport(null);
+  };
+
+  // Current media position of the running source, in media (not wall-clock) time
+  const getPlaybackPosition = () => {
+    const elapsed = (audioCtx.currentTime - startTimeRef.current) * rateRef.current;
+    return resolveLoopPosition(startOffsetRef.current + elapsed, activeLoopRef.current);
+  };
+
   // Playback Loop
   const updateProgress = useCallback(() => {
     if (!isPlaying) return;
     
-    const now = audioCtx.currentTime;
-    const elapsed = now - startTimeRef.current;
+    const { time, loopCount: loops } = getPlaybackPosition();
+    showControl.engine?.advance(activeLoopRef.current ? time : Math.min(time, duration), activeLoopRef.current);
+    countInScheduler.update();
     
     // Check if finished
-    if (elapsed >= duration) {
+    if (!activeLoopRef.current && time >= duration) {
         handleStop();
+        setSongEnded(true);
         return;
     }
+
+    if (loops !== loopCountRef.current) {
+        loopCountRef.current = loops;
+        setLoopCount(loops);
+    }
     
-    setCurrentTime(elapsed);
+    setCurrentTime(time);
     animationFrameRef.current = requestAnimationFrame(updateProgress);
-  }, [isPlaying, duration]);
+  }, [isPlaying, duration, showControl.engine]);
 
   useEffect(() => {
     if (isPlaying) {
@@ -111,29 +541,115 @@ export default function App() {
   const playAudio = (startOffset: number) => {
     if (!audioBuffer) return;
     
-    // Disconnect old node if exists
+    // Stop and disconnect old node if exists (restarts for speed/loop changes reuse this path)
     if (sourceNodeRef.current) {
+        try { sourceNodeRef.current.stop(); } catch(e){}
         try { sourceNodeRef.current.disconnect(); } catch(e){}
     }
+    if (ltcSourceRef.current) {
+        try { ltcSourceRef.current.stop(); } catch(e){}
+        ltcSourceRef.current = null;
+    }
+
+    // Pitch-preserving playback uses a pre-stretched buffer at rate 1; otherwise the
+    // source is simply resampled (which shifts pitch along with speed)
+    const stretched = preservePitch && playbackRate !== 1 ? stretchCacheRef.current.get(playbackRate) : undefined;
+    const bufferScale = stretched ? playbackRate : 1;
 
     const source = audioCtx.createBufferSource();
-    source.buffer = audioBuffer;
-    source.connect(audioCtx.destination);
+    source.buffer = stretched ?? audioBuffer;
+    source.playbackRate.value = stretched ? 1 : playbackRate;
+    const ltcRouting = ltcRoutingRef.current;
+    source.connect(ltcRouting ? ltcRouting.program : audioCtx.destination);
+
+    // Let the source node loop natively so the wrap is sample-accurate and gapless
+    const loop = loopEnabled && isValidLoop(loopRegion) ? loopRegion : null;
+    const offset = loop && startOffset >= loop.end ? loop.start : startOffset;
+    if (loop) {
+        source.loop = true;
+        source.loopStart = loop.start / bufferScale;
+        source.loopEnd = loop.end / bufferScale;
+    }
     
     // Web Audio Logic:
-    source.start(0, startOffset);
+    source.start(0, offset / bufferScale);
+    // Starting (not restarting) playback: cues from the start position on are still to fire
+    if (!sourceNodeRef.current) showControl.engine?.seek(offset);
+
+    // LTC runs in media time at the playback speed, so it chases varispeed and loops too
+    if (ltcRouting && ltcBuffer) {
+        const ltcSource = audioCtx.createBufferSource();
+        ltcSource.buffer = ltcBuffer;
+        ltcSource.playbackRate.value = playbackRate;
+        if (loop) {
+            ltcSource.loop = true;
+            ltcSource.loopStart = loop.start;
+            ltcSource.loopEnd = loop.end;
+        }
+        ltcSource.connect(ltcRouting.ltc);
+        ltcSource.start(0, offset);
+        ltcSourceRef.current = ltcSource;
+    }
     
     sourceNodeRef.current = source;
-    startTimeRef.current = audioCtx.currentTime - startOffset;
+    startTimeRef.current = audioCtx.currentTime;
+    startOffsetRef.current = offset;
+    activeLoopRef.current = loop;
+    rateRef.current = playbackRate;
+    bufferScaleRef.current = bufferScale;
+    loopCountRef.current = 0;
+    setLoopCount(0);
+    countInScheduler.start({ ctxTime: startTimeRef.current, offset, rate: playbackRate, loop });
     
     setIsPlaying(true);
   };
 
+  // Hand loop changes to the running source without restarting it
+  useEffect(() => {
+    const source = sourceNodeRef.current;
+    if (!isPlaying || !source) return;
+
+    const loop = loopEnabled && isValidLoop(loopRegion) ? loopRegion : null;
+    const now = audioCtx.currentTime;
+    const { time } = getPlaybackPosition();
+
+    if (loop && time >= loop.end) {
+        // Already past the new loop: jump back into it
+        playAudio(loop.start);
+        return;
+    }
+
+    startTimeRef.current = now;
+    startOffsetRef.current = time;
+    activeLoopRef.current = loop;
+    countInScheduler.start({ ctxTime: now, offset: time, rate: rateRef.current, loop });
+    source.loop = !!loop;
+    if (loop) {
+        source.loopStart = loop.start / bufferScaleRef.current;
+        source.loopEnd = loop.end / bufferScaleRef.current;
+    }
+    const ltcSource = ltcSourceRef.current;
+    if (ltcSource) {
+        ltcSource.loop = !!loop;
+        if (loop) {
+            ltcSource.loopStart = loop.start;
+            ltcSource.loopEnd = loop.end;
+        }
+    }
+    // Only loop edits should rebase the running source; play/pause already go through playAudio
+  }, [loopRegion, loopEnabled]);
+
   const pauseAudio = () => {
     if (sourceNodeRef.current) {
         try { sourceNodeRef.current.stop(); } catch(e){}
         sourceNodeRef.current = null;
     }
+    if (ltcSourceRef.current) {
+        try { ltcSourceRef.current.stop(); } catch(e){}
+        ltcSourceRef.current = null;
+    }
+    countInScheduler.stop();
+    showControl.engine?.pause();
     pauseTimeRef.current = currentTime;
     setIsPlaying(false);
   };
@@ -141,26 +657,32 @@ export default function App() {
   const handlePlayPause = () => {
     if (isPlaying) {
       pauseAudio();
+      oscBridge.send(oscSettings.pauseAddress, [{ type: 'f', value: currentTime }]);
     } else {
+      const time = currentTime >= duration ? 0 : currentTime;
       if (currentTime >= duration) {
         // Restart if at end
+        showControl.engine?.seek(0);
         setCurrentTime(0);
-        playAudio(0);
-      } else {
-        playAudio(currentTime);
       }
+      playAudio(time);
+      oscBridge.send(oscSettings.playAddress, [{ type: 'f', value: time }]);
     }
   };
 
   const handleStop = () => {
+    showControl.engine?.stop();
+    oscBridge.send(oscSettings.stopAddress);
     pauseAudio();
     setCurrentTime(0);
     pauseTimeRef.current = 0;
   };
+  handleStopRef.current = handleStop;
 
   const handleSeek = (time: number) => {
     const wasPlaying = isPlaying;
     if (wasPlaying) pauseAudio();
+    showControl.engine?.seek(time);
     
     setCurrentTime(time);
     pauseTimeRef.current = time;
@@ -170,41 +692,372 @@ export default function App() {
     }
   };
 
+  // Pre-render a pitch-preserving copy for the chosen speed (debounced while the slider moves)
+  useEffect(() => {
+    stretchCacheRef.current.clear();
+  }, [audioBuffer]);
+
+  useEffect(() => {
+    const cache = stretchCacheRef.current;
+    const cached = cache.get(playbackRate);
+    if (cached) {
+      // Most recently used last
+      cache.delete(playbackRate);
+      cache.set(playbackRate, cached);
+      return;
+    }
+    if (!audioBuffer || !preservePitch || playbackRate === 1) return;
+
+    const controller = new AbortController();
+    setIsStretching(true);
+    const timer = window.setTimeout(() => {
+      renderTimeStretched(audioCtx, audioBuffer, playbackRate, controller.signal)
+        .then(stretched => {
+          cache.set(playbackRate, stretched);
+          // Each entry is a full-length copy of the track: keep the current speed and the last one
+          for (const rate of cache.keys()) {
+            if (cache.size <= STRETCH_CACHE_SIZE) break;
+            cache.delete(rate);
+          }
+          setIsStretching(false);
+          setStretchVersion(v => v + 1);
+        })
+        .catch(err => {
+          if (controller.signal.aborted) return;
+          console.error("Error stretching audio", err);
+          setIsStretching(false);
+        });
+    }, 250);
+    return () => {
+      window.clearTimeout(timer);
+      controller.abort();
+      setIsStretching(false);
+    };
+  }, [audioBuffer, preservePitch, playbackRate]);
+
+  // Restart the running source at the same media position when the speed or LTC setup changes
+  // (a new LTC channel also moves the program onto a new routing)
+  useEffect(() => {
+    if (!isPlaying || !sourceNodeRef.current) return;
+    playAudio(getPlaybackPosition().time);
+    // isPlaying is read, not watched: starting playback already uses the current speed
+  }, [playbackRate, preservePitch, stretchVersion, ltcBuffer, ltcSettings.liveChannel]);
+
+  // Play from a few seconds before the selected cue
+  const handlePreRoll = () => {
+    const cue = cues.find(c => c.id === selectedCueId);
+    if (!cue) return;
+    const time = Math.max(0, cue.time - preRoll);
+    if (isPlaying) pauseAudio();
+    showControl.engine?.seek(time);
+    setCurrentTime(time);
+    pauseTimeRef.current = time;
+    playAudio(time);
+    oscBridge.send(oscSettings.playAddress, [{ type: 'f', value: time }]);
+  };
+
+  const handleLoopChange = (region: LoopRegion | null) => {
+    setLoopRegion(region);
+    setLoopEnabled(!!region);
+  };
+
   // Cue Management
-  const handleAddCue = (time: number) => {
-    const newCue: Cue = {
+  // Without an explicit lane, new cues go into the first unlocked one
+  const handleAddCue = (time: number, row?: number) => {
+    const target = row ?? lanes.findIndex(l => !l.locked);
+    const lane = lanes[target];
+    if (!lane || lane.locked) return;
+    // Label from the updater's list so rapid record-mode taps don't share a number
+    setCues(prev => [...prev, {
       id: crypto.randomUUID(),
       time,
-      label: `Cue ${cues.length + 1}`,
-      color: '#ef4444', // Default Red
-      row: 0
-    };
-    setCues(prev => [...prev, newCue]);
+      label: `Cue ${prev.length + 1}`,
+      color: lane.color,
+      row: target
+    }]);
   };
 
   const handleUpdateCue = (id: string, updates: Partial<Cue>) => {
     setCues(prev => prev.map(c => c.id === id ? { ...c, ...updates } : c));
   };
 
-  const handleDeleteCue = (id: string) => {
-    setCues(prev => prev.filter(c => c.id !== id));
+  // Lane Management
+  const handleUpdateLane = (index: number, changes: Partial<Lane>) => {
+    setDoc(d => ({ ...d, lanes: d.lanes.map((l, i) => i === index ? { ...l, ...changes } : l) }));
   };
 
-  // Export
-  const handleExport = () => {
-    const data = {
-        projectName: fileName,
-        duration,
-        cues,
-        exportDate: new Date().toISOString()
-    };
-    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${fileName || 'project'}_cues.json`;
-    a.click();
-    URL.revokeObjectURL(url);
+  const handleAddLane = () => {
+    setDoc(d => ({ ...d, lanes: [...d.lanes, createLane(`Lane ${d.lanes.length + 1}`)] }));
+  };
+
+  // Turn suggested times into real cues in one undo step
+  const handleAcceptSuggestions = (times: number[]) => {
+    const lane = lanes[suggestionLane];
+    if (times.length === 0 || !lane || lane.locked) return;
+    setCues(prev => [
+      ...prev,
+      ...times.map((time, i) => ({
+        id: crypto.randomUUID(),
+        time,
+        label: `Cue ${prev.length + i + 1}`,
+        color: lane.color,
+        row: suggestionLane,
+      })),
+    ]);
+  };
+
+  // Detected tempo becomes the project tempo, with the first detected beat as the downbeat
+  const handleApplyDetectedTempo = () => {
+    const analysis = onsets.analysis;
+    if (!analysis || !analysis.bpm) return;
+    setTempoMap({
+      ...(tempoMap ?? DEFAULT_TEMPO_MAP),
+      bpm: Math.round(analysis.bpm * 100) / 100,
+      offset: analysis.beats[0] ?? 0,
+      changes: [],
+    });
+  };
+
+  const handleDeleteCue = (id: string) => handleDeleteCues([id]);
+
+  const handleDeleteCues = (ids: string[]) => {
+    const removed = new Set(ids);
+    setCues(prev => prev.filter(c => !removed.has(c.id)));
+    if (selectedCueId && removed.has(selectedCueId)) setSelectedCueId(null);
+  };
+
+  // Media time the listener is hearing right now: the rendered position minus the
+  // output latency (and any manual compensation), scaled by the playback rate
+  const getHeardPosition = () => {
+    const latency = (audioCtx.outputLatency || 0) + audioCtx.baseLatency + recordOffset / 1000;
+    const elapsed = (audioCtx.currentTime - startTimeRef.current) * rateRef.current;
+    const linear = startOffsetRef.current + elapsed - latency * rateRef.current;
+    return Math.max(0, resolveLoopPosition(linear, activeLoopRef.current).time);
+  };
+
+  // Record mode: drop a cue into a row at the moment it was heard
+  const handleRecordCue = (row: number) => {
+    if (!isRecording || !isPlaying) return;
+    handleAddCue(getHeardPosition(), row);
+  };
+
+  const seekBy = (delta: number) => {
+    if (!audioBuffer) return;
+    handleSeek(Math.max(0, Math.min(duration, currentTime + delta)));
+  };
+
+  const nudgeSelectedCue = (delta: number) => {
+    const cue = cues.find(c => c.id === selectedCueId);
+    if (!cue || isLaneLocked(lanes, cue.row)) return;
+    handleUpdateCue(cue.id, { time: Math.max(0, Math.min(duration, cue.time + delta)) });
+  };
+
+  const zoomBy = (factor: number) => {
+    setZoom(z => Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, Math.round(z * factor))));
+  };
+
+  const handleKeymapChange = (next: Keymap) => {
+    setKeymap(next);
+    saveKeymap(next);
+  };
+
+  const handleRecordOffsetChange = (ms: number) => {
+    setRecordOffset(ms);
+    saveRecordOffset(ms);
+  };
+
+  useEffect(() => {
+    saveSetlist(setlist);
+  }, [setlist]);
+
+  // Open another song; `autoplay` starts it as soon as its audio is decoded
+  const goToSong = async (id: string, autoplay = false) => {
+    pendingPlayRef.current = autoplay;
+    if (!(await openProject(id))) pendingPlayRef.current = false;
+  };
+
+  useEffect(() => {
+    if (!audioBuffer || !pendingPlayRef.current) return;
+    pendingPlayRef.current = false;
+    handlePlayPause();
+  }, [audioBuffer]);
+
+  const stepSetlist = (delta: number) => {
+    const index = findSetlistIndex(setlist, projectId);
+    const entry = index === -1 ? undefined : setlist.entries[index + delta];
+    if (entry) goToSong(entry.projectId);
+  };
+
+  // Follow the setlist's advance mode when a song plays to the end
+  useEffect(() => {
+    if (!songEnded) return;
+    setSongEnded(false);
+    const index = findSetlistIndex(setlist, projectId);
+    const next = index === -1 ? undefined : setlist.entries[index + 1];
+    if (setlist.advance === 'manual' || !next) return;
+    goToSong(next.projectId, setlist.advance === 'play');
+    // Only the end of a song should advance; setlist edits must not
+  }, [songEnded]);
+
+  const handleAddSongs = async (files: File[]) => {
+    const added: string[] = [];
+    const failed: string[] = [];
+    for (const [i, file] of files.entries()) {
+      setSetlistBusy(`Adding ${i + 1}/${files.length}: ${file.name}`);
+      try {
+        const decodedBuffer = await audioCtx.decodeAudioData(await file.arrayBuffer());
+        const project = createProjectRecord(file.name, decodedBuffer.duration);
+        await saveProject(project, file);
+        added.push(project.id);
+      } catch (err) {
+        console.error(`Error adding ${file.name} to the setlist`, err);
+        failed.push(file.name);
+      }
+    }
+    setSetlistBusy(null);
+    setSetlist(s => ({ ...s, entries: [...s.entries, ...added.map(createSetlistEntry)] }));
+    if (failed.length) alert(`Failed to add: ${failed.join(', ')}`);
+    if (!projectId && added.length) goToSong(added[0]);
+  };
+
+  const handleExportShow = async () => {
+    setSetlistBusy('Collecting songs…');
+    try {
+      const entries: ShowBundleEntry[] = [];
+      const missing: number[] = [];
+      for (const [i, entry] of setlist.entries.entries()) {
+        const [project, audio] = await Promise.all([getProject(entry.projectId), getProjectAudio(entry.projectId)]);
+        if (!project || !audio) {
+          missing.push(i + 1);
+          continue;
+        }
+        // The open song may have edits the autosave hasn't written yet
+        const { id, createdAt, updatedAt, ...song } = entry.projectId === projectId ? { ...project, cues, lanes, tempoMap, timecode } : project;
+        entries.push({ song, audio });
+      }
+      if (missing.length && !confirm(`Song${missing.length > 1 ? 's' : ''} ${missing.join(', ')} can't be found and will be left out. Export anyway?`)) return;
+
+      setSetlistBusy('Writing show file…');
+      const url = URL.createObjectURL(writeShowBundle(setlist, entries));
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${setlist.name || 'show'}${SHOW_FILE_EXTENSION}`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error("Error exporting show", err);
+      alert("Failed to export show.");
+    } finally {
+      setSetlistBusy(null);
+    }
+  };
+
+  // Every imported song becomes a new saved project; existing projects are left alone
+  const handleImportShow = async (file: File) => {
+    if (setlist.entries.length && !confirm(`Replace the setlist "${setlist.name}"? Its songs stay in your saved projects.`)) return;
+    setSetlistBusy('Reading show file…');
+    try {
+      const bundle = await readShowBundle(file);
+      const projectIds: string[] = [];
+      for (const [i, { song, audio }] of bundle.entries.entries()) {
+        setSetlistBusy(`Importing ${i + 1}/${bundle.entries.length}: ${song.name}`);
+        const now = Date.now();
+        const project: ProjectRecord = { ...song, id: crypto.randomUUID(), createdAt: now, updatedAt: now };
+        await saveProject(project, audio);
+        projectIds.push(project.id);
+      }
+      setSetlist({ name: bundle.name, advance: bundle.advance, entries: projectIds.map(createSetlistEntry) });
+      if (projectIds.length) goToSong(projectIds[0]);
+    } catch (err) {
+      console.error("Error importing show", err);
+      alert(`Failed to import show: ${err instanceof Error ? err.message : err}`);
+    } finally {
+      setSetlistBusy(null);
+    }
+  };
+
+  const handleOscSettingsChange = (next: OscBridgeSettings) => {
+    setOscSettings(next);
+    saveOscBridgeSettings(next);
+  };
+
+  // Remote transport commands arriving through the bridge
+  const handleOscCommand = (command: OscBridgeCommand) => {
+    if (!audioBuffer) return;
+    switch (command.type) {
+      case 'playPause':
+        handlePlayPause();
+        break;
+      case 'stop':
+        handleStop();
+        break;
+      case 'seek':
+        handleSeek(Math.min(duration, command.time));
+        break;
+    }
+  };
+
+  useKeyboardShortcuts(keymap, {
+    playPause: () => audioBuffer && handlePlayPause(),
+    stop: handleStop,
+    seekBack: () => seekBy(-1),
+    seekForward: () => seekBy(1),
+    seekBackLarge: () => seekBy(-5),
+    seekForwardLarge: () => seekBy(5),
+    nudgeCueBack: () => nudgeSelectedCue(-0.1),
+    nudgeCueForward: () => nudgeSelectedCue(0.1),
+    nudgeCueBackFine: () => nudgeSelectedCue(-0.01),
+    nudgeCueForwardFine: () => nudgeSelectedCue(0.01),
+    zoomIn: () => zoomBy(1.25),
+    zoomOut: () => zoomBy(0.8),
+    toggleFollow: () => setIsFollowing(f => !f),
+    toggleRecord: () => audioBuffer && setIsRecording(r => !r),
+    toggleClickMute: () => setCountIn(c => ({ ...c, muted: !c.muted })),
+    recordRow1: () => handleRecordCue(0),
+    recordRow2: () => handleRecordCue(1),
+    recordRow3: () => handleRecordCue(2),
+    recordRow4: () => handleRecordCue(3),
+    addCue: () => audioBuffer && handleAddCue(currentTime),
+    previousSong: () => stepSetlist(-1),
+    nextSong: () => stepSetlist(1),
+    undo,
+    redo,
+  }, !showKeymapSettings);
+
+  // Export (project JSON plus DAW/NLE/subtitle formats, previewed in a dialog)
+  const [showExport, setShowExport] = useState(false);
+  const exportProject = useMemo(
+    () => ({ name: fileName ?? '', duration, cues, lanes, tempoMap, timecode, audioHash }),
+    [fileName, duration, cues, lanes, tempoMap, timecode, audioHash]
+  );
+  const audioFingerprint = useMemo<AudioFingerprint>(
+    () => ({ fileName, duration, sha256: audioHash }),
+    [fileName, duration, audioHash]
+  );
+
+  // The original audio from the project store with the chosen lanes' cues written in:
+  // WAV cue points, or a chapter table for MP3/MP4. Audio data is copied, not re-encoded.
+  const handleDownloadAudio = async (laneIndexes: number[]) => {
+    try {
+      const audio = projectId ? await getProjectAudio(projectId) : undefined;
+      if (!audio) throw new Error('The original audio file is not in the project store');
+      const included = new Set(laneIndexes);
+      const selected = sortCuesByTime(cues.filter(c => included.has(c.row)));
+      const data = await audio.arrayBuffer();
+      const blob = audioMarkers === 'wav'
+        ? embedWavMarkers(data, selected.map(({ time, label, duration }) => ({ time, label, duration })))
+        : writeChapters(data, cuesToChapters(selected, duration));
+      const [, stem, extension] = (fileName ?? 'audio').match(/^(.*?)(\.[^.]+)?$/)!;
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${stem}_${audioMarkers === 'wav' ? 'cues' : 'chapters'}${extension ?? ''}`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error("Error writing cues into the audio file", err);
+      alert(`Failed to write cues into the audio file: ${err instanceof Error ? err.message : err}`);
+    }
   };
 
   return (
@@ -220,37 +1073,291 @@ export default function App() {
         onStop={handleStop}
         onFileUpload={handleFileUpload}
         onCueImport={handleCueImport}
-        onExport={handleExport}
+        onExport={() => setShowExport(true)}
+        canUndo={canUndo}
+        canRedo={canRedo}
+        onUndo={undo}
+        onRedo={redo}
+        saveStatus={projectId ? saveStatus : null}
+        onOpenProjects={() => setShowProjectBrowser(true)}
+        showSetlist={showSetlist}
+        onToggleSetlist={() => setShowSetlist(!showSetlist)}
+        onOpenTempo={() => setShowTempoEditor(true)}
+        hasTempoMap={!!tempoMap}
+        onOpenDetect={() => setShowOnsetPanel(true)}
+        onOpenLanes={() => setShowLaneManager(true)}
+        timeFormat={timeFormat}
+        onOpenTimecode={() => setShowTimecode(true)}
+        ltcLive={ltcSettings.liveChannel !== null}
+        onOpenLtc={() => setShowLtc(true)}
+        hasLoop={isValidLoop(loopRegion)}
+        loopEnabled={loopEnabled}
+        loopCount={loopCount}
+        onToggleLoop={() => setLoopEnabled(!loopEnabled)}
+        onClearLoop={() => handleLoopChange(null)}
+        preRoll={preRoll}
+        onPreRollChange={setPreRoll}
+        canPreRoll={!!selectedCueId && cues.some(c => c.id === selectedCueId)}
+        onPreRoll={handlePreRoll}
+        playbackRate={playbackRate}
+        onPlaybackRateChange={setPlaybackRate}
+        preservePitch={preservePitch}
+        onPreservePitchChange={setPreservePitch}
+        isStretching={isStretching}
+        isRecording={isRecording}
+        onToggleRecord={() => setIsRecording(!isRecording)}
+        keymap={keymap}
+        onOpenKeymap={() => setShowKeymapSettings(true)}
+        countInEnabled={countIn.enabled}
+        countInMuted={countIn.muted}
+        countInLength={countIn.count}
+        onToggleCountInMute={() => setCountIn(c => ({ ...c, muted: !c.muted }))}
+        onOpenCountIn={() => setShowCountIn(true)}
+        onOpenStageView={() => window.open(getStageViewUrl(), 'audiocue-stage', 'popup,width=1280,height=720')}
+        showArmed={showControl.armed}
+        onToggleArmed={() => showControl.setArmed(!showControl.armed)}
+        showLog={showLog}
+        onToggleLog={() => setShowLog(!showLog)}
+        oscStatus={oscSettings.enabled ? oscBridge.status : null}
+        onOpenOscBridge={() => setShowOscSettings(true)}
       />
 
+      {showOscSettings && (
+        <OscBridgeDialog
+          settings={oscSettings}
+          status={oscBridge.status}
+          onChange={handleOscSettingsChange}
+          onClose={() => setShowOscSettings(false)}
+        />
+      )}
+
+      {actionsCue && (
+        <CueActionsEditor
+          cue={actionsCue}
+          onChange={(actions) => handleUpdateCue(actionsCue.id, { actions })}
+          onTest={(action) => showControl.engine?.fireAction(actionsCue, action)}
+          onEditStart={beginTransaction}
+          onEditEnd={commitTransaction}
+          onClose={() => setActionsCueId(null)}
+        />
+      )}
+
+      {showLaneManager && (
+        <LaneManager
+          lanes={lanes}
+          cues={cues}
+          onUpdateLane={handleUpdateLane}
+          onAddLane={handleAddLane}
+          onMoveLane={(from, to) => setDoc(d => moveLane(d, from, to))}
+          onRemoveLane={(index, target) => setDoc(d => removeLane(d, index, target))}
+          onEditStart={beginTransaction}
+          onEditEnd={commitTransaction}
+          onClose={() => setShowLaneManager(false)}
+        />
+      )}
+
+      {showKeymapSettings && (
+        <KeymapSettings
+          keymap={keymap}
+          outputLatency={(audioCtx.outputLatency || 0) + audioCtx.baseLatency}
+          latencyOffset={recordOffset}
+          onChange={handleKeymapChange}
+          onLatencyOffsetChange={handleRecordOffsetChange}
+          onClose={() => setShowKeymapSettings(false)}
+        />
+      )}
+
+      {showTimecode && (
+        <TimecodeDialog
+          timeFormat={timeFormat}
+          currentTime={currentTime}
+          onChange={setTimecode}
+          onClose={() => setShowTimecode(false)}
+        />
+      )}
+
+      {showExport && (
+        <ExportDialog
+          project={exportProject}
+          audioMarkers={audioMarkers}
+          onDownloadAudio={handleDownloadAudio}
+          onClose={() => setShowExport(false)}
+        />
+      )}
+
+      {pendingImport && (
+        <ImportDialog
+          source={pendingImport.source}
+          fileName={pendingImport.fileName}
+          doc={doc}
+          duration={duration}
+          timeFormat={timeFormat}
+          audio={audioFingerprint}
+          onImport={applyCueImport}
+          onClose={() => setPendingImport(null)}
+        />
+      )}
+
+      {showCountIn && (
+        <CountInDialog
+          settings={countIn}
+          lanes={lanes}
+          onChange={setCountIn}
+          onUpdateLaneClick={(index, click) => handleUpdateLane(index, { click })}
+          onPreview={(click) => countInScheduler.preview(click)}
+          onEditStart={beginTransaction}
+          onEditEnd={commitTransaction}
+          onClose={() => setShowCountIn(false)}
+        />
+      )}
+
+      {showLtc && (
+        <LtcDialog
+          settings={ltcSettings}
+          timeFormat={timeFormat}
+          audioBuffer={audioBuffer}
+          fileName={fileName}
+          outputChannels={audioCtx.destination.maxChannelCount}
+          onChange={setLtcSettings}
+          onClose={() => setShowLtc(false)}
+        />
+      )}
+
+      {showTempoEditor && (
+        <TempoMapEditor
+          tempoMap={tempoMap}
+          timeDisplay={timeDisplay}
+          currentTime={currentTime}
+          onChange={(map) => {
+            setTempoMap(map);
+            if (!map) setTimeDisplay('clock');
+          }}
+          onTimeDisplayChange={setTimeDisplay}
+          onClose={() => setShowTempoEditor(false)}
+        />
+      )}
+
+      {showOnsetPanel && (
+        <OnsetPanel
+          progress={onsets.progress}
+          hasAnalysis={!!onsets.analysis}
+          bpm={onsets.analysis?.bpm || null}
+          suggestionCount={ghostMarkers.length}
+          source={onsets.source}
+          sensitivity={onsets.sensitivity}
+          minSpacing={onsets.minSpacing}
+          targetRow={suggestionLane}
+          lanes={lanes}
+          onAnalyze={onsets.analyze}
+          onSourceChange={onsets.setSource}
+          onSensitivityChange={onsets.setSensitivity}
+          onMinSpacingChange={onsets.setMinSpacing}
+          onTargetRowChange={setSuggestionRow}
+          onAcceptAll={() => handleAcceptSuggestions(ghostMarkers)}
+          onApplyTempo={handleApplyDetectedTempo}
+          onClear={onsets.clear}
+          onClose={() => setShowOnsetPanel(false)}
+        />
+      )}
+
+      {showProjectBrowser && (
+        <ProjectBrowser
+          currentProjectId={projectId}
+          onOpen={(id) => { setShowProjectBrowser(false); openProject(id); }}
+          onDeleted={handleProjectDeleted}
+          onClose={() => setShowProjectBrowser(false)}
+        />
+      )}
+
       {/* Main Workspace */}
-      <div className="flex-1 flex flex-col relative min-h-0">
-        
-        {/* Upper Half: Timeline Visualizer */}
-        <div className="flex-[2] border-b border-neutral-800 bg-black relative min-h-[300px]">
-            <Timeline 
-                audioBuffer={audioBuffer}
-                currentTime={currentTime}
-                duration={duration}
-                isPlaying={isPlaying}
-                cues={cues}
-                waveformColor={waveformColor}
-                onSeek={handleSeek}
-                onAddCue={handleAddCue}
-                onUpdateCue={handleUpdateCue}
-                onDeleteCue={handleDeleteCue}
+      <div className="flex-1 flex min-h-0">
+        {showSetlist && (
+          <div className="w-72 shrink-0">
+            <SetlistPanel
+              setlist={setlist}
+              currentProjectId={projectId}
+              busy={setlistBusy}
+              refreshKey={`${saveStatus}:${showProjectBrowser}`}
+              onChange={setSetlist}
+              onOpen={(id) => goToSong(id)}
+              onPrevious={() => stepSetlist(-1)}
+              onNext={() => stepSetlist(1)}
+              onAddFiles={handleAddSongs}
+              onAddCurrent={() => projectId && setSetlist(s => ({ ...s, entries: [...s.entries, createSetlistEntry(projectId)] }))}
+              onExport={handleExportShow}
+              onImport={handleImportShow}
+              onClose={() => setShowSetlist(false)}
             />
+          </div>
+        )}
+        <div className="flex-1 flex flex-col relative min-h-0 min-w-0">
+        
+          {/* Upper Half: Timeline Visualizer */}
+          <div className="flex-[2] border-b border-neutral-800 bg-black relative min-h-[300px]">
+              <Timeline 
+                  audioBuffer={audioBuffer}
+                  currentTime={currentTime}
+                  duration={duration}
+                  isPlaying={isPlaying}
+                  cues={cues}
+                  lanes={lanes}
+                  onUpdateLane={handleUpdateLane}
+                  waveformColor={waveformColor}
+                  onSeek={handleSeek}
+                  onAddCue={handleAddCue}
+                  onUpdateCue={handleUpdateCue}
+                  onDeleteCue={handleDeleteCue}
+                  onEditActions={setActionsCueId}
+                  onEditStart={beginTransaction}
+                  onEditEnd={commitTransaction}
+                  loopRegion={loopRegion}
+                  loopEnabled={loopEnabled}
+                  onLoopChange={handleLoopChange}
+                  selectedCueId={selectedCueId}
+                  onSelectCue={setSelectedCueId}
+                  tempoMap={tempoMap}
+                  timeFormat={timeFormat}
+                  ghostMarkers={showOnsetPanel ? ghostMarkers : []}
+                  ghostRow={suggestionLane}
+                  onAcceptGhost={(time) => handleAcceptSuggestions([time])}
+                  zoom={zoom}
+                  onZoomChange={setZoom}
+                  isFollowing={isFollowing}
+                  onFollowChange={setIsFollowing}
+              />
             
-            {/* Overlay Gradient for depth */}
-            <div className="absolute top-0 left-0 w-full h-8 bg-gradient-to-b from-black/50 to-transparent pointer-events-none z-20" />
-            <div className="absolute bottom-0 left-0 w-full h-8 bg-gradient-to-t from-black/50 to-transparent pointer-events-none z-20" />
-        </div>
+              {/* Overlay Gradient for depth */}
+              <div className="absolute top-0 left-0 w-full h-8 bg-gradient-to-b from-black/50 to-transparent pointer-events-none z-20" />
+              <div className="absolute bottom-0 left-0 w-full h-8 bg-gradient-to-t from-black/50 to-transparent pointer-events-none z-20" />
+          </div>
 
-        {/* Lower Half: Cue List */}
-        <div className="flex-1 min-h-[200px] bg-neutral-900 z-10">
-            <CueList cues={cues} currentTime={currentTime} />
-        </div>
+          {/* Lower Half: Cue List */}
+          <div className="flex-1 min-h-[200px] bg-neutral-900 z-10 flex">
+              <div className="flex-1 min-w-0">
+                  <CueList
+                      cues={cues}
+                      lanes={lanes}
+                      currentTime={currentTime}
+                      duration={duration}
+                      timeFormat={timeFormat}
+                      selectedCueId={selectedCueId}
+                      onSelectCue={setSelectedCueId}
+                      onSeek={handleSeek}
+                      onUpdateCue={handleUpdateCue}
+                      onChangeCues={setCues}
+                      onDeleteCues={handleDeleteCues}
+                      onEditStart={beginTransaction}
+                      onEditEnd={commitTransaction}
+                  />
+              </div>
+              {showLog && (
+                  <div className="w-[420px] shrink-0">
+                      <ShowLog log={showControl.log} onClear={() => showControl.engine?.clearLog()} onClose={() => setShowLog(false)} />
+                  </div>
+              )}
+          </div>
 
+        </div>
       </div>
     </div>
   );
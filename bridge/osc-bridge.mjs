@@ -0,0 +1,295 @@
+#!/usr/bin/env node
+// OSC bridge for AudioCue Pro: browsers can't speak UDP, so the app sends OSC
+// packets as binary WebSocket frames to this script, which forwards them to the
+// consoles over UDP. OSC arriving on the UDP listen port goes the other way, to
+// every connected browser (e.g. /audiocue/playpause, /audiocue/stop, /audiocue/seek).
+//
+// Usage:
+//   npm run bridge -- --send 192.168.1.20:8000 --send 192.168.1.21:53000 --listen 9000
+//
+// Options:
+//   --ws-port <port>     WebSocket port the app connects to (default 8081)
+//   --host <address>     Interface the WebSocket server binds to (default 127.0.0.1;
+//                        0.0.0.0 accepts the app from other machines)
+//   --allow-origin <url> Page origin allowed to connect besides localhost ones,
+//                        repeatable (e.g. http://192.168.1.10:3000; * allows any)
+//   --send <host:port>   UDP destination for outgoing OSC, repeatable (default 127.0.0.1:8000)
+//   --listen <port>      UDP port for incoming OSC commands (default 9000, 0 disables)
+//   --listen-host <addr> Interface the UDP command port binds to (default: --host;
+//                        0.0.0.0 takes commands from consoles on the network)
+//   --verbose            Log every forwarded packet
+//
+// No dependencies: the WebSocket server is a minimal RFC 6455 implementation that
+// handles exactly what the app needs (binary frames, ping/pong, close).
+
+import http from 'node:http';
+import dgram from 'node:dgram';
+import crypto from 'node:crypto';
+
+const parseArgs = (argv) => {
+  const options = { wsPort: 8081, host: '127.0.0.1', allowOrigins: [], send: [], listen: 9000, listenHost: null, verbose: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--ws-port') options.wsPort = Number(argv[++i]);
+    else if (arg === '--host') options.host = argv[++i];
+    else if (arg === '--allow-origin') options.allowOrigins.push(argv[++i].replace(/\/+$/, ''));
+    else if (arg === '--send') options.send.push(argv[++i]);
+    else if (arg === '--listen') options.listen = Number(argv[++i]);
+    else if (arg === '--listen-host') options.listenHost = argv[++i];
+    else if (arg === '--verbose') options.verbose = true;
+    else if (arg === '--help' || arg === '-h') {
+      console.log('Usage: osc-bridge [--ws-port 8081] [--host 127.0.0.1] [--allow-origin url]... [--send host:port]... [--listen 9000] [--listen-host address] [--verbose]');
+      process.exit(0);
+    } else {
+      console.error(`Unknown option: ${arg}`);
+      process.exit(1);
+    }
+  }
+  if (options.send.length === 0) options.send.push('127.0.0.1:8000');
+  // Commands on the UDP port drive the transport, so they are as local as the WebSocket unless opened up
+  options.listenHost ??= options.host;
+  options.targets = options.send.map(target => {
+    const [host, port] = target.split(':');
+    if (!host || !Number(port)) {
+      console.error(`Invalid --send target "${target}", expected host:port`);
+      process.exit(1);
+    }
+    return { host, port: Number(port) };
+  });
+  return options;
+};
+
+const options = parseArgs(process.argv.slice(2));
+
+// Only used for logging: the OSC address is the first NUL-terminated string
+const oscAddress = (packet) => {
+  const end = packet.indexOf(0);
+  return packet.subarray(0, end === -1 ? packet.length : end).toString('utf8');
+};
+
+// --- WebSocket framing -------------------------------------------------------
+
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_BINARY = 0x2;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+const MAX_MESSAGE_BYTES = 1 << 20;
+
+const encodeFrame = (opcode, payload) => {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+class Client {
+  constructor(socket, onMessage) {
+    this.socket = socket;
+    this.onMessage = onMessage;
+    this.buffer = Buffer.alloc(0);
+    this.fragments = [];
+    this.fragmentOpcode = 0;
+    this.closed = false;
+    socket.on('data', chunk => this.receive(chunk));
+    socket.on('close', () => { this.closed = true; });
+    socket.on('error', () => { this.closed = true; });
+  }
+
+  send(opcode, payload) {
+    if (!this.closed) this.socket.write(encodeFrame(opcode, payload));
+  }
+
+  close(code = 1000) {
+    if (this.closed) return;
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code, 0);
+    this.send(OPCODE_CLOSE, payload);
+    this.closed = true;
+    this.socket.end();
+  }
+
+  receive(chunk) {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    for (;;) {
+      if (this.buffer.length < 2) return;
+      const fin = (this.buffer[0] & 0x80) !== 0;
+      const opcode = this.buffer[0] & 0x0f;
+      const masked = (this.buffer[1] & 0x80) !== 0;
+      let length = this.buffer[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (this.buffer.length < 4) return;
+        length = this.buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (this.buffer.length < 10) return;
+        length = Number(this.buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+      if (length > MAX_MESSAGE_BYTES) return this.close(1009);
+      // Clients must mask every frame (RFC 6455 §5.1)
+      if (!masked) return this.close(1002);
+      if (this.buffer.length < offset + 4 + length) return;
+
+      const mask = this.buffer.subarray(offset, offset + 4);
+      const payload = Buffer.from(this.buffer.subarray(offset + 4, offset + 4 + length));
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i & 3];
+      this.buffer = this.buffer.subarray(offset + 4 + length);
+
+      this.handleFrame(fin, opcode, payload);
+      if (this.closed) return;
+    }
+  }
+
+  handleFrame(fin, opcode, payload) {
+    switch (opcode) {
+      case OPCODE_PING:
+        this.send(OPCODE_PONG, payload);
+        return;
+      case OPCODE_PONG:
+        return;
+      case OPCODE_CLOSE:
+        this.close();
+        return;
+      case OPCODE_TEXT:
+      case OPCODE_BINARY:
+        this.fragments = [payload];
+        this.fragmentOpcode = opcode;
+        break;
+      case OPCODE_CONTINUATION:
+        this.fragments.push(payload);
+        break;
+      default:
+        this.close(1002);
+        return;
+    }
+    if (fin) {
+      const message = Buffer.concat(this.fragments);
+      this.fragments = [];
+      this.onMessage(this, this.fragmentOpcode, message);
+    }
+  }
+}
+
+// --- Origin check -------------------------------------------------------------
+
+// Any web page open in the operator's browser can open a WebSocket to localhost,
+// so upgrades are refused unless the page's origin is allowed. Clients that send
+// no Origin at all (scripts, other tools) aren't web pages and are let through.
+const LOCAL_HOSTNAMES = new Set(['localhost', '127.0.0.1', '[::1]']);
+
+const isOriginAllowed = (origin) => {
+  if (!origin) return true;
+  if (options.allowOrigins.includes('*') || options.allowOrigins.includes(origin)) return true;
+  try {
+    return LOCAL_HOSTNAMES.has(new URL(origin).hostname);
+  } catch {
+    return false;
+  }
+};
+
+// --- Bridge ------------------------------------------------------------------
+
+const udp = dgram.createSocket('udp4');
+const clients = new Set();
+
+const forwardToUdp = (packet) => {
+  for (const { host, port } of options.targets) {
+    udp.send(packet, port, host, err => {
+      if (err) console.error(`UDP send to ${host}:${port} failed: ${err.message}`);
+    });
+  }
+};
+
+const handleClientMessage = (client, opcode, message) => {
+  // OSC packets are binary; anything else isn't for the consoles
+  if (opcode !== OPCODE_BINARY) return;
+  if (options.verbose) console.log(`→ ${oscAddress(message)} (${message.length} bytes)`);
+  forwardToUdp(message);
+};
+
+const server = http.createServer((req, res) => {
+  res.writeHead(426, { 'Content-Type': 'text/plain' });
+  res.end('AudioCue OSC bridge: connect with a WebSocket\n');
+});
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (req.headers.upgrade?.toLowerCase() !== 'websocket' || !key) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+  if (!isOriginAllowed(req.headers.origin)) {
+    console.error(`Refused connection from origin ${req.headers.origin} (see --allow-origin)`);
+    socket.end('HTTP/1.1 403 Forbidden\r\n\r\n');
+    return;
+  }
+  const accept = crypto.createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '',
+    '',
+  ].join('\r\n'));
+  socket.setNoDelay(true);
+
+  const client = new Client(socket, handleClientMessage);
+  clients.add(client);
+  console.log(`App connected (${clients.size} client${clients.size === 1 ? '' : 's'})`);
+  socket.on('close', () => {
+    clients.delete(client);
+    console.log(`App disconnected (${clients.size} client${clients.size === 1 ? '' : 's'})`);
+  });
+});
+
+udp.on('message', (packet, rinfo) => {
+  if (options.verbose) console.log(`← ${oscAddress(packet)} from ${rinfo.address}:${rinfo.port}`);
+  for (const client of clients) client.send(OPCODE_BINARY, packet);
+});
+
+udp.on('error', err => {
+  console.error(`UDP error: ${err.message}`);
+  process.exit(1);
+});
+
+const start = () => {
+  server.listen(options.wsPort, options.host, () => {
+    console.log(`OSC bridge listening for the app on ws://${options.host}:${options.wsPort}`);
+    console.log(`Forwarding OSC to ${options.targets.map(t => `${t.host}:${t.port}`).join(', ')}`);
+  });
+};
+
+if (options.listen > 0) {
+  udp.bind(options.listen, options.listenHost, () => {
+    console.log(`Accepting OSC commands on udp://${options.listenHost}:${options.listen}`);
+    start();
+  });
+} else {
+  start();
+}
+
+const shutdown = () => {
+  for (const client of clients) client.close(1001);
+  server.close();
+  udp.close();
+  process.exit(0);
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -1,6 +1,10 @@
 import React from 'react';
-import { Play, Pause, Square, Upload, Download, FileJson, Music } from 'lucide-react';
+import { Play, Pause, Square, Upload, Download, FileUp, Music, Undo2, Redo2, FolderOpen, Repeat, X, SkipBack, Gauge, Music2, Sparkles, Circle, Keyboard, Rows3, Zap, ScrollText, Radio, ListMusic, MonitorUp, Bell, BellOff } from 'lucide-react';
+import { TimeFormatOptions } from '../types';
 import { formatTime } from '../utils/audioUtils';
+import { formatBarsBeats } from '../utils/tempo';
+import { Keymap, formatCombo } from '../utils/keymap';
+import { OscBridgeStatus } from '../utils/oscBridge';
 
 interface ControlsProps {
   isPlaying: boolean;
@@ -12,8 +16,57 @@ interface ControlsProps {
   onFileUpload: (e: React.ChangeEvent<HTMLInputElement>) => void;
   onCueImport: (e: React.ChangeEvent<HTMLInputElement>) => void;
   onExport: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  saveStatus: 'saved' | 'saving' | 'error' | null;
+  onOpenProjects: () => void;
+  showSetlist: boolean;
+  onToggleSetlist: () => void;
+  onOpenTempo: () => void;
+  hasTempoMap: boolean;
+  onOpenDetect: () => void;
+  onOpenLanes: () => void;
+  timeFormat: TimeFormatOptions;
+  onOpenTimecode: () => void;
+  ltcLive: boolean;
+  onOpenLtc: () => void;
+  hasLoop: boolean;
+  loopEnabled: boolean;
+  loopCount: number;
+  onToggleLoop: () => void;
+  onClearLoop: () => void;
+  preRoll: number;
+  onPreRollChange: (seconds: number) => void;
+  canPreRoll: boolean;
+  onPreRoll: () => void;
+  playbackRate: number;
+  onPlaybackRateChange: (rate: number) => void;
+  preservePitch: boolean;
+  onPreservePitchChange: (preserve: boolean) => void;
+  isStretching: boolean;
+  isRecording: boolean;
+  onToggleRecord: () => void;
+  keymap: Keymap;
+  onOpenKeymap: () => void;
+  onOpenStageView: () => void;
+  showArmed: boolean;
+  onToggleArmed: () => void;
+  showLog: boolean;
+  onToggleLog: () => void;
+  oscStatus: OscBridgeStatus | null; // null while the bridge is disabled
+  onOpenOscBridge: () => void;
+  countInEnabled: boolean;
+  countInMuted: boolean;
+  countInLength: number;
+  onToggleCountInMute: () => void;
+  onOpenCountIn: () => void;
 }
 
+const MIN_RATE = 0.25;
+const MAX_RATE = 2;
+
 export const Controls: React.FC<ControlsProps> = ({
   isPlaying,
   currentTime,
@@ -23,8 +76,56 @@ export const Controls: React.FC<ControlsProps> = ({
   onStop,
   onFileUpload,
   onCueImport,
-  onExport
+  onExport,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  saveStatus,
+  onOpenProjects,
+  showSetlist,
+  onToggleSetlist,
+  onOpenTempo,
+  hasTempoMap,
+  onOpenDetect,
+  onOpenLanes,
+  timeFormat,
+  onOpenTimecode,
+  ltcLive,
+  onOpenLtc,
+  hasLoop,
+  loopEnabled,
+  loopCount,
+  onToggleLoop,
+  onClearLoop,
+  preRoll,
+  onPreRollChange,
+  canPreRoll,
+  onPreRoll,
+  playbackRate,
+  onPlaybackRateChange,
+  preservePitch,
+  onPreservePitchChange,
+  isStretching,
+  isRecording,
+  onToggleRecord,
+  keymap,
+  onOpenKeymap,
+  onOpenStageView,
+  showArmed,
+  onToggleArmed,
+  showLog,
+  onToggleLog,
+  oscStatus,
+  onOpenOscBridge,
+  countInEnabled,
+  countInMuted,
+  countInLength,
+  onToggleCountInMute,
+  onOpenCountIn
 }) => {
+  const shortcut = (combos: string[]) => combos.length ? ` (${formatCombo(combos[0])})` : '';
+
   return (
     <div className="h-20 bg-neutral-950 border-b border-neutral-800 flex items-center px-6 justify-between shrink-0">
       
@@ -53,13 +154,151 @@ export const Controls: React.FC<ControlsProps> = ({
           <Square size={16} fill="currentColor" />
         </button>
 
+        <button
+          onClick={onToggleRecord}
+          disabled={!fileName}
+          title={`Record mode: press ${keymap.recordRow1.concat(keymap.recordRow2, keymap.recordRow3, keymap.recordRow4).map(formatCombo).join('/') || 'row keys'} during playback to drop cues into lanes 1-4${shortcut(keymap.toggleRecord)}`}
+          className={`w-10 h-10 rounded-full flex items-center justify-center transition-colors disabled:opacity-50 ${isRecording ? 'bg-red-600/20 text-red-500 shadow-lg shadow-red-500/20' : 'bg-neutral-900 text-neutral-400 hover:text-red-500 hover:bg-neutral-800'}`}
+        >
+          <Circle size={16} fill="currentColor" className={isRecording ? 'animate-pulse' : ''} />
+        </button>
+
+        <div className={`flex items-center rounded border ${showArmed ? 'border-red-500/60 bg-red-500/10' : 'border-neutral-800 bg-neutral-900'}`}>
+            <button
+                onClick={onToggleArmed}
+                title="Arm show control: fire cue actions as playback crosses cues"
+                className={`flex items-center gap-1.5 px-2.5 py-1.5 text-xs font-mono transition-colors ${showArmed ? 'text-red-400' : 'text-neutral-500 hover:text-white'}`}
+            >
+                <Zap size={14} fill={showArmed ? 'currentColor' : 'none'} />
+                {showArmed ? 'ARMED' : 'SAFE'}
+            </button>
+            <button
+                onClick={onToggleLog}
+                title="Show log"
+                className={`px-2 py-1.5 border-l border-neutral-800 transition-colors ${showLog ? 'text-white' : 'text-neutral-500 hover:text-white'}`}
+            >
+                <ScrollText size={14} />
+            </button>
+            <button
+                onClick={onOpenOscBridge}
+                title={`OSC bridge${oscStatus ? ` (${oscStatus})` : ' (off)'}`}
+                className={`px-2 py-1.5 border-l border-neutral-800 transition-colors ${oscStatus === 'connected' ? 'text-green-400' : oscStatus === 'connecting' ? 'text-yellow-400' : 'text-neutral-500 hover:text-white'}`}
+            >
+                <Radio size={14} />
+            </button>
+        </div>
+
+        <div className="flex items-center rounded border border-neutral-800 bg-neutral-900">
+            <button
+                onClick={onOpenCountIn}
+                title="Count-in clicks before cues"
+                className={`flex items-center gap-1.5 px-2.5 py-1.5 text-xs font-mono transition-colors ${countInEnabled ? 'text-blue-400' : 'text-neutral-500 hover:text-white'}`}
+            >
+                <Bell size={14} />
+                {!countInEnabled ? 'OFF' : countInLength <= 4 ? Array.from({ length: countInLength }, (_, i) => countInLength - i).join('-') : `${countInLength}…1`}
+            </button>
+            {countInEnabled && (
+                <button
+                    onClick={onToggleCountInMute}
+                    title={`${countInMuted ? 'Unmute' : 'Mute'} count-in clicks${shortcut(keymap.toggleClickMute)}`}
+                    className={`px-2 py-1.5 border-l border-neutral-800 transition-colors ${countInMuted ? 'text-yellow-400' : 'text-neutral-500 hover:text-white'}`}
+                >
+                    {countInMuted ? <BellOff size={14} /> : <Bell size={14} />}
+                </button>
+            )}
+        </div>
+
         {/* Time Display */}
         <div className="ml-6 flex flex-col">
-            <div className="text-3xl font-mono font-light tracking-tighter text-white tabular-nums leading-none">
-                {formatTime(currentTime)}
-            </div>
+            <button
+                onClick={onOpenTimecode}
+                title="Timecode format and start offset"
+                className="text-left text-3xl font-mono font-light tracking-tighter text-white tabular-nums leading-none hover:text-blue-300 transition-colors"
+            >
+                {formatTime(currentTime, timeFormat.display === 'both' ? { ...timeFormat, display: 'clock' } : timeFormat)}
+            </button>
             <div className="text-xs font-mono text-neutral-600 tracking-wider">
+                {timeFormat.display === 'both' && timeFormat.tempoMap && (
+                    <span className="text-green-500 mr-2">{formatBarsBeats(currentTime, timeFormat.tempoMap)}</span>
+                )}
                 TOTAL {formatTime(duration)}
+                <button
+                    onClick={onOpenLtc}
+                    title={`LTC timecode track${ltcLive ? ' (live)' : ''}`}
+                    className={`ml-2 transition-colors ${ltcLive ? 'text-green-400' : 'text-neutral-600 hover:text-white'}`}
+                >
+                    LTC
+                </button>
+            </div>
+        </div>
+
+        {/* Rehearsal */}
+        <div className="ml-4 flex items-center gap-2">
+            <div className={`flex items-center rounded border ${loopEnabled && hasLoop ? 'border-yellow-500/50 bg-yellow-500/10' : 'border-neutral-800 bg-neutral-900'}`}>
+                <button
+                    onClick={onToggleLoop}
+                    disabled={!hasLoop}
+                    title="Toggle A-B loop (drag on the ruler to set)"
+                    className={`flex items-center gap-2 px-3 py-1.5 text-xs font-mono transition-colors disabled:opacity-40 ${loopEnabled && hasLoop ? 'text-yellow-400' : 'text-neutral-400 hover:text-white'}`}
+                >
+                    <Repeat size={14} />
+                    <span className="tabular-nums">LOOP {loopEnabled && hasLoop ? `×${loopCount}` : 'OFF'}</span>
+                </button>
+                {hasLoop && (
+                    <button onClick={onClearLoop} title="Clear loop" className="pr-2 text-neutral-500 hover:text-white transition-colors">
+                        <X size={12} />
+                    </button>
+                )}
+            </div>
+
+            <div className="flex items-center rounded border border-neutral-800 bg-neutral-900">
+                <button
+                    onClick={onPreRoll}
+                    disabled={!canPreRoll}
+                    title="Play from before the selected cue"
+                    className="flex items-center gap-2 px-3 py-1.5 text-xs font-mono text-neutral-400 hover:text-white transition-colors disabled:opacity-40 disabled:hover:text-neutral-400"
+                >
+                    <SkipBack size={14} />
+                    PRE-ROLL
+                </button>
+                <input
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={preRoll}
+                    onChange={(e) => onPreRollChange(Math.max(0, Number(e.target.value) || 0))}
+                    className="w-12 bg-transparent border-l border-neutral-800 px-1 py-1.5 text-xs font-mono text-neutral-300 focus:outline-none"
+                    title="Pre-roll seconds"
+                />
+                <span className="pr-2 text-[10px] font-mono text-neutral-600">s</span>
+            </div>
+
+            <div className={`flex items-center gap-2 rounded border px-2 py-1 ${playbackRate !== 1 ? 'border-blue-500/50 bg-blue-500/10' : 'border-neutral-800 bg-neutral-900'}`}>
+                <button
+                    onClick={() => onPlaybackRateChange(1)}
+                    title="Reset speed to 1x"
+                    className={`transition-colors ${playbackRate !== 1 ? 'text-blue-400 hover:text-white' : 'text-neutral-500'}`}
+                >
+                    <Gauge size={14} />
+                </button>
+                <input
+                    type="range"
+                    min={MIN_RATE}
+                    max={MAX_RATE}
+                    step={0.05}
+                    value={playbackRate}
+                    onChange={(e) => onPlaybackRateChange(Number(e.target.value))}
+                    className="w-20 h-1 bg-neutral-700 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:bg-white [&::-webkit-slider-thumb]:rounded-full"
+                    title="Playback speed"
+                />
+                <span className="w-10 text-xs font-mono text-neutral-300 tabular-nums">{playbackRate.toFixed(2)}x</span>
+                <button
+                    onClick={() => onPreservePitchChange(!preservePitch)}
+                    title="Preserve pitch when changing speed"
+                    className={`text-[10px] font-mono px-1.5 py-0.5 rounded transition-colors ${preservePitch ? 'bg-neutral-800 text-green-400' : 'text-neutral-500 hover:text-white'}`}
+                >
+                    {isStretching ? 'PITCH…' : 'PITCH'}
+                </button>
             </div>
         </div>
       </div>
@@ -68,14 +307,98 @@ export const Controls: React.FC<ControlsProps> = ({
       <div className="flex items-center gap-6">
         {fileName && (
             <div className="text-right hidden md:block">
-                <div className="text-xs text-neutral-500 uppercase tracking-widest mb-1">Current Project</div>
+                <div className="text-xs text-neutral-500 uppercase tracking-widest mb-1">
+                    Current Project
+                    {saveStatus && (
+                        <span className={`ml-2 normal-case tracking-normal ${saveStatus === 'error' ? 'text-red-400' : saveStatus === 'saving' ? 'text-yellow-500' : 'text-neutral-600'}`}>
+                            {saveStatus === 'error' ? 'Not saved' : saveStatus === 'saving' ? 'Saving…' : 'Saved'}
+                        </span>
+                    )}
+                </div>
                 <div className="text-sm font-medium text-neutral-300 max-w-[200px] truncate">{fileName}</div>
             </div>
         )}
 
+        <div className="flex gap-1">
+            <button
+                onClick={onUndo}
+                disabled={!canUndo}
+                title={`Undo${shortcut(keymap.undo)}`}
+                className="w-9 h-9 rounded bg-neutral-900 border border-neutral-700 text-neutral-400 hover:text-white hover:bg-neutral-800 flex items-center justify-center transition-colors disabled:opacity-30 disabled:pointer-events-none"
+            >
+                <Undo2 size={16} />
+            </button>
+            <button
+                onClick={onRedo}
+                disabled={!canRedo}
+                title={`Redo${shortcut(keymap.redo)}`}
+                className="w-9 h-9 rounded bg-neutral-900 border border-neutral-700 text-neutral-400 hover:text-white hover:bg-neutral-800 flex items-center justify-center transition-colors disabled:opacity-30 disabled:pointer-events-none"
+            >
+                <Redo2 size={16} />
+            </button>
+            <button
+                onClick={onOpenKeymap}
+                title="Keyboard shortcuts"
+                className="w-9 h-9 rounded bg-neutral-900 border border-neutral-700 text-neutral-400 hover:text-white hover:bg-neutral-800 flex items-center justify-center transition-colors"
+            >
+                <Keyboard size={16} />
+            </button>
+            <button
+                onClick={onOpenStageView}
+                title="Pop-out stage display"
+                className="w-9 h-9 rounded bg-neutral-900 border border-neutral-700 text-neutral-400 hover:text-white hover:bg-neutral-800 flex items-center justify-center transition-colors"
+            >
+                <MonitorUp size={16} />
+            </button>
+        </div>
+
         <div className="h-8 w-px bg-neutral-800 mx-2" />
 
         <div className="flex gap-2">
+            <button
+                onClick={onOpenProjects}
+                className="flex items-center gap-2 px-4 py-2 bg-neutral-900 hover:bg-neutral-800 rounded border border-neutral-700 transition-colors group"
+            >
+                <FolderOpen size={16} className="text-neutral-400 group-hover:text-white" />
+                <span className="text-sm font-medium text-neutral-400 group-hover:text-white">Projects</span>
+            </button>
+
+            <button
+                onClick={onToggleSetlist}
+                className={`flex items-center gap-2 px-4 py-2 rounded border transition-colors group ${showSetlist ? 'bg-neutral-800 border-neutral-600' : 'bg-neutral-900 hover:bg-neutral-800 border-neutral-700'}`}
+            >
+                <ListMusic size={16} className={showSetlist ? 'text-white' : 'text-neutral-400 group-hover:text-white'} />
+                <span className={`text-sm font-medium ${showSetlist ? 'text-white' : 'text-neutral-400 group-hover:text-white'}`}>Setlist</span>
+            </button>
+
+            <button
+                onClick={onOpenTempo}
+                disabled={!fileName}
+                className="flex items-center gap-2 px-4 py-2 bg-neutral-900 hover:bg-neutral-800 rounded border border-neutral-700 transition-colors group disabled:opacity-50"
+            >
+                <Music2 size={16} className={hasTempoMap ? 'text-green-400' : 'text-neutral-400 group-hover:text-white'} />
+                <span className="text-sm font-medium text-neutral-400 group-hover:text-white">Tempo</span>
+            </button>
+
+            <button
+                onClick={onOpenLanes}
+                disabled={!fileName}
+                className="flex items-center gap-2 px-4 py-2 bg-neutral-900 hover:bg-neutral-800 rounded border border-neutral-700 transition-colors group disabled:opacity-50"
+            >
+                <Rows3 size={16} className="text-neutral-400 group-hover:text-white" />
+                <span className="text-sm font-medium text-neutral-400 group-hover:text-white">Lanes</span>
+            </button>
+
+            <button
+                onClick={onOpenDetect}
+                disabled={!fileName}
+                className="flex items-center gap-2 px-4 py-2 bg-neutral-900 hover:bg-neutral-800 rounded border border-neutral-700 transition-colors group disabled:opacity-50"
+                title="Detect onsets and beats to suggest cues"
+            >
+                <Sparkles size={16} className="text-neutral-400 group-hover:text-white" />
+                <span className="text-sm font-medium text-neutral-400 group-hover:text-white">Detect</span>
+            </button>
+
             <label className="flex items-center gap-2 px-4 py-2 bg-neutral-900 hover:bg-neutral-800 rounded border border-neutral-700 cursor-pointer transition-colors group">
                 <Music size={16} className="text-neutral-400 group-hover:text-white" />
                 <span className="text-sm font-medium text-neutral-400 group-hover:text-white">Audio</span>
@@ -83,9 +406,9 @@ export const Controls: React.FC<ControlsProps> = ({
             </label>
 
             <label className={`flex items-center gap-2 px-4 py-2 bg-neutral-900 hover:bg-neutral-800 rounded border border-neutral-700 cursor-pointer transition-colors group ${!fileName ? 'opacity-50 pointer-events-none' : ''}`}>
-                <FileJson size={16} className="text-neutral-400 group-hover:text-white" />
-                <span className="text-sm font-medium text-neutral-400 group-hover:text-white">JSON</span>
-                <input type="file" accept=".json" onChange={onCueImport} className="hidden" disabled={!fileName} />
+                <FileUp size={16} className="text-neutral-400 group-hover:text-white" />
+                <span className="text-sm font-medium text-neutral-400 group-hover:text-white">Import</span>
+                <input type="file" accept=".json,.csv,.tsv,.txt,.srt,.vtt,.edl,.wav,.bwf,.mp3,.m4a,.m4b,.mp4" onChange={onCueImport} className="hidden" disabled={!fileName} />
             </label>
             
             <button 
@@ -0,0 +1,153 @@
+import React from 'react';
+import { Lane, LaneClick } from '../types';
+import { CountInSettings, MAX_COUNT_IN, getLaneClick } from '../utils/countIn';
+import { Bell, BellOff, Play, X } from 'lucide-react';
+
+interface CountInDialogProps {
+  settings: CountInSettings;
+  lanes: Lane[];
+  onChange: (settings: CountInSettings) => void;
+  onUpdateLaneClick: (index: number, click: LaneClick) => void;
+  onPreview: (click: LaneClick) => void;
+  // Bracket slider drags so each becomes a single undo step
+  onEditStart: () => void;
+  onEditEnd: () => void;
+  onClose: () => void;
+}
+
+const inputClass = "bg-neutral-800 rounded px-2 py-1 text-xs font-mono text-white focus:outline-none border border-transparent focus:border-blue-500";
+
+const INTERVALS = [0.25, 0.5, 1, 2];
+
+export const CountInDialog: React.FC<CountInDialogProps> = ({
+  settings,
+  lanes,
+  onChange,
+  onUpdateLaneClick,
+  onPreview,
+  onEditStart,
+  onEditEnd,
+  onClose,
+}) => {
+  const update = (changes: Partial<CountInSettings>) => onChange({ ...settings, ...changes });
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center" onMouseDown={onClose}>
+      <div
+        className="w-[560px] max-h-[80vh] flex flex-col bg-neutral-950 border border-neutral-800 rounded-lg shadow-2xl"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-neutral-800 flex items-center justify-between">
+          <h2 className="text-sm font-bold text-white uppercase tracking-wider flex items-center gap-2">
+            <Bell size={14} className="text-neutral-500" />
+            Count-in Clicks
+          </h2>
+          <button onClick={onClose} className="p-1 text-neutral-500 hover:text-white transition-colors">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-4 space-y-4">
+          <div className="flex items-center gap-4 text-xs">
+            <label className="flex items-center gap-2 text-neutral-300">
+              <input type="checkbox" checked={settings.enabled} onChange={(e) => update({ enabled: e.target.checked })} />
+              Click before cues
+            </label>
+            <label className="flex items-center gap-2 text-neutral-400">
+              Clicks
+              <select
+                value={settings.count}
+                onChange={(e) => update({ count: Number(e.target.value) })}
+                className={inputClass}
+              >
+                {Array.from({ length: MAX_COUNT_IN }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center gap-2 text-neutral-400">
+              Every
+              <select
+                value={settings.interval}
+                onChange={(e) => update({ interval: Number(e.target.value) })}
+                className={inputClass}
+              >
+                {INTERVALS.map(s => <option key={s} value={s}>{s}s</option>)}
+              </select>
+            </label>
+          </div>
+
+          <div className="flex items-center gap-2 text-xs">
+            <button
+              onClick={() => update({ muted: !settings.muted })}
+              title={settings.muted ? 'Unmute monitor' : 'Mute monitor'}
+              className={`p-1 rounded transition-colors ${settings.muted ? 'text-yellow-400' : 'text-neutral-400 hover:text-white'}`}
+            >
+              {settings.muted ? <BellOff size={14} /> : <Bell size={14} />}
+            </button>
+            <span className="w-16 text-neutral-400">Monitor</span>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={settings.volume}
+              onChange={(e) => update({ volume: Number(e.target.value) })}
+              className="flex-1 accent-blue-500"
+            />
+            <span className="w-10 text-right font-mono text-neutral-500">{Math.round(settings.volume * 100)}%</span>
+          </div>
+          <div className="text-[11px] text-neutral-600">
+            The last click before a cue is an octave up. Clicks play on their own monitor level, separate from the program audio.
+          </div>
+
+          <div className="pt-4 border-t border-neutral-800 space-y-1">
+            <div className="text-[10px] text-neutral-500 uppercase tracking-widest mb-2">Lanes</div>
+            {lanes.map((lane, index) => {
+              const click = getLaneClick(lane);
+              const set = (changes: Partial<LaneClick>) => onUpdateLaneClick(index, { ...click, ...changes });
+              return (
+                <div key={lane.id} className="flex items-center gap-2 text-xs">
+                  <input type="checkbox" checked={click.enabled} onChange={(e) => set({ enabled: e.target.checked })} title="Click for this lane" />
+                  <span className="w-2 h-4 rounded-sm shrink-0" style={{ backgroundColor: lane.color }} />
+                  <span className={`w-28 truncate ${click.enabled ? 'text-neutral-300' : 'text-neutral-600'}`}>{lane.name}</span>
+                  <input
+                    type="number"
+                    min={100}
+                    max={4000}
+                    step={10}
+                    value={click.pitch}
+                    onChange={(e) => Number(e.target.value) > 0 && set({ pitch: Number(e.target.value) })}
+                    onFocus={onEditStart}
+                    onBlur={onEditEnd}
+                    className={`${inputClass} w-20`}
+                    title="Pitch (Hz)"
+                  />
+                  <span className="text-neutral-600">Hz</span>
+                  <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={click.volume}
+                    onChange={(e) => set({ volume: Number(e.target.value) })}
+                    onPointerDown={onEditStart}
+                    onPointerUp={onEditEnd}
+                    className="flex-1 accent-blue-500"
+                    title="Volume"
+                  />
+                  <span className="w-10 text-right font-mono text-neutral-500">{Math.round(click.volume * 100)}%</span>
+                  <button
+                    onClick={() => onPreview(click)}
+                    title="Preview"
+                    className="p-1 rounded text-neutral-500 hover:text-white transition-colors"
+                  >
+                    <Play size={12} />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,221 @@
+import React, { useState } from 'react';
+import { Cue, CueAction, CueActionType } from '../types';
+import { formatTime } from '../utils/audioUtils';
+import { CUE_ACTION_TYPES, createCueAction } from '../utils/cueActions';
+import { parseOscArgs, formatOscArgs } from '../utils/osc';
+import { Zap, X, Plus, Trash2, Play } from 'lucide-react';
+
+interface CueActionsEditorProps {
+  cue: Cue;
+  onChange: (actions: CueAction[]) => void;
+  onTest: (action: CueAction) => void;
+  // Bracket typing so each field edit becomes a single undo step
+  onEditStart: () => void;
+  onEditEnd: () => void;
+  onClose: () => void;
+}
+
+const inputClass = "bg-neutral-800 rounded px-2 py-1 text-xs font-mono text-white focus:outline-none border border-transparent focus:border-blue-500";
+const labelClass = "flex flex-col gap-1 text-[10px] text-neutral-500 uppercase tracking-widest";
+
+const formatHeaders = (headers: Record<string, string>) =>
+  Object.entries(headers).map(([k, v]) => `${k}: ${v}`).join('\n');
+
+const parseHeaders = (text: string): Record<string, string> =>
+  Object.fromEntries(
+    text.split('\n')
+      .map(line => {
+        const colon = line.indexOf(':');
+        return colon === -1 ? [line.trim(), ''] : [line.slice(0, colon).trim(), line.slice(colon + 1).trim()];
+      })
+      .filter(([key]) => key)
+  );
+
+const isValidJson = (text: string) => {
+  if (!text.trim()) return true;
+  try {
+    JSON.parse(text);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Text field that keeps its own draft and only commits (parsed) on blur
+const DraftField: React.FC<{
+  value: string;
+  onCommit: (text: string) => void;
+  multiline?: boolean;
+  placeholder?: string;
+}> = ({ value, onCommit, multiline, placeholder }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  const props = {
+    value: draft ?? value,
+    placeholder,
+    className: `${inputClass} w-full`,
+    onFocus: () => setDraft(value),
+    onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => setDraft(e.target.value),
+    onBlur: () => {
+      if (draft !== null && draft !== value) onCommit(draft);
+      setDraft(null);
+    },
+  };
+  return multiline ? <textarea rows={2} {...props} /> : <input {...props} />;
+};
+
+export const CueActionsEditor: React.FC<CueActionsEditorProps> = ({
+  cue,
+  onChange,
+  onTest,
+  onEditStart,
+  onEditEnd,
+  onClose,
+}) => {
+  const actions = cue.actions ?? [];
+
+  const update = (index: number, changes: Partial<CueAction>) => {
+    onChange(actions.map((a, i) => i === index ? { ...a, ...changes } as CueAction : a));
+  };
+
+  const add = (type: CueActionType) => onChange([...actions, createCueAction(type)]);
+
+  // Props for plain text inputs that edit one field directly
+  const editing = { onFocus: onEditStart, onBlur: onEditEnd };
+
+  const renderFields = (action: CueAction, index: number) => {
+    switch (action.type) {
+      case 'http':
+        return (
+          <>
+            <div className="flex gap-2">
+              <select
+                className={inputClass}
+                value={action.method}
+                onChange={(e) => update(index, { method: e.target.value as typeof action.method })}
+              >
+                <option>GET</option>
+                <option>POST</option>
+                <option>PUT</option>
+              </select>
+              <input className={`${inputClass} flex-1`} value={action.url} onChange={(e) => update(index, { url: e.target.value })} {...editing} />
+            </div>
+            <label className={labelClass}>
+              Headers
+              <DraftField multiline value={formatHeaders(action.headers)} onCommit={(text) => update(index, { headers: parseHeaders(text) })} placeholder="Content-Type: application/json" />
+            </label>
+            {action.method !== 'GET' && (
+              <label className={labelClass}>
+                Body
+                <textarea rows={2} className={`${inputClass} w-full`} value={action.body} onChange={(e) => update(index, { body: e.target.value })} {...editing} />
+              </label>
+            )}
+          </>
+        );
+      case 'websocket':
+        return (
+          <>
+            <input className={`${inputClass} w-full`} value={action.url} onChange={(e) => update(index, { url: e.target.value })} placeholder="ws://host:port" {...editing} />
+            <label className={labelClass}>
+              Message
+              <textarea rows={2} className={`${inputClass} w-full`} value={action.message} onChange={(e) => update(index, { message: e.target.value })} {...editing} />
+            </label>
+          </>
+        );
+      case 'osc':
+        return (
+          <>
+            <label className={labelClass}>
+              Target (OSC over WebSocket)
+              <input className={`${inputClass} w-full`} value={action.target} onChange={(e) => update(index, { target: e.target.value })} placeholder="ws://host:port" {...editing} />
+            </label>
+            <div className="flex gap-2">
+              <input className={`${inputClass} w-1/2`} value={action.address} onChange={(e) => update(index, { address: e.target.value })} placeholder="/address" {...editing} />
+              <div className="flex-1">
+                <DraftField value={formatOscArgs(action.args)} onCommit={(text) => update(index, { args: parseOscArgs(text) })} placeholder='args: 1 0.5 "text" true' />
+              </div>
+            </div>
+          </>
+        );
+      case 'event':
+        return (
+          <>
+            <input className={`${inputClass} w-full`} value={action.name} onChange={(e) => update(index, { name: e.target.value })} placeholder="event name" {...editing} />
+            <label className={labelClass}>
+              <span>Payload (JSON){!isValidJson(action.payload) && <span className="ml-2 text-red-400 normal-case tracking-normal">invalid JSON</span>}</span>
+              <textarea rows={2} className={`${inputClass} w-full`} value={action.payload} onChange={(e) => update(index, { payload: e.target.value })} {...editing} />
+            </label>
+          </>
+        );
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center" onMouseDown={onClose}>
+      <div
+        className="w-[600px] max-h-[80vh] flex flex-col bg-neutral-950 border border-neutral-800 rounded-lg shadow-2xl"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-neutral-800 flex items-center justify-between">
+          <h2 className="text-sm font-bold text-white uppercase tracking-wider flex items-center gap-2">
+            <Zap size={14} className="text-neutral-500" />
+            Actions · <span style={{ color: cue.color }}>{cue.label}</span>
+            <span className="font-mono text-neutral-500 normal-case tracking-normal">@ {formatTime(cue.time)}</span>
+          </h2>
+          <button onClick={onClose} className="p-1 text-neutral-500 hover:text-white transition-colors">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-4 space-y-3">
+          {actions.length === 0 && (
+            <div className="text-center py-4 text-sm text-neutral-600">No actions. This cue is a marker only.</div>
+          )}
+          {actions.map((action, index) => (
+            <div key={action.id} className={`border border-neutral-800 rounded p-3 space-y-2 ${action.enabled ? '' : 'opacity-50'}`}>
+              <div className="flex items-center gap-2 text-xs">
+                <input
+                  type="checkbox"
+                  checked={action.enabled}
+                  onChange={(e) => update(index, { enabled: e.target.checked })}
+                  title="Enabled"
+                />
+                <span className="font-mono font-bold text-blue-400 uppercase">{CUE_ACTION_TYPES.find(t => t.type === action.type)?.label}</span>
+                <label className="ml-auto flex items-center gap-1 text-neutral-500 font-mono">
+                  PRE-WAIT
+                  <input
+                    type="number" min={0} step={0.1}
+                    className={`${inputClass} w-16`}
+                    value={action.preWait}
+                    onChange={(e) => update(index, { preWait: Math.max(0, Number(e.target.value) || 0) })}
+                    {...editing}
+                  />
+                  s
+                </label>
+                <button onClick={() => onTest(action)} title="Fire now" className="p-1 text-neutral-500 hover:text-green-400 transition-colors">
+                  <Play size={12} />
+                </button>
+                <button onClick={() => onChange(actions.filter((_, i) => i !== index))} title="Remove" className="p-1 text-neutral-500 hover:text-red-400 transition-colors">
+                  <Trash2 size={12} />
+                </button>
+              </div>
+              {renderFields(action, index)}
+            </div>
+          ))}
+
+          <div className="flex items-center gap-2 pt-2">
+            <Plus size={12} className="text-neutral-500" />
+            {CUE_ACTION_TYPES.map(({ type, label }) => (
+              <button
+                key={type}
+                onClick={() => add(type)}
+                className="px-2 py-1 rounded text-xs text-blue-400 hover:text-blue-300 hover:bg-neutral-900 transition-colors"
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
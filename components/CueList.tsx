@@ -1,15 +1,59 @@
-import React, { useRef, useEffect } from 'react';
-import { Cue } from '../types';
+import React, { useRef, useEffect, useState } from 'react';
+import { Cue, Lane, TimeFormatOptions } from '../types';
 import { formatTime } from '../utils/audioUtils';
-import { ArrowRight, Hash, Layers } from 'lucide-react';
+import { isRangeCue, getCueEnd, sortCuesByTime, offsetCues, recolorCues, moveCuesToLane, renumberCues } from '../utils/cueUtils';
+import { isLaneLocked } from '../utils/lanes';
+import { TimeInput } from './TimeInput';
+import { ArrowRight, Hash, Layers, Zap, Trash2, X } from 'lucide-react';
 
 interface CueListProps {
   cues: Cue[];
+  lanes: Lane[];
   currentTime: number;
+  duration: number;
+  timeFormat: TimeFormatOptions;
+  selectedCueId: string | null;
+  onSelectCue: (id: string | null) => void;
+  onSeek: (time: number) => void;
+  onUpdateCue: (id: string, updates: Partial<Cue>) => void;
+  onChangeCues: (update: (cues: Cue[]) => Cue[]) => void; // One undo step per bulk edit
+  onDeleteCues: (ids: string[]) => void;
+  // Bracket label/colour typing so it becomes a single undo step
+  onEditStart: () => void;
+  onEditEnd: () => void;
 }
 
-export const CueList: React.FC<CueListProps> = ({ cues, currentTime }) => {
-  const sortedCues = [...cues].sort((a, b) => a.time - b.time);
+const toolbarInput = "bg-neutral-900 border border-neutral-800 rounded px-1 py-0.5 text-[10px] font-mono text-neutral-300 focus:outline-none focus:border-blue-500";
+const toolbarButton = "px-1.5 py-0.5 rounded text-[10px] font-mono text-neutral-400 hover:text-white hover:bg-neutral-800 transition-colors disabled:opacity-30 disabled:pointer-events-none";
+
+// Clicks on form controls inside a row edit the cue rather than changing the selection
+const isControl = (target: EventTarget) => !!(target as HTMLElement).closest('input, select, button');
+
+export const CueList: React.FC<CueListProps> = ({
+  cues,
+  lanes,
+  currentTime,
+  duration,
+  timeFormat,
+  selectedCueId,
+  onSelectCue,
+  onSeek,
+  onUpdateCue,
+  onChangeCues,
+  onDeleteCues,
+  onEditStart,
+  onEditEnd,
+}) => {
+  const [laneFilter, setLaneFilter] = useState<number | null>(null);
+  // Multi-selection for bulk edits; the timeline's selected cue is its primary member
+  const [selection, setSelection] = useState<Set<string>>(() => new Set());
+  const anchorRef = useRef<string | null>(null); // Start of shift-click ranges
+  const [offsetDraft, setOffsetDraft] = useState('1');
+  const [renumberPrefix, setRenumberPrefix] = useState('Cue ');
+  // A filter on a lane that has since been removed falls back to showing everything
+  const activeFilter = laneFilter !== null && laneFilter < lanes.length ? laneFilter : null;
+  const visibleCues = activeFilter === null ? cues : cues.filter(c => c.row === activeFilter);
+  const sortedCues = sortCuesByTime(visibleCues);
   
   // Find the first upcoming cue (or the one currently playing if we treat "now" as a small window)
   // Logic: "Next" is the first one where time > currentTime.
@@ -21,6 +65,68 @@ export const CueList: React.FC<CueListProps> = ({ cues, currentTime }) => {
   const nextCue = nextIndex !== -1 ? sortedCues[nextIndex] : null;
   const listRef = useRef<HTMLDivElement>(null);
 
+  // Deleted cues drop out of the selection; cues in locked lanes are skipped by bulk edits
+  const selectedCues = cues.filter(c => selection.has(c.id));
+  const editableIds = new Set<string>(selectedCues.filter(c => !isLaneLocked(lanes, c.row)).map(c => c.id));
+  const lockedCount = selectedCues.length - editableIds.size;
+  const offset = parseFloat(offsetDraft);
+
+  // Selecting a cue elsewhere (e.g. on the timeline) replaces a selection that doesn't include it
+  useEffect(() => {
+    if (selectedCueId === null || selection.has(selectedCueId)) return;
+    setSelection(new Set([selectedCueId]));
+    anchorRef.current = selectedCueId;
+    // Only outside selection changes matter; the sheet keeps both in step itself
+  }, [selectedCueId]);
+
+  const handleRowClick = (e: React.MouseEvent, cue: Cue, index: number) => {
+    if (isControl(e.target)) return;
+    const anchorIndex = sortedCues.findIndex(c => c.id === anchorRef.current);
+    if (e.shiftKey && anchorIndex !== -1) {
+      const [from, to] = anchorIndex < index ? [anchorIndex, index] : [index, anchorIndex];
+      setSelection(new Set(sortedCues.slice(from, to + 1).map(c => c.id)));
+    } else if (e.ctrlKey || e.metaKey) {
+      const next = new Set(selection);
+      if (next.has(cue.id)) next.delete(cue.id);
+      else next.add(cue.id);
+      setSelection(next);
+      anchorRef.current = cue.id;
+      if (!next.has(cue.id)) return;
+    } else {
+      setSelection(new Set([cue.id]));
+      anchorRef.current = cue.id;
+    }
+    onSelectCue(cue.id);
+  };
+
+  const clearSelection = () => {
+    setSelection(new Set());
+    anchorRef.current = null;
+    onSelectCue(null);
+  };
+
+  const deleteSelected = () => {
+    if (editableIds.size === 0) return;
+    onDeleteCues([...editableIds]);
+    setSelection(new Set([...selection].filter(id => !editableIds.has(id))));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (isControl(e.target)) return;
+    if (e.key === 'Delete' || e.key === 'Backspace') {
+      deleteSelected();
+    } else if (e.key === 'Escape' && selection.size > 0) {
+      clearSelection();
+    } else if (e.key.toLowerCase() === 'a' && (e.ctrlKey || e.metaKey)) {
+      setSelection(new Set(sortedCues.map(c => c.id)));
+    } else {
+      return;
+    }
+    // Handled here: keep the key away from the global shortcuts (e.g. Escape = stop)
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
   useEffect(() => {
     if (listRef.current && scrollIndex !== -1) {
       // Find the row. The structure is div > table > tbody > tr
@@ -39,8 +145,76 @@ export const CueList: React.FC<CueListProps> = ({ cues, currentTime }) => {
         <h3 className="text-sm font-bold text-white uppercase tracking-wider flex items-center gap-2">
             <Hash size={14} className="text-neutral-500"/> 
             Cue Sheet
+            <select
+                value={activeFilter ?? ''}
+                onChange={(e) => setLaneFilter(e.target.value === '' ? null : Number(e.target.value))}
+                className="ml-2 bg-neutral-900 border border-neutral-800 rounded px-1 py-0.5 text-[10px] font-mono text-neutral-300 normal-case tracking-normal focus:outline-none"
+                title="Filter by lane"
+            >
+                <option value="">All lanes</option>
+                {lanes.map((lane, i) => <option key={lane.id} value={i}>{lane.name}</option>)}
+            </select>
         </h3>
-        {nextCue && (
+        {selectedCues.length > 1 ? (
+            <div className="flex items-center gap-1.5 text-xs" onMouseDown={(e) => e.stopPropagation()}>
+                <span className="text-neutral-400 font-mono text-[10px] mr-1">
+                    {selectedCues.length} selected{lockedCount > 0 && <span className="text-yellow-500"> ({lockedCount} locked)</span>}
+                </span>
+                <input
+                    type="color"
+                    value={selectedCues.find(c => editableIds.has(c.id))?.color ?? '#ef4444'}
+                    disabled={editableIds.size === 0}
+                    onFocus={onEditStart}
+                    onBlur={onEditEnd}
+                    onChange={(e) => onChangeCues(prev => recolorCues(prev, editableIds, e.target.value))}
+                    className="w-5 h-5 bg-transparent border-0 cursor-pointer"
+                    title="Recolour"
+                />
+                <select
+                    value=""
+                    disabled={editableIds.size === 0}
+                    onChange={(e) => e.target.value !== '' && onChangeCues(prev => moveCuesToLane(prev, editableIds, Number(e.target.value)))}
+                    className={toolbarInput}
+                    title="Move to lane"
+                >
+                    <option value="">Move to…</option>
+                    {lanes.map((lane, i) => !lane.locked && <option key={lane.id} value={i}>{lane.name}</option>)}
+                </select>
+                <input
+                    value={offsetDraft}
+                    onChange={(e) => setOffsetDraft(e.target.value)}
+                    className={`${toolbarInput} w-12 text-right`}
+                    title="Seconds to shift by (negative moves earlier)"
+                />
+                <button
+                    onClick={() => onChangeCues(prev => offsetCues(prev, editableIds, offset, duration))}
+                    disabled={!Number.isFinite(offset) || offset === 0 || editableIds.size === 0}
+                    className={toolbarButton}
+                >
+                    Offset
+                </button>
+                <input
+                    value={renumberPrefix}
+                    onChange={(e) => setRenumberPrefix(e.target.value)}
+                    className={`${toolbarInput} w-14`}
+                    title="Label prefix for renumbering"
+                />
+                <button
+                    onClick={() => onChangeCues(prev => renumberCues(prev, editableIds, renumberPrefix))}
+                    disabled={editableIds.size === 0}
+                    className={toolbarButton}
+                    title="Relabel in time order"
+                >
+                    Renumber
+                </button>
+                <button onClick={deleteSelected} disabled={editableIds.size === 0} className={`${toolbarButton} hover:text-red-400`} title="Delete selected">
+                    <Trash2 size={12} />
+                </button>
+                <button onClick={clearSelection} className={toolbarButton} title="Clear selection">
+                    <X size={12} />
+                </button>
+            </div>
+        ) : nextCue && (
             <div className="flex items-center gap-2 text-xs">
                 <span className="text-neutral-500">NEXT:</span>
                 <span className="font-bold animate-pulse" style={{ color: nextCue.color }}>{nextCue.label}</span>
@@ -49,13 +223,14 @@ export const CueList: React.FC<CueListProps> = ({ cues, currentTime }) => {
         )}
       </div>
       
-      <div className="flex-1 overflow-auto p-0 scroll-smooth relative" ref={listRef}>
+      <div className="flex-1 overflow-auto p-0 scroll-smooth relative focus:outline-none" ref={listRef} tabIndex={0} onKeyDown={handleKeyDown}>
         <table className="w-full text-left border-collapse relative">
             <thead className="bg-neutral-900 sticky top-0 z-10 text-xs text-neutral-500 font-mono uppercase shadow-sm">
                 <tr>
-                    <th className="p-3 border-b border-neutral-800 w-12 text-center bg-neutral-900">Row</th>
-                    <th className="p-3 border-b border-neutral-800 w-24 bg-neutral-900">Time</th>
+                    <th className="p-3 border-b border-neutral-800 w-40 bg-neutral-900">Lane</th>
+                    <th className="p-3 border-b border-neutral-800 w-36 bg-neutral-900">Time</th>
                     <th className="p-3 border-b border-neutral-800 w-24 bg-neutral-900">Delta</th>
+                    <th className="p-3 border-b border-neutral-800 w-24 bg-neutral-900">Dur</th>
                     <th className="p-3 border-b border-neutral-800 bg-neutral-900">Label</th>
                     <th className="p-3 border-b border-neutral-800 w-24 text-right bg-neutral-900">Status</th>
                 </tr>
@@ -63,19 +238,27 @@ export const CueList: React.FC<CueListProps> = ({ cues, currentTime }) => {
             <tbody>
                 {sortedCues.map((cue, idx) => {
                     const diff = cue.time - currentTime;
-                    const isPast = diff < -0.5;
-                    const isNow = !isPast && diff <= 0; // Within 0.5s of passing
+                    const locked = isLaneLocked(lanes, cue.row);
+                    const isSelected = selection.has(cue.id);
+                    const isRange = isRangeCue(cue);
+                    const cueEnd = getCueEnd(cue);
+                    const isPast = currentTime - cueEnd > 0.5;
+                    const isNow = !isPast && diff <= 0; // Inside the span, or within 0.5s of passing
+                    const isRunning = isRange && currentTime >= cue.time && currentTime <= cueEnd;
                     
                     // Fader Logic: Sequential
                     // Starts after previous cue ends (or start of track for first cue)
-                    const prevTime = idx === 0 ? 0 : sortedCues[idx - 1].time;
+                    const prevTime = idx === 0 ? 0 : Math.min(getCueEnd(sortedCues[idx - 1]), cue.time);
                     const windowDuration = cue.time - prevTime;
                     
                     let progressPercent = 0;
                     let isActiveSegment = false;
 
-                    // Calculate progress only if we are in the window [prevTime, cue.time]
-                    if (currentTime >= prevTime && currentTime <= cue.time) {
+                    if (isRunning) {
+                        // Range cues track their own span once they start
+                        progressPercent = ((currentTime - cue.time) / (cueEnd - cue.time)) * 100;
+                    } else if (currentTime >= prevTime && currentTime <= cue.time) {
+                        // Calculate progress only if we are in the window [prevTime, cue.time]
                         isActiveSegment = true;
                         if (windowDuration > 0) {
                             progressPercent = ((currentTime - prevTime) / windowDuration) * 100;
@@ -90,44 +273,96 @@ export const CueList: React.FC<CueListProps> = ({ cues, currentTime }) => {
                         <tr 
                             key={cue.id} 
                             data-index={idx}
+                            onClick={(e) => handleRowClick(e, cue, idx)}
+                            onDoubleClick={(e) => !isControl(e.target) && onSeek(cue.time)}
+                            title="Double-click to seek"
                             className={`
-                                border-b border-neutral-800 transition-colors group relative
-                                ${isNow ? 'bg-blue-900/20' : 'hover:bg-neutral-800'}
-                                ${isPast ? 'opacity-40' : 'opacity-100'}
+                                border-b border-neutral-800 transition-colors group relative select-none
+                                ${isSelected ? 'bg-blue-500/15' : isNow ? 'bg-blue-900/20' : 'hover:bg-neutral-800'}
+                                ${isPast && !isSelected ? 'opacity-40' : 'opacity-100'}
                             `}
                         >
-                            <td className="p-3 border-r border-neutral-800 text-center relative z-10">
+                            <td className="p-3 border-r border-neutral-800 relative z-10">
                                 <div className="absolute left-0 top-0 bottom-0 w-1" style={{ backgroundColor: cue.color }} />
-                                <span className="font-mono text-xs text-neutral-400 bg-neutral-800 rounded px-1.5 py-0.5">
-                                    {cue.row + 1}
-                                </span>
+                                <div className="flex items-center gap-1.5">
+                                    <input
+                                        type="color"
+                                        value={cue.color}
+                                        disabled={locked}
+                                        onFocus={onEditStart}
+                                        onBlur={onEditEnd}
+                                        onChange={(e) => onUpdateCue(cue.id, { color: e.target.value })}
+                                        className="w-4 h-4 shrink-0 bg-transparent border-0 cursor-pointer disabled:cursor-default"
+                                        title="Colour"
+                                    />
+                                    <select
+                                        value={cue.row}
+                                        disabled={locked}
+                                        onChange={(e) => onUpdateCue(cue.id, { row: Number(e.target.value) })}
+                                        className="min-w-0 flex-1 font-mono text-xs text-neutral-400 bg-neutral-800 rounded px-1 py-0.5 focus:outline-none disabled:opacity-60"
+                                        title={locked ? 'Lane is locked' : 'Lane'}
+                                    >
+                                        {lanes.map((lane, i) => (
+                                            <option key={lane.id} value={i} disabled={i !== cue.row && lane.locked}>{lane.name}</option>
+                                        ))}
+                                    </select>
+                                </div>
                             </td>
                             <td className="p-3 font-mono text-sm text-neutral-300 relative z-10">
-                                {formatTime(cue.time)}
+                                {locked ? (
+                                    formatTime(cue.time, timeFormat)
+                                ) : (
+                                    <TimeInput
+                                        value={cue.time}
+                                        timeFormat={timeFormat}
+                                        onCommit={(time) => onUpdateCue(cue.id, { time: Math.max(0, Math.min(duration, time)) })}
+                                        className="text-sm w-full"
+                                    />
+                                )}
                             </td>
                             <td className="p-3 font-mono text-sm font-medium relative z-10">
                                 <span className={diff > 0 ? 'text-green-500' : 'text-red-500'}>
                                     {diff > 0 ? '-' : '+'}{formatTime(Math.abs(diff))}
                                 </span>
                             </td>
+                            <td className="p-3 font-mono text-sm text-neutral-400 relative z-10">
+                                {isRange ? formatTime(cue.duration ?? 0) : <span className="text-neutral-700">—</span>}
+                            </td>
                             
-                            {/* Label Column with Green Fader */}
+                            {/* Label Column with Green Fader (blue while a range cue is running) */}
                             <td className="p-3 text-sm font-medium text-white relative overflow-hidden">
                                 {!isPast && (
                                     <div 
-                                        className="absolute top-0 left-0 bottom-0 bg-green-500/20 pointer-events-none transition-all duration-75 ease-linear"
+                                        className={`absolute top-0 left-0 bottom-0 pointer-events-none transition-all duration-75 ease-linear ${isRunning ? 'bg-blue-500/20' : 'bg-green-500/20'}`}
                                         style={{ width: `${progressPercent}%` }}
                                     />
                                 )}
                                 <div className="relative z-10 flex items-center gap-2">
-                                    {isNow && <ArrowRight size={14} className="text-blue-500" />}
-                                    {cue.label}
+                                    {isNow && <ArrowRight size={14} className="text-blue-500 shrink-0" />}
+                                    <input
+                                        value={cue.label}
+                                        disabled={locked}
+                                        onFocus={onEditStart}
+                                        onBlur={onEditEnd}
+                                        onChange={(e) => onUpdateCue(cue.id, { label: e.target.value })}
+                                        onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+                                        className="flex-1 min-w-0 bg-transparent rounded px-1 -mx-1 text-white focus:outline-none focus:bg-neutral-800 border border-transparent focus:border-blue-500 disabled:text-neutral-300"
+                                    />
+                                    {cue.actions?.some(a => a.enabled) && (
+                                        <span className="flex items-center gap-0.5 text-[10px] font-mono text-blue-400" title="Has show-control actions">
+                                            <Zap size={10} /> {cue.actions.filter(a => a.enabled).length}
+                                        </span>
+                                    )}
                                 </div>
                             </td>
 
                             <td className="p-3 text-xs font-mono text-right relative z-10">
                                 {isPast && <span className="text-neutral-500">PASSED</span>}
-                                {isNow && <span className="text-blue-400 font-bold">GO</span>}
+                                {isNow && (
+                                    <span className="text-blue-400 font-bold">
+                                        {isRunning ? `GO -${formatTime(cueEnd - currentTime)}` : 'GO'}
+                                    </span>
+                                )}
                                 {!isPast && !isNow && (
                                     <span className={isActiveSegment ? "text-green-400 font-medium" : "text-neutral-500"}>
                                         {isActiveSegment ? "READY" : "WAIT"}
@@ -137,10 +372,10 @@ export const CueList: React.FC<CueListProps> = ({ cues, currentTime }) => {
                         </tr>
                     );
                 })}
-                {cues.length === 0 && (
+                {sortedCues.length === 0 && (
                     <tr>
-                        <td colSpan={5} className="p-8 text-center text-neutral-600 text-sm">
-                            No cues added yet.
+                        <td colSpan={6} className="p-8 text-center text-neutral-600 text-sm">
+                            {cues.length === 0 ? 'No cues added yet.' : 'No cues in this lane.'}
                         </td>
                     </tr>
                 )}
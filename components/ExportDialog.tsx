@@ -0,0 +1,180 @@
+import React, { useMemo, useState } from 'react';
+import { TimecodeFormat } from '../types';
+import { AudioMarkerFormat } from '../utils/chapters';
+import { CUE_EXPORT_FORMATS, CueExportFormat, CueExportProject, exportCues, getExportFormat } from '../utils/cueExport';
+import { LTC_FORMATS } from '../utils/ltc';
+import { TIMECODE_FORMATS } from '../utils/timecode';
+import { Download, FileMusic, X } from 'lucide-react';
+
+interface ExportDialogProps {
+  project: CueExportProject;
+  audioMarkers: AudioMarkerFormat | null; // What the original audio file can carry, if anything
+  onDownloadAudio: (lanes: number[]) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_LINES = 200;
+
+const AUDIO_EXPORTS: Record<AudioMarkerFormat, { label: string; description: string }> = {
+  wav: { label: 'WAV with cue markers', description: "The original file with the selected lanes' cues as cue points; the audio is not re-encoded." },
+  mp3: { label: 'MP3 with chapters', description: "The original file with an ID3 chapter table from the selected lanes' cues; only the tag is rewritten." },
+  mp4: { label: 'M4A with chapters', description: "The original file with the selected lanes' cues as a QuickTime chapter track (Apple Podcasts, iTunes) and a Nero chapter list (chpl); the audio is not re-encoded." },
+};
+
+const inputClass = "bg-neutral-800 rounded px-2 py-1 text-xs font-mono text-white focus:outline-none border border-transparent focus:border-blue-500";
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ project, audioMarkers, onDownloadAudio, onClose }) => {
+  const [format, setFormat] = useState<CueExportFormat>('json');
+  const [lanes, setLanes] = useState<number[]>(() => project.lanes.map((_, i) => i));
+  // SMPTE formats only; a project shown in clock/seconds/samples starts from 25 fps
+  const [frameRate, setFrameRate] = useState<TimecodeFormat>(
+    LTC_FORMATS.includes(project.timecode.format) ? project.timecode.format : 'smpte25'
+  );
+  const [subtitleDuration, setSubtitleDuration] = useState(2);
+  const info = getExportFormat(format);
+
+  const output = useMemo(() => {
+    try {
+      return { text: exportCues(project, { format, lanes, frameRate, subtitleDuration }), error: null };
+    } catch (err) {
+      return { text: '', error: err instanceof Error ? err.message : String(err) };
+    }
+  }, [project, format, lanes, frameRate, subtitleDuration]);
+
+  const previewLines = output.text.split('\n');
+  const cueCount = project.cues.filter(c => lanes.includes(c.row)).length;
+
+  const toggleLane = (index: number) => {
+    setLanes(prev => prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index].sort((a, b) => a - b));
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([output.text], { type: info.mimeType });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${project.name || 'project'}_cues.${info.extension}`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center" onMouseDown={onClose}>
+      <div
+        className="w-[880px] h-[80vh] flex flex-col bg-neutral-950 border border-neutral-800 rounded-lg shadow-2xl"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-neutral-800 flex items-center justify-between">
+          <h2 className="text-sm font-bold text-white uppercase tracking-wider flex items-center gap-2">
+            <Download size={14} className="text-neutral-500" />
+            Export Cues
+          </h2>
+          <button onClick={onClose} className="p-1 text-neutral-500 hover:text-white transition-colors">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          <div className="w-64 shrink-0 border-r border-neutral-800 overflow-auto p-4 space-y-4">
+            <div>
+              <div className="text-[10px] text-neutral-500 uppercase tracking-widest mb-2">Format</div>
+              <div className="space-y-0.5">
+                {CUE_EXPORT_FORMATS.map(({ value, label, extension }) => (
+                  <button
+                    key={value}
+                    onClick={() => setFormat(value)}
+                    className={`w-full flex items-center justify-between px-2 py-1.5 rounded text-xs transition-colors ${format === value ? 'bg-neutral-800 text-green-400' : 'text-neutral-400 hover:text-white hover:bg-neutral-900'}`}
+                  >
+                    {label}
+                    <span className="font-mono text-[10px] text-neutral-600">.{extension}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {audioMarkers && (
+              <div>
+                <div className="text-[10px] text-neutral-500 uppercase tracking-widest mb-2">Audio</div>
+                <button
+                  onClick={() => onDownloadAudio(lanes)}
+                  className="w-full flex items-center gap-2 px-2 py-1.5 rounded text-xs text-neutral-400 hover:text-white hover:bg-neutral-900 transition-colors"
+                >
+                  <FileMusic size={12} />
+                  {AUDIO_EXPORTS[audioMarkers].label}
+                </button>
+                <div className="mt-1 px-2 text-[10px] text-neutral-600">{AUDIO_EXPORTS[audioMarkers].description}</div>
+              </div>
+            )}
+
+            {info.options.includes('frameRate') && (
+              <div>
+                <div className="text-[10px] text-neutral-500 uppercase tracking-widest mb-2">Frame Rate</div>
+                <select value={frameRate} onChange={(e) => setFrameRate(e.target.value as TimecodeFormat)} className={`${inputClass} w-full`}>
+                  {TIMECODE_FORMATS.filter(f => LTC_FORMATS.includes(f.value)).map(({ value, label }) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {info.options.includes('subtitleDuration') && (
+              <div>
+                <div className="text-[10px] text-neutral-500 uppercase tracking-widest mb-2">Point Cue Duration</div>
+                <div className="flex items-center gap-2 text-xs">
+                  <input
+                    type="number"
+                    min={0.1}
+                    step={0.5}
+                    value={subtitleDuration}
+                    onChange={(e) => Number(e.target.value) > 0 && setSubtitleDuration(Number(e.target.value))}
+                    className={`${inputClass} w-20`}
+                  />
+                  <span className="text-neutral-500">seconds</span>
+                </div>
+              </div>
+            )}
+
+            {info.options.includes('lanes') && (
+              <div>
+                <div className="text-[10px] text-neutral-500 uppercase tracking-widest mb-2">Lanes</div>
+                <div className="space-y-1">
+                  {project.lanes.map((lane, i) => (
+                    <label key={lane.id} className="flex items-center gap-2 text-xs text-neutral-300">
+                      <input type="checkbox" checked={lanes.includes(i)} onChange={() => toggleLane(i)} />
+                      <span className="w-2 h-3 rounded-sm shrink-0" style={{ backgroundColor: lane.color }} />
+                      <span className="truncate">{lane.name}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="flex-1 min-w-0 flex flex-col">
+            <div className="px-4 py-2 border-b border-neutral-800 flex items-center justify-between text-[10px] font-mono text-neutral-500">
+              <span>{info.options.includes('lanes') ? `${cueCount} cues` : `${project.cues.length} cues, ${project.lanes.length} lanes`}</span>
+              {previewLines.length > PREVIEW_LINES && <span>Showing first {PREVIEW_LINES} of {previewLines.length} lines</span>}
+            </div>
+            {output.error ? (
+              <div className="p-4 text-xs text-red-400">{output.error}</div>
+            ) : (
+              <pre className="flex-1 overflow-auto p-4 text-[11px] leading-relaxed font-mono text-neutral-300 whitespace-pre">
+                {previewLines.slice(0, PREVIEW_LINES).join('\n')}
+              </pre>
+            )}
+            <div className="p-4 border-t border-neutral-800 flex justify-end">
+              <button
+                onClick={handleDownload}
+                disabled={!!output.error}
+                className="flex items-center gap-2 px-4 py-1.5 bg-blue-600 hover:bg-blue-500 text-white text-xs font-medium rounded transition-colors disabled:opacity-40"
+              >
+                <Download size={14} />
+                Download .{info.extension}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,255 @@
+import React, { useMemo, useState } from 'react';
+import { Cue, Lane, TimecodeFormat, TimeFormatOptions } from '../types';
+import { formatTime } from '../utils/audioUtils';
+import {
+  CUE_IMPORT_FORMATS,
+  IMPORT_STRATEGIES,
+  CueImportFormat,
+  CueImportSource,
+  ImportPlan,
+  ImportStrategy,
+  ParsedCueFile,
+  detectCueFormat,
+  parseCueSource,
+  planCueImport,
+} from '../utils/cueImport';
+import { LaneDocument } from '../utils/lanes';
+import { AudioFingerprint } from '../utils/projectSchema';
+import { LTC_FORMATS } from '../utils/ltc';
+import { TIMECODE_FORMATS } from '../utils/timecode';
+import { FileUp, X } from 'lucide-react';
+
+interface ImportDialogProps {
+  source: CueImportSource;
+  fileName: string;
+  doc: LaneDocument;
+  duration: number;
+  timeFormat: TimeFormatOptions;
+  audio: AudioFingerprint; // The loaded audio, checked against a project file's fingerprint
+  onImport: (plan: ImportPlan, file: ParsedCueFile, strategy: ImportStrategy) => void;
+  onClose: () => void;
+}
+
+const inputClass = "bg-neutral-800 rounded px-2 py-1 text-xs font-mono text-white focus:outline-none border border-transparent focus:border-blue-500";
+
+type PreviewStatus = 'added' | 'changed' | 'removed' | 'skipped';
+
+const STATUS_STYLES: Record<PreviewStatus, { label: string; className: string }> = {
+  added: { label: 'ADD', className: 'text-green-400' },
+  changed: { label: 'CHANGE', className: 'text-yellow-400' },
+  removed: { label: 'REMOVE', className: 'text-red-400' },
+  skipped: { label: 'SKIP', className: 'text-neutral-500' },
+};
+
+interface PreviewRow {
+  key: string;
+  status: PreviewStatus;
+  time: number;
+  label: string;
+  lane: string;
+  color?: string;
+  detail?: string;
+}
+
+const laneName = (lanes: Lane[], cue: Cue) => lanes[cue.row]?.name ?? `Lane ${cue.row + 1}`;
+
+export const ImportDialog: React.FC<ImportDialogProps> = ({ source, fileName, doc, duration, timeFormat, audio, onImport, onClose }) => {
+  const wav = 'wav' in source ? source.wav : null;
+  const chapters = 'chapters' in source ? source.chapters : null;
+  const detected = useMemo(() => detectCueFormat('text' in source ? source.text : '', fileName), [source, fileName]);
+  const [format, setFormat] = useState<CueImportFormat>(detected);
+  // Into an empty sheet, replace also takes over the file's lanes, tempo map and timecode start
+  const [strategy, setStrategy] = useState<ImportStrategy>(
+    ('text' in source && detected === 'json') || doc.cues.length === 0 ? 'replace' : 'merge'
+  );
+  const [lane, setLane] = useState(0);
+  const [offsetDraft, setOffsetDraft] = useState('0');
+  const [frameRate, setFrameRate] = useState<TimecodeFormat>(
+    LTC_FORMATS.includes(timeFormat.timecode.format) ? timeFormat.timecode.format : 'smpte25'
+  );
+  const offset = Number(offsetDraft) || 0;
+
+  const parsed = useMemo(() => {
+    try {
+      const options = { frameRate, startOffset: timeFormat.timecode.startOffset, sampleRate: timeFormat.sampleRate, audio, duration };
+      return { file: parseCueSource(source, format, options), error: null };
+    } catch (err) {
+      return { file: null, error: err instanceof Error ? err.message : String(err) };
+    }
+  }, [source, format, frameRate, timeFormat, audio, duration]);
+
+  const plan = useMemo(
+    () => parsed.file ? planCueImport(doc, parsed.file, { strategy, offset, lane }, duration) : null,
+    [parsed, doc, strategy, offset, lane, duration]
+  );
+
+  const rows = useMemo<PreviewRow[]>(() => {
+    if (!plan) return [];
+    const lanes = plan.doc.lanes;
+    return [
+      ...plan.added.map(c => ({ key: `a-${c.id}`, status: 'added' as const, time: c.time, label: c.label, lane: laneName(lanes, c), color: c.color })),
+      ...plan.changed.map(({ before, after }) => ({
+        key: `c-${before.id}`,
+        status: 'changed' as const,
+        time: after.time,
+        label: after.label,
+        lane: laneName(lanes, after),
+        color: after.color,
+        detail: [
+          (before.duration ?? 0) !== (after.duration ?? 0) && `duration ${formatTime(before.duration ?? 0)} → ${formatTime(after.duration ?? 0)}`,
+          before.color !== after.color && 'colour',
+        ].filter(Boolean).join(', '),
+      })),
+      ...plan.removed.map(c => ({ key: `r-${c.id}`, status: 'removed' as const, time: c.time, label: c.label, lane: laneName(doc.lanes, c), color: c.color })),
+      ...plan.skipped.map(({ cue, reason }, i) => ({ key: `s-${i}`, status: 'skipped' as const, time: cue.time, label: cue.label, lane: cue.lane ?? '', detail: reason })),
+    ].sort((a, b) => a.time - b.time);
+  }, [plan, doc.lanes]);
+
+  const canImport = !!plan && (plan.added.length > 0 || plan.changed.length > 0 || plan.removed.length > 0);
+  const usesFrameRate = wav ? !!wav.timeReference : !chapters && (format === 'edl' || format === 'csv');
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center" onMouseDown={onClose}>
+      <div
+        className="w-[880px] h-[80vh] flex flex-col bg-neutral-950 border border-neutral-800 rounded-lg shadow-2xl"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-neutral-800 flex items-center justify-between">
+          <h2 className="text-sm font-bold text-white uppercase tracking-wider flex items-center gap-2 min-w-0">
+            <FileUp size={14} className="text-neutral-500 shrink-0" />
+            Import Cues
+            <span className="ml-2 text-xs font-mono text-neutral-500 normal-case tracking-normal truncate">{fileName}</span>
+          </h2>
+          <button onClick={onClose} className="p-1 text-neutral-500 hover:text-white transition-colors">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          <div className="w-64 shrink-0 border-r border-neutral-800 overflow-auto p-4 space-y-4">
+            <div>
+              <div className="text-[10px] text-neutral-500 uppercase tracking-widest mb-2">Format</div>
+              {wav ? (
+                <div className="text-xs text-neutral-300">
+                  WAV markers
+                  <div className="text-[10px] font-mono text-neutral-600">{wav.sampleRate} Hz · {wav.channels} ch{wav.description ? ` · ${wav.description}` : ''}</div>
+                </div>
+              ) : chapters ? (
+                <div className="text-xs text-neutral-300">
+                  {chapters.container === 'mp3' ? 'ID3 chapters (CHAP)' : 'MP4 chapters'}
+                  <div className="text-[10px] font-mono text-neutral-600">{chapters.chapters.length} chapters</div>
+                </div>
+              ) : (
+                <select value={format} onChange={(e) => setFormat(e.target.value as CueImportFormat)} className={`${inputClass} w-full`}>
+                  {CUE_IMPORT_FORMATS.map(({ value, label }) => (
+                    <option key={value} value={value}>{label}{value === detected ? ' (detected)' : ''}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+
+            <div>
+              <div className="text-[10px] text-neutral-500 uppercase tracking-widest mb-2">Strategy</div>
+              <div className="space-y-1">
+                {IMPORT_STRATEGIES.map(({ value, label, description }) => (
+                  <button
+                    key={value}
+                    onClick={() => setStrategy(value)}
+                    className={`w-full text-left px-2 py-1.5 rounded transition-colors ${strategy === value ? 'bg-neutral-800' : 'hover:bg-neutral-900'}`}
+                  >
+                    <div className={`text-xs ${strategy === value ? 'text-green-400' : 'text-neutral-300'}`}>{label}</div>
+                    <div className="text-[10px] text-neutral-600 leading-snug">{description}</div>
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <div className="text-[10px] text-neutral-500 uppercase tracking-widest mb-2">{strategy === 'append' ? 'Lane' : 'Lane for unnamed cues'}</div>
+              <select value={lane} onChange={(e) => setLane(Number(e.target.value))} className={`${inputClass} w-full`}>
+                {doc.lanes.map((l, i) => <option key={l.id} value={i}>{l.name}</option>)}
+              </select>
+            </div>
+
+            <div>
+              <div className="text-[10px] text-neutral-500 uppercase tracking-widest mb-2">Time Offset</div>
+              <div className="flex items-center gap-2 text-xs">
+                <input value={offsetDraft} onChange={(e) => setOffsetDraft(e.target.value)} className={`${inputClass} w-20 text-right`} />
+                <span className="text-neutral-500">seconds</span>
+              </div>
+            </div>
+
+            {usesFrameRate && (
+              <div>
+                <div className="text-[10px] text-neutral-500 uppercase tracking-widest mb-2">Timecode Rate</div>
+                <select value={frameRate} onChange={(e) => setFrameRate(e.target.value as TimecodeFormat)} className={`${inputClass} w-full`}>
+                  {TIMECODE_FORMATS.filter(f => LTC_FORMATS.includes(f.value)).map(({ value, label }) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+                <div className="mt-1 text-[10px] text-neutral-600">
+                  {wav
+                    ? 'Used for the timecode start taken from the Broadcast Wave time reference.'
+                    : `SMPTE times are read as show time: the project start offset (${formatTime(0, { ...timeFormat, display: 'clock' })}) is subtracted.`}
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="flex-1 min-w-0 flex flex-col">
+            {plan && (
+              <div className="px-4 py-2 border-b border-neutral-800 flex items-center gap-4 text-[10px] font-mono">
+                <span className="text-green-400">+{plan.added.length} added</span>
+                <span className="text-yellow-400">~{plan.changed.length} changed</span>
+                <span className="text-red-400">−{plan.removed.length} removed</span>
+                <span className="text-neutral-500">{plan.skipped.length} skipped</span>
+                {plan.newLanes.length > 0 && <span className="text-blue-400">new lanes: {plan.newLanes.join(', ')}</span>}
+                {strategy === 'replace' && parsed.file?.timecode && (
+                  <span className="text-blue-400">timecode start: {formatTime(0, { ...timeFormat, display: 'clock', timecode: parsed.file.timecode })}</span>
+                )}
+              </div>
+            )}
+            {parsed.error && <div className="p-4 text-xs font-mono text-red-400 whitespace-pre-line overflow-auto">{parsed.error}</div>}
+            {parsed.file && parsed.file.warnings.length > 0 && (
+              <div className="px-4 py-2 border-b border-neutral-800 text-[10px] text-yellow-500 max-h-20 overflow-auto">
+                {parsed.file.warnings.map((w, i) => <div key={i}>{w}</div>)}
+              </div>
+            )}
+            <div className="flex-1 overflow-auto">
+              <table className="w-full text-left text-xs">
+                <tbody>
+                  {rows.map(row => (
+                    <tr key={row.key} className="border-b border-neutral-900">
+                      <td className={`px-4 py-1.5 w-20 font-mono text-[10px] font-bold ${STATUS_STYLES[row.status].className}`}>{STATUS_STYLES[row.status].label}</td>
+                      <td className="px-2 py-1.5 w-32 font-mono text-neutral-400">{formatTime(row.time, { ...timeFormat, display: 'clock' })}</td>
+                      <td className="px-2 py-1.5 w-28 text-neutral-500 truncate">{row.lane}</td>
+                      <td className="px-2 py-1.5">
+                        <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ backgroundColor: row.color ?? 'transparent' }} />
+                        <span className={row.status === 'removed' || row.status === 'skipped' ? 'text-neutral-500 line-through' : 'text-white'}>{row.label}</span>
+                        {row.detail && <span className="ml-2 text-[10px] text-neutral-500">{row.detail}</span>}
+                      </td>
+                    </tr>
+                  ))}
+                  {plan && rows.length === 0 && (
+                    <tr><td className="p-8 text-center text-neutral-600">No cues found in this file.</td></tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+            <div className="p-4 border-t border-neutral-800 flex justify-end gap-2">
+              <button onClick={onClose} className="px-4 py-1.5 text-xs text-neutral-400 hover:text-white transition-colors">Cancel</button>
+              <button
+                onClick={() => plan && parsed.file && onImport(plan, parsed.file, strategy)}
+                disabled={!canImport}
+                className="flex items-center gap-2 px-4 py-1.5 bg-blue-600 hover:bg-blue-500 text-white text-xs font-medium rounded transition-colors disabled:opacity-40"
+              >
+                <FileUp size={14} />
+                Import
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
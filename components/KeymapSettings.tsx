@@ -0,0 +1,122 @@
+import React, { useEffect, useState } from 'react';
+import { Keymap, KeyAction, KEY_ACTIONS, DEFAULT_KEYMAP, eventToCombo, formatCombo, bindKey, findAction } from '../utils/keymap';
+import { Keyboard, X, RotateCcw } from 'lucide-react';
+
+interface KeymapSettingsProps {
+  keymap: Keymap;
+  outputLatency: number; // seconds, as reported by the audio context
+  latencyOffset: number; // extra manual compensation, ms
+  onChange: (keymap: Keymap) => void;
+  onLatencyOffsetChange: (ms: number) => void;
+  onClose: () => void;
+}
+
+const GROUPS = Array.from(new Set(KEY_ACTIONS.map(a => a.group)));
+
+export const KeymapSettings: React.FC<KeymapSettingsProps> = ({
+  keymap,
+  outputLatency,
+  latencyOffset,
+  onChange,
+  onLatencyOffsetChange,
+  onClose,
+}) => {
+  const [capturing, setCapturing] = useState<KeyAction | null>(null);
+
+  // Grab the next key combo for the action being rebound (Escape cancels)
+  useEffect(() => {
+    if (!capturing) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      const combo = eventToCombo(e);
+      if (!combo) return;
+      if (combo !== 'Escape') {
+        const previous = findAction(keymap, combo);
+        if (previous && previous !== capturing) {
+          const label = KEY_ACTIONS.find(a => a.action === previous)?.label;
+          if (!confirm(`${formatCombo(combo)} is bound to "${label}". Reassign it?`)) {
+            setCapturing(null);
+            return;
+          }
+        }
+        onChange(bindKey(keymap, capturing, combo));
+      }
+      setCapturing(null);
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [capturing, keymap, onChange]);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center" onMouseDown={onClose}>
+      <div
+        className="w-[520px] max-h-[80vh] flex flex-col bg-neutral-950 border border-neutral-800 rounded-lg shadow-2xl"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-neutral-800 flex items-center justify-between">
+          <h2 className="text-sm font-bold text-white uppercase tracking-wider flex items-center gap-2">
+            <Keyboard size={14} className="text-neutral-500" />
+            Keyboard Shortcuts
+          </h2>
+          <button onClick={onClose} className="p-1 text-neutral-500 hover:text-white transition-colors">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-4 space-y-4">
+          {GROUPS.map(group => (
+            <div key={group}>
+              <div className="text-[10px] text-neutral-500 uppercase tracking-widest mb-1">{group}</div>
+              {KEY_ACTIONS.filter(a => a.group === group).map(({ action, label }) => (
+                <div key={action} className="flex items-center gap-2 py-1 text-xs">
+                  <span className="flex-1 text-neutral-300">{label}</span>
+                  <button
+                    onClick={() => setCapturing(capturing === action ? null : action)}
+                    className={`min-w-[120px] px-2 py-1 rounded font-mono text-right transition-colors ${capturing === action ? 'bg-blue-600 text-white' : 'bg-neutral-900 text-neutral-300 hover:bg-neutral-800'}`}
+                    title="Click, then press the new key (Esc cancels)"
+                  >
+                    {capturing === action ? 'Press a key…' : keymap[action].map(formatCombo).join(' / ') || '—'}
+                  </button>
+                  <button
+                    onClick={() => onChange({ ...keymap, [action]: [] })}
+                    disabled={keymap[action].length === 0}
+                    className="p-1 text-neutral-600 hover:text-red-400 transition-colors disabled:opacity-30"
+                    title="Unbind"
+                  >
+                    <X size={12} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          ))}
+
+          <div className="pt-4 border-t border-neutral-800 space-y-2">
+            <div className="text-[10px] text-neutral-500 uppercase tracking-widest">Record Latency</div>
+            <div className="flex items-center gap-2 text-xs text-neutral-400">
+              <span className="flex-1">Audio output latency (auto)</span>
+              <span className="font-mono text-neutral-300">{Math.round(outputLatency * 1000)} ms</span>
+            </div>
+            <label className="flex items-center gap-2 text-xs text-neutral-400">
+              <span className="flex-1">Extra compensation (reaction time, Bluetooth…)</span>
+              <input
+                type="number" step={5}
+                value={latencyOffset}
+                onChange={(e) => onLatencyOffsetChange(Number(e.target.value) || 0)}
+                className="w-20 bg-neutral-800 rounded px-2 py-1 font-mono text-white text-right focus:outline-none border border-transparent focus:border-blue-500"
+              />
+              <span className="font-mono text-neutral-600">ms</span>
+            </label>
+          </div>
+
+          <button
+            onClick={() => onChange(DEFAULT_KEYMAP)}
+            className="flex items-center gap-1 text-xs text-neutral-500 hover:text-white transition-colors"
+          >
+            <RotateCcw size={12} /> Reset to defaults
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { Cue, Lane } from '../types';
+import { LANE_HEIGHTS } from '../utils/lanes';
+import { Rows3, X, Plus, Trash2, ChevronUp, ChevronDown, Lock, LockOpen, Eye, EyeOff } from 'lucide-react';
+
+interface LaneManagerProps {
+  lanes: Lane[];
+  cues: Cue[];
+  onUpdateLane: (index: number, changes: Partial<Lane>) => void;
+  onAddLane: () => void;
+  onMoveLane: (from: number, to: number) => void;
+  onRemoveLane: (index: number, targetIndex: number) => void;
+  // Bracket name typing so it becomes a single undo step
+  onEditStart: () => void;
+  onEditEnd: () => void;
+  onClose: () => void;
+}
+
+const iconButton = "p-1 rounded transition-colors disabled:opacity-30 disabled:pointer-events-none";
+
+export const LaneManager: React.FC<LaneManagerProps> = ({
+  lanes,
+  cues,
+  onUpdateLane,
+  onAddLane,
+  onMoveLane,
+  onRemoveLane,
+  onEditStart,
+  onEditEnd,
+  onClose,
+}) => {
+  // Lane being removed, and where its cues should go
+  const [removing, setRemoving] = useState<{ index: number; target: number } | null>(null);
+
+  const cueCount = (index: number) => cues.filter(c => c.row === index).length;
+
+  const requestRemove = (index: number) => {
+    if (cueCount(index) === 0) {
+      onRemoveLane(index, index === 0 ? 1 : index - 1);
+      return;
+    }
+    setRemoving({ index, target: index === 0 ? 1 : index - 1 });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center" onMouseDown={onClose}>
+      <div
+        className="w-[640px] max-h-[80vh] flex flex-col bg-neutral-950 border border-neutral-800 rounded-lg shadow-2xl"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-neutral-800 flex items-center justify-between">
+          <h2 className="text-sm font-bold text-white uppercase tracking-wider flex items-center gap-2">
+            <Rows3 size={14} className="text-neutral-500" />
+            Lanes
+          </h2>
+          <button onClick={onClose} className="p-1 text-neutral-500 hover:text-white transition-colors">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-4 space-y-1">
+          {lanes.map((lane, index) => (
+            <div key={lane.id}>
+              <div className="flex items-center gap-2 text-xs">
+                <div className="flex flex-col">
+                  <button onClick={() => onMoveLane(index, index - 1)} disabled={index === 0} className={`${iconButton} text-neutral-500 hover:text-white p-0`}>
+                    <ChevronUp size={12} />
+                  </button>
+                  <button onClick={() => onMoveLane(index, index + 1)} disabled={index === lanes.length - 1} className={`${iconButton} text-neutral-500 hover:text-white p-0`}>
+                    <ChevronDown size={12} />
+                  </button>
+                </div>
+                <input
+                  type="color"
+                  value={lane.color}
+                  onChange={(e) => onUpdateLane(index, { color: e.target.value })}
+                  onFocus={onEditStart}
+                  onBlur={onEditEnd}
+                  className="w-6 h-6 bg-transparent border-0 cursor-pointer"
+                  title="Default colour for new cues"
+                />
+                <input
+                  value={lane.name}
+                  onChange={(e) => onUpdateLane(index, { name: e.target.value })}
+                  onFocus={onEditStart}
+                  onBlur={onEditEnd}
+                  className="flex-1 bg-neutral-800 rounded px-2 py-1 text-white focus:outline-none border border-transparent focus:border-blue-500"
+                />
+                <span className="w-14 text-right font-mono text-neutral-500">{cueCount(index)} cues</span>
+                <div className="flex">
+                  {LANE_HEIGHTS.map(({ value, label }) => (
+                    <button
+                      key={value}
+                      onClick={() => onUpdateLane(index, { height: value })}
+                      title="Lane height"
+                      className={`px-1.5 py-0.5 rounded font-mono transition-colors ${lane.height === value ? 'bg-neutral-800 text-blue-400' : 'text-neutral-500 hover:text-white'}`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                <button
+                  onClick={() => onUpdateLane(index, { locked: !lane.locked })}
+                  title={lane.locked ? 'Unlock' : 'Lock'}
+                  className={`${iconButton} ${lane.locked ? 'text-yellow-400' : 'text-neutral-500 hover:text-white'}`}
+                >
+                  {lane.locked ? <Lock size={14} /> : <LockOpen size={14} />}
+                </button>
+                <button
+                  onClick={() => onUpdateLane(index, { hidden: !lane.hidden })}
+                  title={lane.hidden ? 'Show' : 'Hide'}
+                  className={`${iconButton} ${lane.hidden ? 'text-neutral-600' : 'text-neutral-300 hover:text-white'}`}
+                >
+                  {lane.hidden ? <EyeOff size={14} /> : <Eye size={14} />}
+                </button>
+                <button
+                  onClick={() => onUpdateLane(index, { solo: !lane.solo })}
+                  title="Solo"
+                  className={`${iconButton} w-6 font-mono font-bold ${lane.solo ? 'bg-green-900/40 text-green-400' : 'text-neutral-500 hover:text-white'}`}
+                >
+                  S
+                </button>
+                <button
+                  onClick={() => requestRemove(index)}
+                  disabled={lanes.length <= 1}
+                  title="Remove lane"
+                  className={`${iconButton} text-neutral-500 hover:text-red-400`}
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+
+              {removing?.index === index && (
+                <div className="ml-6 mt-1 mb-2 flex items-center gap-2 text-xs text-neutral-400 bg-red-900/10 border border-red-900/40 rounded px-2 py-1.5">
+                  <span>Move {cueCount(index)} cues to</span>
+                  <select
+                    value={removing.target}
+                    onChange={(e) => setRemoving({ index, target: Number(e.target.value) })}
+                    className="bg-neutral-800 rounded px-2 py-1 text-white focus:outline-none"
+                  >
+                    {lanes.map((l, i) => i !== index && <option key={l.id} value={i}>{l.name}</option>)}
+                  </select>
+                  <button
+                    onClick={() => { onRemoveLane(index, removing.target); setRemoving(null); }}
+                    className="ml-auto px-2 py-1 bg-red-600 hover:bg-red-500 text-white rounded transition-colors"
+                  >
+                    Remove Lane
+                  </button>
+                  <button onClick={() => setRemoving(null)} className="px-2 py-1 text-neutral-500 hover:text-white transition-colors">
+                    Cancel
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+
+          <button onClick={onAddLane} className="mt-3 flex items-center gap-1 text-xs text-blue-400 hover:text-blue-300 transition-colors">
+            <Plus size={12} /> Add Lane
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
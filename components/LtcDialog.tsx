@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { TimeFormatOptions } from '../types';
+import { LTC_FORMATS, LtcSettings, renderLtcFor } from '../utils/ltc';
+import { TIMECODE_FORMATS } from '../utils/timecode';
+import { encodeWav, WavBitDepth } from '../utils/wav';
+import { TimeInput } from './TimeInput';
+import { Download, Radio, X } from 'lucide-react';
+
+interface LtcDialogProps {
+  settings: LtcSettings;
+  timeFormat: TimeFormatOptions;
+  audioBuffer: AudioBuffer | null;
+  fileName: string | null;
+  outputChannels: number; // Channels the audio output can address
+  onChange: (settings: LtcSettings) => void;
+  onClose: () => void;
+}
+
+type ExportMode = 'ltc' | 'withProgram';
+
+export const LtcDialog: React.FC<LtcDialogProps> = ({ settings, timeFormat, audioBuffer, fileName, outputChannels, onChange, onClose }) => {
+  const [exportMode, setExportMode] = useState<ExportMode>('ltc');
+  const [bitDepth, setBitDepth] = useState<WavBitDepth>(24);
+  // The start is a show time in the LTC's own rate, entered without the project offset
+  const startFormat = { ...timeFormat, timecode: { format: settings.format, startOffset: 0 } };
+  const channelCount = Math.max(2, outputChannels);
+
+  const handleExport = () => {
+    if (!audioBuffer) return;
+    try {
+      const ltc = renderLtcFor(settings, audioBuffer.length, audioBuffer.sampleRate);
+      const program = Array.from({ length: audioBuffer.numberOfChannels }, (_, i) => audioBuffer.getChannelData(i));
+      const blob = encodeWav(exportMode === 'ltc' ? [ltc] : [...program, ltc], audioBuffer.sampleRate, bitDepth);
+
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${fileName?.replace(/\.[^/.]+$/, '') || 'audio'}_ltc.wav`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error("Error rendering LTC", err);
+      alert("Failed to render the LTC track.");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center" onMouseDown={onClose}>
+      <div
+        className="w-[440px] flex flex-col bg-neutral-950 border border-neutral-800 rounded-lg shadow-2xl"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-neutral-800 flex items-center justify-between">
+          <h2 className="text-sm font-bold text-white uppercase tracking-wider flex items-center gap-2">
+            <Radio size={14} className="text-neutral-500" />
+            LTC Timecode
+          </h2>
+          <button onClick={onClose} className="p-1 text-neutral-500 hover:text-white transition-colors">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <div>
+            <div className="text-[10px] text-neutral-500 uppercase tracking-widest mb-2">Frame Rate</div>
+            <div className="grid grid-cols-4 gap-1">
+              {TIMECODE_FORMATS.filter(f => LTC_FORMATS.includes(f.value)).map(({ value, label }) => (
+                <button
+                  key={value}
+                  onClick={() => onChange({ ...settings, format: value })}
+                  className={`px-2 py-1.5 rounded text-xs font-mono transition-colors ${settings.format === value ? 'bg-neutral-800 text-green-400' : 'text-neutral-400 hover:text-white hover:bg-neutral-900'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <div className="text-[10px] text-neutral-500 uppercase tracking-widest mb-2">Start</div>
+              <TimeInput
+                value={settings.start}
+                timeFormat={startFormat}
+                onCommit={(start) => onChange({ ...settings, start })}
+                className="text-xs w-32"
+                title="Timecode at the first sample of the audio"
+              />
+            </div>
+            <div>
+              <div className="text-[10px] text-neutral-500 uppercase tracking-widest mb-2">Level</div>
+              <div className="flex items-center gap-2">
+                <input
+                  type="range"
+                  min={-30}
+                  max={0}
+                  step={1}
+                  value={settings.levelDb}
+                  onChange={(e) => onChange({ ...settings, levelDb: Number(e.target.value) })}
+                  className="flex-1 accent-green-500"
+                />
+                <span className="text-xs font-mono text-neutral-400 w-14 text-right">{settings.levelDb} dBFS</span>
+              </div>
+            </div>
+          </div>
+          <div className="text-[11px] text-neutral-600">
+            Follows the project timecode until changed here. Frames start exactly on the first sample.
+          </div>
+
+          <div className="pt-4 border-t border-neutral-800">
+            <div className="text-[10px] text-neutral-500 uppercase tracking-widest mb-2">Export WAV</div>
+            <div className="flex items-center gap-2">
+              <select
+                value={exportMode}
+                onChange={(e) => setExportMode(e.target.value as ExportMode)}
+                className="bg-neutral-900 border border-neutral-800 rounded px-2 py-1 text-xs text-neutral-300 focus:outline-none focus:border-neutral-600"
+              >
+                <option value="ltc">LTC only (mono)</option>
+                <option value="withProgram">Program + LTC (last channel)</option>
+              </select>
+              <select
+                value={bitDepth}
+                onChange={(e) => setBitDepth(Number(e.target.value) as WavBitDepth)}
+                className="bg-neutral-900 border border-neutral-800 rounded px-2 py-1 text-xs text-neutral-300 focus:outline-none focus:border-neutral-600"
+              >
+                <option value={16}>16-bit</option>
+                <option value={24}>24-bit</option>
+              </select>
+              <button
+                onClick={handleExport}
+                disabled={!audioBuffer}
+                className="ml-auto flex items-center gap-1.5 px-3 py-1 rounded bg-neutral-800 text-xs text-white hover:bg-neutral-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+              >
+                <Download size={12} />
+                Export
+              </button>
+            </div>
+            {audioBuffer && (
+              <div className="mt-2 text-[11px] text-neutral-600">
+                {audioBuffer.duration.toFixed(2)}s at {audioBuffer.sampleRate} Hz, sample-aligned with the loaded audio.
+              </div>
+            )}
+          </div>
+
+          <div className="pt-4 border-t border-neutral-800">
+            <div className="text-[10px] text-neutral-500 uppercase tracking-widest mb-2">Live Output</div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => onChange({ ...settings, liveChannel: settings.liveChannel === null ? channelCount - 1 : null })}
+                className={`px-3 py-1 rounded text-xs font-bold transition-colors ${settings.liveChannel !== null ? 'bg-green-900/50 text-green-400' : 'bg-neutral-800 text-neutral-400 hover:text-white'}`}
+              >
+                {settings.liveChannel !== null ? 'ON' : 'OFF'}
+              </button>
+              <select
+                value={settings.liveChannel ?? channelCount - 1}
+                disabled={settings.liveChannel === null}
+                onChange={(e) => onChange({ ...settings, liveChannel: Number(e.target.value) })}
+                className="bg-neutral-900 border border-neutral-800 rounded px-2 py-1 text-xs text-neutral-300 focus:outline-none focus:border-neutral-600 disabled:opacity-40"
+              >
+                {Array.from({ length: channelCount }, (_, i) => (
+                  <option key={i} value={i}>Output {i + 1}</option>
+                ))}
+              </select>
+            </div>
+            <div className="mt-2 text-[11px] text-neutral-600">
+              Plays LTC on one output channel alongside the audio; the program is removed from that channel.
+              {outputChannels <= 2 && ' This output only has two channels, so the LTC takes one side of the stereo pair.'}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
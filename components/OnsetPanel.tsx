@@ -0,0 +1,149 @@
+import React from 'react';
+import { SuggestionSource } from '../hooks/useOnsetDetection';
+import { Lane } from '../types';
+import { Sparkles, X, Check, Music2 } from 'lucide-react';
+
+interface OnsetPanelProps {
+  progress: number | null;
+  hasAnalysis: boolean;
+  bpm: number | null;
+  suggestionCount: number;
+  source: SuggestionSource;
+  sensitivity: number;
+  minSpacing: number;
+  targetRow: number;
+  lanes: Lane[];
+  onAnalyze: () => void;
+  onSourceChange: (source: SuggestionSource) => void;
+  onSensitivityChange: (value: number) => void;
+  onMinSpacingChange: (value: number) => void;
+  onTargetRowChange: (row: number) => void;
+  onAcceptAll: () => void;
+  onApplyTempo: () => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+export const OnsetPanel: React.FC<OnsetPanelProps> = ({
+  progress,
+  hasAnalysis,
+  bpm,
+  suggestionCount,
+  source,
+  sensitivity,
+  minSpacing,
+  targetRow,
+  lanes,
+  onAnalyze,
+  onSourceChange,
+  onSensitivityChange,
+  onMinSpacingChange,
+  onTargetRowChange,
+  onAcceptAll,
+  onApplyTempo,
+  onClear,
+  onClose,
+}) => {
+  const isAnalyzing = progress !== null;
+
+  return (
+    <div className="fixed right-6 bottom-6 z-40 w-80 bg-neutral-950 border border-neutral-800 rounded-lg shadow-2xl">
+      <div className="p-3 border-b border-neutral-800 flex items-center justify-between">
+        <h3 className="text-sm font-bold text-white uppercase tracking-wider flex items-center gap-2">
+          <Sparkles size={14} className="text-neutral-500" />
+          Detect Cues
+        </h3>
+        <button onClick={onClose} className="p-1 text-neutral-500 hover:text-white transition-colors">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="p-3 space-y-3 text-xs">
+        <button
+          onClick={onAnalyze}
+          disabled={isAnalyzing}
+          className="w-full px-3 py-1.5 bg-blue-600 hover:bg-blue-500 text-white rounded font-medium transition-colors disabled:opacity-50"
+        >
+          {isAnalyzing ? `Analyzing… ${Math.round(progress * 100)}%` : hasAnalysis ? 'Re-analyze' : 'Analyze Audio'}
+        </button>
+
+        {hasAnalysis && (
+          <>
+            <div className="flex items-center justify-between font-mono text-neutral-400">
+              <span>TEMPO ≈ {bpm ? bpm.toFixed(1) : '—'} BPM</span>
+              <button
+                onClick={onApplyTempo}
+                disabled={!bpm}
+                className="flex items-center gap-1 text-blue-400 hover:text-blue-300 transition-colors disabled:opacity-30"
+                title="Use as project tempo map (first beat = first downbeat)"
+              >
+                <Music2 size={12} /> Apply
+              </button>
+            </div>
+
+            <div className="flex gap-1">
+              {(['onsets', 'beats'] as SuggestionSource[]).map(s => (
+                <button
+                  key={s}
+                  onClick={() => onSourceChange(s)}
+                  className={`flex-1 px-2 py-1 rounded font-mono uppercase transition-colors ${source === s ? 'bg-neutral-800 text-green-400' : 'text-neutral-500 hover:text-white'}`}
+                >
+                  {s}
+                </button>
+              ))}
+            </div>
+
+            {source === 'onsets' && (
+              <>
+                <label className="flex items-center gap-2 text-neutral-500">
+                  <span className="w-20">Sensitivity</span>
+                  <input
+                    type="range" min={0} max={1} step={0.01}
+                    value={sensitivity}
+                    onChange={(e) => onSensitivityChange(Number(e.target.value))}
+                    className="flex-1 h-1 bg-neutral-700 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:bg-white [&::-webkit-slider-thumb]:rounded-full"
+                  />
+                  <span className="w-8 text-right font-mono text-neutral-300">{Math.round(sensitivity * 100)}</span>
+                </label>
+                <label className="flex items-center gap-2 text-neutral-500">
+                  <span className="w-20">Min spacing</span>
+                  <input
+                    type="number" min={0} step={0.05}
+                    value={minSpacing}
+                    onChange={(e) => onMinSpacingChange(Math.max(0, Number(e.target.value) || 0))}
+                    className="flex-1 bg-neutral-800 rounded px-2 py-1 font-mono text-white focus:outline-none border border-transparent focus:border-blue-500"
+                  />
+                  <span className="font-mono text-neutral-600">s</span>
+                </label>
+              </>
+            )}
+
+            <label className="flex items-center gap-2 text-neutral-500">
+              <span className="w-20">Into lane</span>
+              <select
+                value={targetRow}
+                onChange={(e) => onTargetRowChange(Number(e.target.value))}
+                className="flex-1 bg-neutral-800 rounded px-2 py-1 font-mono text-white focus:outline-none"
+              >
+                {lanes.map((lane, i) => <option key={lane.id} value={i} disabled={lane.locked}>{lane.name}</option>)}
+              </select>
+            </label>
+
+            <div className="flex items-center gap-2 pt-1">
+              <span className="flex-1 font-mono text-neutral-400">{suggestionCount} suggested</span>
+              <button onClick={onClear} className="px-2 py-1 text-neutral-500 hover:text-white transition-colors">Clear</button>
+              <button
+                onClick={onAcceptAll}
+                disabled={suggestionCount === 0}
+                className="flex items-center gap-1 px-2 py-1 bg-green-600 hover:bg-green-500 text-white rounded transition-colors disabled:opacity-30"
+              >
+                <Check size={12} /> Accept All
+              </button>
+            </div>
+            <p className="text-[10px] text-neutral-600">Click a ghost marker on the timeline to accept it individually.</p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
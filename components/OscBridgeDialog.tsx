@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { OscBridgeSettings, OscBridgeStatus, DEFAULT_OSC_BRIDGE_SETTINGS, CUE_ADDRESS_TOKENS } from '../utils/oscBridge';
+import { Radio, X, RotateCcw } from 'lucide-react';
+
+interface OscBridgeDialogProps {
+  settings: OscBridgeSettings;
+  status: OscBridgeStatus;
+  onChange: (settings: OscBridgeSettings) => void;
+  onClose: () => void;
+}
+
+const inputClass = "bg-neutral-800 rounded px-2 py-1 text-xs font-mono text-white focus:outline-none border border-transparent focus:border-blue-500";
+
+const STATUS_STYLES: Record<OscBridgeStatus, string> = {
+  connected: 'text-green-400',
+  connecting: 'text-yellow-400',
+  disconnected: 'text-neutral-500',
+};
+
+type AddressKey = 'goAddress' | 'playAddress' | 'pauseAddress' | 'stopAddress' | 'heartbeatAddress' | 'playPauseCommand' | 'stopCommand' | 'seekCommand';
+
+const OUTGOING: { key: AddressKey; label: string; args: string }[] = [
+  { key: 'goAddress', label: 'Cue GO', args: 'index, label, lane, time' },
+  { key: 'playAddress', label: 'Play', args: 'time' },
+  { key: 'pauseAddress', label: 'Pause', args: 'time' },
+  { key: 'stopAddress', label: 'Stop', args: '' },
+  { key: 'heartbeatAddress', label: 'Heartbeat', args: 'time, playing' },
+];
+
+const INCOMING: { key: AddressKey; label: string; args: string }[] = [
+  { key: 'playPauseCommand', label: 'Play / Pause', args: '' },
+  { key: 'stopCommand', label: 'Stop', args: '' },
+  { key: 'seekCommand', label: 'Seek', args: 'seconds' },
+];
+
+export const OscBridgeDialog: React.FC<OscBridgeDialogProps> = ({ settings, status, onChange, onClose }) => {
+  // Reconnecting on every keystroke would be noisy, so the URL commits on blur
+  const [urlDraft, setUrlDraft] = useState(settings.url);
+
+  const update = (changes: Partial<OscBridgeSettings>) => onChange({ ...settings, ...changes });
+
+  const commitUrl = () => {
+    const url = urlDraft.trim();
+    if (url && url !== settings.url) update({ url });
+    else setUrlDraft(settings.url);
+  };
+
+  const renderRows = (rows: typeof OUTGOING) => rows.map(({ key, label, args }) => (
+    <div key={key} className="flex items-center gap-2 py-1 text-xs">
+      <span className="w-24 text-neutral-300">{label}</span>
+      <input
+        className={`${inputClass} flex-1`}
+        value={settings[key]}
+        onChange={(e) => update({ [key]: e.target.value })}
+      />
+      <span className="w-28 text-[10px] font-mono text-neutral-600 truncate" title={args}>{args}</span>
+    </div>
+  ));
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center" onMouseDown={onClose}>
+      <div
+        className="w-[560px] max-h-[80vh] flex flex-col bg-neutral-950 border border-neutral-800 rounded-lg shadow-2xl"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-neutral-800 flex items-center justify-between">
+          <h2 className="text-sm font-bold text-white uppercase tracking-wider flex items-center gap-2">
+            <Radio size={14} className="text-neutral-500" />
+            OSC Bridge
+          </h2>
+          <button onClick={onClose} className="p-1 text-neutral-500 hover:text-white transition-colors">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-4 space-y-4">
+          <div className="space-y-2">
+            <div className="flex items-center gap-2 text-xs">
+              <label className="flex items-center gap-2 text-neutral-300">
+                <input type="checkbox" checked={settings.enabled} onChange={(e) => update({ enabled: e.target.checked })} />
+                Connect to bridge
+              </label>
+              <span className={`ml-auto font-mono uppercase ${STATUS_STYLES[status]}`}>{status}</span>
+            </div>
+            <input
+              className={`${inputClass} w-full`}
+              value={urlDraft}
+              onChange={(e) => setUrlDraft(e.target.value)}
+              onBlur={commitUrl}
+              onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+              placeholder="ws://localhost:8081"
+            />
+            <div className="text-[11px] text-neutral-600">
+              Start the bridge with <span className="font-mono text-neutral-400">npm run bridge -- --send host:port</span>. Cue GO messages are only sent while show control is ARMED.
+            </div>
+          </div>
+
+          <div>
+            <div className="text-[10px] text-neutral-500 uppercase tracking-widest mb-1">Outgoing</div>
+            {renderRows(OUTGOING)}
+            <div className="text-[11px] text-neutral-600 mt-1">
+              Cue GO tokens: <span className="font-mono text-neutral-400">{CUE_ADDRESS_TOKENS.join(' ')}</span>
+            </div>
+            <label className="flex items-center gap-2 py-1 mt-2 text-xs text-neutral-400">
+              <span className="flex-1">Heartbeat interval (0 = off)</span>
+              <input
+                type="number" min={0} step={50}
+                value={settings.heartbeatMs}
+                onChange={(e) => update({ heartbeatMs: Math.max(0, Number(e.target.value) || 0) })}
+                className={`${inputClass} w-20 text-right`}
+              />
+              <span className="font-mono text-neutral-600">ms</span>
+            </label>
+          </div>
+
+          <div>
+            <div className="text-[10px] text-neutral-500 uppercase tracking-widest mb-1">Incoming Commands</div>
+            {renderRows(INCOMING)}
+          </div>
+
+          <button
+            onClick={() => {
+              onChange({ ...DEFAULT_OSC_BRIDGE_SETTINGS, enabled: settings.enabled });
+              setUrlDraft(DEFAULT_OSC_BRIDGE_SETTINGS.url);
+            }}
+            className="flex items-center gap-1 text-xs text-neutral-500 hover:text-white transition-colors"
+          >
+            <RotateCcw size={12} /> Reset to defaults
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
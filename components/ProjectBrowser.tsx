@@ -0,0 +1,162 @@
+import React, { useEffect, useState, useCallback } from 'react';
+import { ProjectRecord } from '../types';
+import { formatTime } from '../utils/audioUtils';
+import { listProjects, duplicateProject, renameProject, deleteProject } from '../utils/projectStore';
+import { FolderOpen, Copy, Pencil, Trash2, X, Check } from 'lucide-react';
+
+interface ProjectBrowserProps {
+  currentProjectId: string | null;
+  onOpen: (id: string) => void;
+  onDeleted: (id: string) => void;
+  onClose: () => void;
+}
+
+export const ProjectBrowser: React.FC<ProjectBrowserProps> = ({
+  currentProjectId,
+  onOpen,
+  onDeleted,
+  onClose,
+}) => {
+  const [projects, setProjects] = useState<ProjectRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+
+  const refresh = useCallback(async () => {
+    try {
+      setProjects(await listProjects());
+    } catch (err) {
+      console.error("Error listing projects", err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleDuplicate = async (id: string) => {
+    try {
+      await duplicateProject(id);
+    } catch (err) {
+      console.error("Error duplicating project", err);
+      alert("Failed to duplicate project.");
+    }
+    refresh();
+  };
+
+  const handleRenameCommit = async () => {
+    if (renamingId && renameValue.trim()) {
+      try {
+        await renameProject(renamingId, renameValue.trim());
+      } catch (err) {
+        console.error("Error renaming project", err);
+        alert("Failed to rename project.");
+      }
+      refresh();
+    }
+    setRenamingId(null);
+  };
+
+  const handleDelete = async (project: ProjectRecord) => {
+    if (!confirm(`Delete "${project.name}"? This cannot be undone.`)) return;
+    try {
+      await deleteProject(project.id);
+    } catch (err) {
+      console.error("Error deleting project", err);
+      alert("Failed to delete project.");
+      return;
+    }
+    onDeleted(project.id);
+    refresh();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center" onMouseDown={onClose}>
+      <div
+        className="w-[640px] max-h-[80vh] flex flex-col bg-neutral-950 border border-neutral-800 rounded-lg shadow-2xl"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-neutral-800 flex items-center justify-between">
+          <h2 className="text-sm font-bold text-white uppercase tracking-wider flex items-center gap-2">
+            <FolderOpen size={14} className="text-neutral-500" />
+            Saved Projects
+          </h2>
+          <button onClick={onClose} className="p-1 text-neutral-500 hover:text-white transition-colors">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto">
+          {loading && <div className="p-8 text-center text-neutral-600 text-sm">Loading…</div>}
+          {!loading && projects.length === 0 && (
+            <div className="p-8 text-center text-neutral-600 text-sm">No saved projects yet. Load an audio file to start one.</div>
+          )}
+          {projects.map(project => {
+            const isCurrent = project.id === currentProjectId;
+            return (
+              <div
+                key={project.id}
+                className={`flex items-center gap-4 px-4 py-3 border-b border-neutral-900 group ${isCurrent ? 'bg-blue-900/20' : 'hover:bg-neutral-900'}`}
+              >
+                <div className="flex-1 min-w-0">
+                  {renamingId === project.id ? (
+                    <input
+                      autoFocus
+                      className="bg-neutral-800 rounded px-2 py-1 text-sm text-white focus:outline-none w-full border border-blue-500"
+                      value={renameValue}
+                      onChange={(e) => setRenameValue(e.target.value)}
+                      onBlur={handleRenameCommit}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') handleRenameCommit();
+                        if (e.key === 'Escape') setRenamingId(null);
+                      }}
+                    />
+                  ) : (
+                    <div className="text-sm font-medium text-white truncate">
+                      {project.name}
+                      {isCurrent && <span className="ml-2 text-[10px] text-blue-400 uppercase tracking-widest">Open</span>}
+                    </div>
+                  )}
+                  <div className="text-xs font-mono text-neutral-500 truncate">
+                    {project.fileName} · {formatTime(project.duration)} · {project.cues.length} cues · {new Date(project.updatedAt).toLocaleString()}
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-1">
+                  {renamingId === project.id ? (
+                    <button onMouseDown={(e) => e.preventDefault()} onClick={handleRenameCommit} className="p-2 rounded text-green-400 hover:bg-neutral-800" title="Save name">
+                      <Check size={14} />
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => { setRenamingId(project.id); setRenameValue(project.name); }}
+                      className="p-2 rounded text-neutral-500 hover:text-white hover:bg-neutral-800 transition-colors"
+                      title="Rename"
+                    >
+                      <Pencil size={14} />
+                    </button>
+                  )}
+                  <button onClick={() => handleDuplicate(project.id)} className="p-2 rounded text-neutral-500 hover:text-white hover:bg-neutral-800 transition-colors" title="Duplicate">
+                    <Copy size={14} />
+                  </button>
+                  <button onClick={() => handleDelete(project)} className="p-2 rounded text-neutral-500 hover:text-red-400 hover:bg-red-900/20 transition-colors" title="Delete">
+                    <Trash2 size={14} />
+                  </button>
+                  <button
+                    onClick={() => onOpen(project.id)}
+                    disabled={isCurrent}
+                    className="ml-2 px-3 py-1.5 bg-blue-600 hover:bg-blue-500 text-white rounded font-medium text-xs transition-colors disabled:opacity-30 disabled:pointer-events-none"
+                  >
+                    Open
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,186 @@
+import React, { useEffect, useState } from 'react';
+import { ProjectRecord, Setlist } from '../types';
+import { formatTime } from '../utils/audioUtils';
+import { listProjects } from '../utils/projectStore';
+import { SETLIST_ADVANCE_OPTIONS, moveSetlistEntry } from '../utils/setlist';
+import { SHOW_FILE_EXTENSION } from '../utils/showBundle';
+import { ListMusic, X, Plus, Trash2, ChevronUp, ChevronDown, SkipBack, SkipForward, FileDown, FileUp, ListPlus } from 'lucide-react';
+
+interface SetlistPanelProps {
+  setlist: Setlist;
+  currentProjectId: string | null;
+  busy: string | null; // Progress message while songs are being added, exported or imported
+  refreshKey: unknown; // Changes whenever project records may have changed (autosave, rename…)
+  onChange: (setlist: Setlist) => void;
+  onOpen: (projectId: string) => void;
+  onPrevious: () => void;
+  onNext: () => void;
+  onAddFiles: (files: File[]) => void;
+  onAddCurrent: () => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+  onClose: () => void;
+}
+
+const iconButton = "p-1 rounded transition-colors disabled:opacity-30 disabled:pointer-events-none";
+const footerButton = "flex items-center gap-1.5 px-2 py-1.5 rounded text-xs text-neutral-400 hover:text-white hover:bg-neutral-900 transition-colors disabled:opacity-30 disabled:pointer-events-none";
+
+export const SetlistPanel: React.FC<SetlistPanelProps> = ({
+  setlist,
+  currentProjectId,
+  busy,
+  refreshKey,
+  onChange,
+  onOpen,
+  onPrevious,
+  onNext,
+  onAddFiles,
+  onAddCurrent,
+  onExport,
+  onImport,
+  onClose,
+}) => {
+  const [projects, setProjects] = useState<Map<string, ProjectRecord>>(new Map());
+  const [nameDraft, setNameDraft] = useState<string | null>(null);
+
+  useEffect(() => {
+    listProjects()
+      .then(list => setProjects(new Map(list.map(p => [p.id, p]))))
+      .catch(err => console.error("Error listing projects", err));
+  }, [setlist, refreshKey]);
+
+  const currentIndex = setlist.entries.findIndex(e => e.projectId === currentProjectId);
+  const totalDuration = setlist.entries.reduce((sum, e) => sum + (projects.get(e.projectId)?.duration ?? 0), 0);
+
+  const commitName = () => {
+    if (nameDraft !== null && nameDraft.trim() && nameDraft.trim() !== setlist.name) {
+      onChange({ ...setlist, name: nameDraft.trim() });
+    }
+    setNameDraft(null);
+  };
+
+  return (
+    <div className="h-full flex flex-col bg-neutral-950 border-r border-neutral-800">
+      <div className="p-3 border-b border-neutral-800 flex items-center justify-between bg-black shrink-0">
+        <h3 className="text-sm font-bold text-white uppercase tracking-wider flex items-center gap-2">
+          <ListMusic size={14} className="text-neutral-500" />
+          Setlist
+        </h3>
+        <button onClick={onClose} className="p-1 text-neutral-500 hover:text-white transition-colors">
+          <X size={14} />
+        </button>
+      </div>
+
+      <div className="p-3 border-b border-neutral-800 space-y-2 shrink-0">
+        <input
+          className="w-full bg-transparent text-sm font-medium text-white rounded px-1 py-0.5 focus:outline-none focus:bg-neutral-800 border border-transparent focus:border-blue-500"
+          value={nameDraft ?? setlist.name}
+          onFocus={() => setNameDraft(setlist.name)}
+          onChange={(e) => setNameDraft(e.target.value)}
+          onBlur={commitName}
+          onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+        />
+        <div className="flex items-center gap-2">
+          <button onClick={onPrevious} disabled={currentIndex <= 0} title="Previous song" className={`${iconButton} text-neutral-400 hover:text-white`}>
+            <SkipBack size={14} />
+          </button>
+          <button onClick={onNext} disabled={currentIndex === -1 || currentIndex >= setlist.entries.length - 1} title="Next song" className={`${iconButton} text-neutral-400 hover:text-white`}>
+            <SkipForward size={14} />
+          </button>
+          <select
+            value={setlist.advance}
+            onChange={(e) => onChange({ ...setlist, advance: e.target.value as Setlist['advance'] })}
+            title="What happens when a song plays to the end"
+            className="ml-auto bg-neutral-800 text-xs text-neutral-300 rounded px-1.5 py-1 focus:outline-none"
+          >
+            {SETLIST_ADVANCE_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+          </select>
+        </div>
+        <div className="text-[10px] font-mono text-neutral-500">
+          {setlist.entries.length} songs · {formatTime(totalDuration)}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto">
+        {setlist.entries.length === 0 && (
+          <div className="p-6 text-center text-neutral-600 text-xs">No songs yet. Add audio files to build the running order.</div>
+        )}
+        {setlist.entries.map((entry, index) => {
+          const project = projects.get(entry.projectId);
+          const isCurrent = index === currentIndex;
+          return (
+            <div
+              key={entry.id}
+              onClick={() => project && !isCurrent && onOpen(entry.projectId)}
+              className={`flex items-center gap-2 px-3 py-2 border-b border-neutral-900 group text-xs ${isCurrent ? 'bg-blue-900/20' : project ? 'hover:bg-neutral-900 cursor-pointer' : ''}`}
+            >
+              <span className={`w-5 font-mono text-right ${isCurrent ? 'text-blue-400' : 'text-neutral-600'}`}>{index + 1}</span>
+              <div className="flex-1 min-w-0">
+                <div className={`truncate ${project ? 'text-neutral-200' : 'text-red-400 italic'}`}>{project?.name ?? 'Missing project'}</div>
+                {project && (
+                  <div className="font-mono text-[10px] text-neutral-500">{formatTime(project.duration)} · {project.cues.length} cues</div>
+                )}
+              </div>
+              <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity" onClick={(e) => e.stopPropagation()}>
+                <div className="flex flex-col">
+                  <button onClick={() => onChange(moveSetlistEntry(setlist, index, index - 1))} disabled={index === 0} className={`${iconButton} text-neutral-500 hover:text-white p-0`}>
+                    <ChevronUp size={12} />
+                  </button>
+                  <button onClick={() => onChange(moveSetlistEntry(setlist, index, index + 1))} disabled={index === setlist.entries.length - 1} className={`${iconButton} text-neutral-500 hover:text-white p-0`}>
+                    <ChevronDown size={12} />
+                  </button>
+                </div>
+                <button
+                  onClick={() => onChange({ ...setlist, entries: setlist.entries.filter(e => e.id !== entry.id) })}
+                  title="Remove from setlist (the project is kept)"
+                  className={`${iconButton} text-neutral-500 hover:text-red-400`}
+                >
+                  <Trash2 size={12} />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="p-2 border-t border-neutral-800 shrink-0 space-y-1">
+        {busy && <div className="px-2 py-1 text-[11px] text-yellow-400 font-mono">{busy}</div>}
+        <div className="flex flex-wrap gap-1">
+          <label className={`${footerButton} cursor-pointer ${busy ? 'opacity-30 pointer-events-none' : ''}`}>
+            <Plus size={12} /> Songs
+            <input
+              type="file" accept="audio/*" multiple className="hidden"
+              onChange={(e) => {
+                const files = Array.from(e.target.files ?? []);
+                e.target.value = '';
+                if (files.length) onAddFiles(files);
+              }}
+            />
+          </label>
+          <button
+            onClick={onAddCurrent}
+            disabled={!!busy || !currentProjectId || currentIndex !== -1}
+            title="Add the open project to the setlist"
+            className={footerButton}
+          >
+            <ListPlus size={12} /> Current
+          </button>
+          <button onClick={onExport} disabled={!!busy || setlist.entries.length === 0} title="Export the whole show (audio and cues)" className={footerButton}>
+            <FileDown size={12} /> Export
+          </button>
+          <label className={`${footerButton} cursor-pointer ${busy ? 'opacity-30 pointer-events-none' : ''}`} title="Import a whole show">
+            <FileUp size={12} /> Import
+            <input
+              type="file" accept={SHOW_FILE_EXTENSION} className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) onImport(file);
+              }}
+            />
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+};
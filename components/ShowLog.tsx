@@ -0,0 +1,53 @@
+import React from 'react';
+import { ActionLogEntry, ActionLogStatus } from '../utils/showControl';
+import { formatTime } from '../utils/audioUtils';
+import { ScrollText, X } from 'lucide-react';
+
+interface ShowLogProps {
+  log: ActionLogEntry[];
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<ActionLogStatus, string> = {
+  waiting: 'text-yellow-400',
+  sent: 'text-blue-400',
+  ok: 'text-green-400',
+  error: 'text-red-400',
+  cancelled: 'text-neutral-500',
+};
+
+export const ShowLog: React.FC<ShowLogProps> = ({ log, onClear, onClose }) => (
+  <div className="h-full flex flex-col bg-neutral-950 border-t border-l border-neutral-800">
+    <div className="p-3 border-b border-neutral-800 flex items-center justify-between bg-black shrink-0">
+      <h3 className="text-sm font-bold text-white uppercase tracking-wider flex items-center gap-2">
+        <ScrollText size={14} className="text-neutral-500" />
+        Show Log
+      </h3>
+      <div className="flex items-center gap-2">
+        <button onClick={onClear} className="text-xs text-neutral-500 hover:text-white transition-colors">Clear</button>
+        <button onClick={onClose} className="p-1 text-neutral-500 hover:text-white transition-colors">
+          <X size={14} />
+        </button>
+      </div>
+    </div>
+
+    <div className="flex-1 overflow-auto font-mono text-[11px]">
+      {log.length === 0 && (
+        <div className="p-6 text-center text-neutral-600 text-xs font-sans">Nothing fired yet. Arm show control and play through cues with actions.</div>
+      )}
+      {[...log].reverse().map(entry => (
+        <div key={entry.id} className="px-3 py-1.5 border-b border-neutral-900 flex gap-2">
+          <span className="text-neutral-600 shrink-0">{new Date(entry.at).toLocaleTimeString()}</span>
+          <span className={`w-16 shrink-0 uppercase ${STATUS_STYLES[entry.status]}`}>{entry.status}</span>
+          <div className="min-w-0">
+            <div className="text-neutral-300 truncate">
+              <span className="text-neutral-500">{formatTime(entry.cueTime)}</span> {entry.cueLabel} · <span className="text-blue-300">{entry.actionType.toUpperCase()}</span> {entry.summary}
+            </div>
+            {entry.detail && <div className={`truncate ${entry.status === 'error' ? 'text-red-400' : 'text-neutral-500'}`}>{entry.detail}</div>}
+          </div>
+        </div>
+      ))}
+    </div>
+  </div>
+);
@@ -0,0 +1,165 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Cue } from '../types';
+import { formatTime } from '../utils/audioUtils';
+import { sortCuesByTime } from '../utils/cueUtils';
+import { STAGE_CHANNEL, STAGE_TIMEOUT_MS, StageMessage, StageShow, StageTransport, getStageTime } from '../utils/stageSync';
+
+const UPCOMING_COUNT = 4;
+const FLASH_MS = 700;
+const WARN_SECONDS = 5;
+
+interface Flash {
+  color: string;
+  label: string;
+  at: number;
+}
+
+// Full-screen, read-only "NEXT: label in 00:12.40" display for a second window.
+// Everything comes from the editor window over a BroadcastChannel.
+export const StageView: React.FC = () => {
+  const [show, setShow] = useState<StageShow | null>(null);
+  const [transport, setTransport] = useState<StageTransport | null>(null);
+  const [lastMessageAt, setLastMessageAt] = useState(0);
+  const [now, setNow] = useState(() => Date.now());
+  const [laneFilter, setLaneFilter] = useState<number | null>(null);
+  const [flash, setFlash] = useState<Flash | null>(null);
+  const lastTimeRef = useRef<number | null>(null);
+  const lastMessageAtRef = useRef(lastMessageAt);
+  lastMessageAtRef.current = lastMessageAt;
+
+  useEffect(() => {
+    document.title = 'AudioCue Stage';
+    if (typeof BroadcastChannel === 'undefined') return;
+    const channel = new BroadcastChannel(STAGE_CHANNEL);
+    channel.onmessage = (e: MessageEvent<StageMessage>) => {
+      const message = e.data;
+      if (message?.type === 'show') setShow(message.show);
+      else if (message?.type === 'transport') setTransport(message.transport);
+      else if (message?.type === 'bye') {
+        setTransport(null);
+        setLastMessageAt(0);
+        return;
+      } else return;
+      setLastMessageAt(Date.now());
+    };
+    const hello = () => channel.postMessage({ type: 'hello' } satisfies StageMessage);
+    hello();
+    // Keep asking while unanswered, so a reloaded editor picks the display back up
+    const timer = window.setInterval(() => {
+      if (Date.now() - lastMessageAtRef.current > STAGE_TIMEOUT_MS) hello();
+    }, STAGE_TIMEOUT_MS);
+    return () => {
+      window.clearInterval(timer);
+      channel.close();
+    };
+  }, []);
+
+  useEffect(() => {
+    let frame = 0;
+    const tick = () => {
+      setNow(Date.now());
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, []);
+
+  const connected = !!show && !!transport && now - lastMessageAt < STAGE_TIMEOUT_MS;
+  const time = show && transport ? getStageTime(transport, now, show.duration) : 0;
+  const activeFilter = show && laneFilter !== null && laneFilter < show.lanes.length ? laneFilter : null;
+  const cues = show ? sortCuesByTime(activeFilter === null ? show.cues : show.cues.filter(c => c.row === activeFilter)) : [];
+  const laneColor = (cue: Cue) => show?.lanes[cue.row]?.color ?? cue.color;
+
+  // Flash the lane colour for cues crossed since the last frame (not for seeks or loop wraps)
+  useEffect(() => {
+    const last = lastTimeRef.current;
+    lastTimeRef.current = time;
+    if (!transport?.playing || last === null || time <= last || time - last > 1) return;
+    const crossed = cues.filter(c => c.time > last && c.time <= time);
+    if (crossed.length) {
+      const cue = crossed[crossed.length - 1];
+      setFlash({ color: laneColor(cue), label: cue.label, at: Date.now() });
+    }
+    // Only movement of the playhead matters; the cue list is read fresh from this render
+  }, [time]);
+
+  if (!connected || !show) {
+    return (
+      <div className="h-screen w-screen bg-black text-neutral-500 flex flex-col items-center justify-center gap-2 select-none">
+        <div className="text-2xl font-bold uppercase tracking-widest">Stage Display</div>
+        <div className="text-sm">Waiting for the AudioCue editor…</div>
+      </div>
+    );
+  }
+
+  const nextIndex = cues.findIndex(c => c.time > time);
+  const nextCue = nextIndex !== -1 ? cues[nextIndex] : null;
+  const upcoming = nextIndex !== -1 ? cues.slice(nextIndex + 1, nextIndex + 1 + UPCOMING_COUNT) : [];
+  const countdown = nextCue ? nextCue.time - time : 0;
+  const flashOpacity = flash ? Math.max(0, 1 - (now - flash.at) / FLASH_MS) : 0;
+
+  return (
+    <div className="h-screen w-screen bg-black text-white flex flex-col overflow-hidden select-none relative">
+      {flashOpacity > 0 && flash && (
+        <div className="absolute inset-0 z-10 flex items-center justify-center pointer-events-none" style={{ backgroundColor: flash.color, opacity: flashOpacity * 0.85 }}>
+          <span className="text-8xl font-black text-black uppercase tracking-wider">{flash.label}</span>
+        </div>
+      )}
+
+      <div className="px-8 py-4 border-b border-neutral-800 flex items-center justify-between">
+        <div className="flex items-center gap-4 min-w-0">
+          <span className={`w-3 h-3 rounded-full shrink-0 ${transport!.playing ? 'bg-green-500' : 'bg-neutral-600'}`} />
+          <span className="text-xl font-medium text-neutral-300 truncate">{show.name ?? 'Untitled'}</span>
+        </div>
+        <div className="flex items-center gap-6">
+          <select
+            value={activeFilter ?? ''}
+            onChange={(e) => setLaneFilter(e.target.value === '' ? null : Number(e.target.value))}
+            className="bg-neutral-900 border border-neutral-800 rounded px-2 py-1 text-sm text-neutral-300 focus:outline-none"
+            title="Filter by lane"
+          >
+            <option value="">All lanes</option>
+            {show.lanes.map((lane, i) => <option key={lane.id} value={i}>{lane.name}</option>)}
+          </select>
+          <span className="text-3xl font-mono tabular-nums text-neutral-200">
+            {formatTime(time, { ...show.timeFormat, display: 'clock' })}
+          </span>
+        </div>
+      </div>
+
+      <div className="flex-1 flex flex-col items-center justify-center gap-6 px-8 min-h-0">
+        {nextCue ? (
+          <>
+            <div className="flex items-baseline gap-6 max-w-full">
+              <span className="text-4xl font-bold text-neutral-500">NEXT:</span>
+              <span className="text-7xl font-black truncate" style={{ color: laneColor(nextCue) }}>{nextCue.label}</span>
+            </div>
+            <div className="text-xl font-mono text-neutral-500 uppercase tracking-widest">
+              {show.lanes[nextCue.row]?.name ?? `Lane ${nextCue.row + 1}`}
+            </div>
+            <div className={`text-[10rem] leading-none font-mono font-light tabular-nums ${countdown < WARN_SECONDS ? 'text-yellow-400' : 'text-white'}`}>
+              in {formatTime(countdown)}
+            </div>
+          </>
+        ) : (
+          <div className="text-6xl font-bold text-neutral-600 uppercase tracking-widest">End of cues</div>
+        )}
+      </div>
+
+      {upcoming.length > 0 && (
+        <div className="border-t border-neutral-800 grid grid-cols-4 divide-x divide-neutral-800">
+          {upcoming.map(cue => (
+            <div key={cue.id} className="px-6 py-4 relative">
+              <div className="absolute left-0 top-0 bottom-0 w-1" style={{ backgroundColor: laneColor(cue) }} />
+              <div className="text-xs font-mono text-neutral-500 uppercase tracking-wider truncate">
+                {show.lanes[cue.row]?.name ?? `Lane ${cue.row + 1}`}
+              </div>
+              <div className="text-2xl font-bold truncate">{cue.label}</div>
+              <div className="text-lg font-mono tabular-nums text-neutral-400">in {formatTime(cue.time - time)}</div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
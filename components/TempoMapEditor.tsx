@@ -0,0 +1,212 @@
+import React from 'react';
+import { TempoMap, TempoChange, TimeDisplayMode } from '../types';
+import { formatTime } from '../utils/audioUtils';
+import { DEFAULT_TEMPO_MAP } from '../utils/tempo';
+import { Music2, Plus, Trash2, X, Crosshair } from 'lucide-react';
+
+interface TempoMapEditorProps {
+  tempoMap: TempoMap | null;
+  timeDisplay: TimeDisplayMode;
+  currentTime: number;
+  onChange: (tempoMap: TempoMap | null) => void;
+  onTimeDisplayChange: (display: TimeDisplayMode) => void;
+  onClose: () => void;
+}
+
+const BEAT_UNITS = [2, 4, 8, 16];
+const DISPLAY_OPTIONS: { value: TimeDisplayMode; label: string }[] = [
+  { value: 'clock', label: 'Clock' },
+  { value: 'bars', label: 'Bars' },
+  { value: 'both', label: 'Both' },
+];
+
+const inputClass = "bg-neutral-800 rounded px-2 py-1 text-xs font-mono text-white focus:outline-none border border-transparent focus:border-blue-500";
+
+const clampNumber = (value: string, min: number, max: number, fallback: number) => {
+  const n = Number(value);
+  return Number.isFinite(n) && value !== '' ? Math.max(min, Math.min(max, n)) : fallback;
+};
+
+export const TempoMapEditor: React.FC<TempoMapEditorProps> = ({
+  tempoMap,
+  timeDisplay,
+  currentTime,
+  onChange,
+  onTimeDisplayChange,
+  onClose,
+}) => {
+  const update = (changes: Partial<TempoMap>) => {
+    if (tempoMap) onChange({ ...tempoMap, ...changes });
+  };
+
+  const updateChange = (index: number, changes: Partial<TempoChange>) => {
+    if (!tempoMap) return;
+    update({ changes: tempoMap.changes.map((c, i) => i === index ? { ...c, ...changes } : c) });
+  };
+
+  const addChange = () => {
+    if (!tempoMap) return;
+    const lastBar = tempoMap.changes.reduce((max, c) => Math.max(max, c.bar), 1);
+    const last = tempoMap.changes.find(c => c.bar === lastBar) ?? tempoMap;
+    update({
+      changes: [...tempoMap.changes, { bar: lastBar + 4, bpm: last.bpm, beatsPerBar: last.beatsPerBar, beatUnit: last.beatUnit }],
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center" onMouseDown={onClose}>
+      <div
+        className="w-[520px] max-h-[80vh] flex flex-col bg-neutral-950 border border-neutral-800 rounded-lg shadow-2xl"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-neutral-800 flex items-center justify-between">
+          <h2 className="text-sm font-bold text-white uppercase tracking-wider flex items-center gap-2">
+            <Music2 size={14} className="text-neutral-500" />
+            Tempo Map
+          </h2>
+          <button onClick={onClose} className="p-1 text-neutral-500 hover:text-white transition-colors">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-4 space-y-4">
+          {!tempoMap ? (
+            <div className="text-center py-6">
+              <p className="text-sm text-neutral-500 mb-4">No tempo map. Add one to show bars and beats and snap to the beat.</p>
+              <button
+                onClick={() => onChange({ ...DEFAULT_TEMPO_MAP, offset: 0 })}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded font-medium text-xs transition-colors"
+              >
+                Create Tempo Map
+              </button>
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-3 gap-3">
+                <label className="flex flex-col gap-1 text-[10px] text-neutral-500 uppercase tracking-widest">
+                  BPM
+                  <input
+                    type="number" min={20} max={400} step={0.01}
+                    className={inputClass}
+                    value={tempoMap.bpm}
+                    onChange={(e) => update({ bpm: clampNumber(e.target.value, 20, 400, tempoMap.bpm) })}
+                  />
+                </label>
+                <label className="flex flex-col gap-1 text-[10px] text-neutral-500 uppercase tracking-widest">
+                  Time Signature
+                  <div className="flex items-center gap-1">
+                    <input
+                      type="number" min={1} max={16}
+                      className={`${inputClass} w-12`}
+                      value={tempoMap.beatsPerBar}
+                      onChange={(e) => update({ beatsPerBar: Math.round(clampNumber(e.target.value, 1, 16, tempoMap.beatsPerBar)) })}
+                    />
+                    <span className="text-neutral-600">/</span>
+                    <select
+                      className={inputClass}
+                      value={tempoMap.beatUnit}
+                      onChange={(e) => update({ beatUnit: Number(e.target.value) })}
+                    >
+                      {BEAT_UNITS.map(u => <option key={u} value={u}>{u}</option>)}
+                    </select>
+                  </div>
+                </label>
+                <label className="flex flex-col gap-1 text-[10px] text-neutral-500 uppercase tracking-widest">
+                  First Downbeat
+                  <div className="flex items-center gap-1">
+                    <input
+                      type="number" min={0} step={0.01}
+                      className={`${inputClass} w-full`}
+                      value={Number(tempoMap.offset.toFixed(3))}
+                      onChange={(e) => update({ offset: clampNumber(e.target.value, 0, Infinity, tempoMap.offset) })}
+                    />
+                    <button
+                      onClick={() => update({ offset: currentTime })}
+                      title={`Use playhead (${formatTime(currentTime)})`}
+                      className="p-1.5 rounded text-neutral-500 hover:text-white hover:bg-neutral-800 transition-colors"
+                    >
+                      <Crosshair size={12} />
+                    </button>
+                  </div>
+                </label>
+              </div>
+
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-[10px] text-neutral-500 uppercase tracking-widest">Tempo Changes</span>
+                  <button onClick={addChange} className="flex items-center gap-1 text-xs text-blue-400 hover:text-blue-300 transition-colors">
+                    <Plus size={12} /> Add
+                  </button>
+                </div>
+                {tempoMap.changes.length === 0 && (
+                  <div className="text-xs text-neutral-600">Constant tempo.</div>
+                )}
+                {tempoMap.changes.map((change, i) => (
+                  <div key={i} className="flex items-center gap-2 mb-1 text-xs text-neutral-500 font-mono">
+                    <span>BAR</span>
+                    <input
+                      type="number" min={2}
+                      className={`${inputClass} w-16`}
+                      value={change.bar}
+                      onChange={(e) => updateChange(i, { bar: Math.round(clampNumber(e.target.value, 2, 99999, change.bar)) })}
+                    />
+                    <input
+                      type="number" min={20} max={400} step={0.01}
+                      className={`${inputClass} w-20`}
+                      value={change.bpm}
+                      onChange={(e) => updateChange(i, { bpm: clampNumber(e.target.value, 20, 400, change.bpm) })}
+                    />
+                    <span>BPM</span>
+                    <input
+                      type="number" min={1} max={16}
+                      className={`${inputClass} w-12`}
+                      value={change.beatsPerBar}
+                      onChange={(e) => updateChange(i, { beatsPerBar: Math.round(clampNumber(e.target.value, 1, 16, change.beatsPerBar)) })}
+                    />
+                    <span>/</span>
+                    <select
+                      className={inputClass}
+                      value={change.beatUnit}
+                      onChange={(e) => updateChange(i, { beatUnit: Number(e.target.value) })}
+                    >
+                      {BEAT_UNITS.map(u => <option key={u} value={u}>{u}</option>)}
+                    </select>
+                    <button
+                      onClick={() => update({ changes: tempoMap.changes.filter((_, j) => j !== i) })}
+                      className="ml-auto p-1 text-neutral-500 hover:text-red-400 transition-colors"
+                    >
+                      <Trash2 size={12} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+
+              <button
+                onClick={() => onChange(null)}
+                className="text-xs text-red-400 hover:text-red-300 transition-colors"
+              >
+                Remove tempo map
+              </button>
+            </>
+          )}
+
+          <div className="pt-4 border-t border-neutral-800 flex items-center justify-between">
+            <span className="text-[10px] text-neutral-500 uppercase tracking-widest">Time Display</span>
+            <div className="flex gap-1">
+              {DISPLAY_OPTIONS.map(({ value, label }) => (
+                <button
+                  key={value}
+                  onClick={() => onTimeDisplayChange(value)}
+                  disabled={value !== 'clock' && !tempoMap}
+                  className={`px-3 py-1 rounded text-xs font-mono transition-colors disabled:opacity-30 ${timeDisplay === value ? 'bg-neutral-800 text-green-400' : 'text-neutral-400 hover:text-white'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+import { TimeFormatOptions } from '../types';
+import { formatTime, parseTime } from '../utils/audioUtils';
+
+interface TimeInputProps {
+  value: number; // Media time in seconds
+  timeFormat: TimeFormatOptions;
+  onCommit: (time: number) => void;
+  className?: string;
+  title?: string;
+}
+
+// Text field for a position in the project's timecode format. Keeps a draft while
+// focused and commits on Enter/blur; unreadable input reverts.
+export const TimeInput: React.FC<TimeInputProps> = ({ value, timeFormat, onCommit, className = '', title }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  const clockFormat = { ...timeFormat, display: 'clock' as const };
+  const invalid = draft !== null && parseTime(draft, clockFormat) === null;
+
+  const commit = () => {
+    if (draft !== null) {
+      const time = parseTime(draft, clockFormat);
+      if (time !== null && Math.abs(time - value) > 1e-9) onCommit(time);
+    }
+    setDraft(null);
+  };
+
+  return (
+    <input
+      className={`bg-neutral-800 rounded px-1 py-0.5 font-mono text-white focus:outline-none border ${invalid ? 'border-red-500' : 'border-transparent focus:border-blue-500'} ${className}`}
+      value={draft ?? formatTime(value, clockFormat)}
+      title={title}
+      onFocus={(e) => {
+        setDraft(formatTime(value, clockFormat));
+        e.target.select();
+      }}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') (e.target as HTMLInputElement).blur();
+        if (e.key === 'Escape') {
+          setDraft(null);
+          // Let the blur that follows see no draft
+          requestAnimationFrame(() => (e.target as HTMLInputElement).blur());
+        }
+      }}
+      onMouseDown={(e) => e.stopPropagation()}
+    />
+  );
+};
@@ -0,0 +1,94 @@
+import React from 'react';
+import { TimecodeSettings, TimeFormatOptions } from '../types';
+import { formatTime } from '../utils/audioUtils';
+import { TIMECODE_FORMATS } from '../utils/timecode';
+import { TimeInput } from './TimeInput';
+import { Clock, X } from 'lucide-react';
+
+interface TimecodeDialogProps {
+  timeFormat: TimeFormatOptions;
+  currentTime: number;
+  onChange: (timecode: TimecodeSettings) => void;
+  onClose: () => void;
+}
+
+const OFFSET_PRESETS = [
+  { label: '00:00:00:00', seconds: 0 },
+  { label: '01:00:00:00', seconds: 3600 },
+  { label: '10:00:00:00', seconds: 36000 },
+];
+
+export const TimecodeDialog: React.FC<TimecodeDialogProps> = ({ timeFormat, currentTime, onChange, onClose }) => {
+  const { timecode } = timeFormat;
+  // The offset is itself a show time, so it is entered without an offset applied
+  const offsetFormat = { ...timeFormat, timecode: { ...timecode, startOffset: 0 } };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center" onMouseDown={onClose}>
+      <div
+        className="w-[440px] flex flex-col bg-neutral-950 border border-neutral-800 rounded-lg shadow-2xl"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-neutral-800 flex items-center justify-between">
+          <h2 className="text-sm font-bold text-white uppercase tracking-wider flex items-center gap-2">
+            <Clock size={14} className="text-neutral-500" />
+            Timecode
+          </h2>
+          <button onClick={onClose} className="p-1 text-neutral-500 hover:text-white transition-colors">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <div>
+            <div className="text-[10px] text-neutral-500 uppercase tracking-widest mb-2">Format</div>
+            <div className="grid grid-cols-4 gap-1">
+              {TIMECODE_FORMATS.map(({ value, label }) => (
+                <button
+                  key={value}
+                  onClick={() => onChange({ ...timecode, format: value })}
+                  className={`px-2 py-1.5 rounded text-xs font-mono transition-colors ${timecode.format === value ? 'bg-neutral-800 text-green-400' : 'text-neutral-400 hover:text-white hover:bg-neutral-900'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            {timecode.format === 'samples' && (
+              <div className="mt-2 text-[11px] text-neutral-600">Counted at the playback rate of {timeFormat.sampleRate} Hz.</div>
+            )}
+          </div>
+
+          <div>
+            <div className="text-[10px] text-neutral-500 uppercase tracking-widest mb-2">Start Offset</div>
+            <div className="flex items-center gap-2">
+              <TimeInput
+                value={timecode.startOffset}
+                timeFormat={offsetFormat}
+                onCommit={(startOffset) => onChange({ ...timecode, startOffset })}
+                className="text-xs w-32"
+                title="Show time at the start of the audio"
+              />
+              {OFFSET_PRESETS.map(({ label, seconds }) => (
+                <button
+                  key={label}
+                  onClick={() => onChange({ ...timecode, startOffset: seconds })}
+                  className={`px-1.5 py-1 rounded text-[10px] font-mono transition-colors ${timecode.startOffset === seconds ? 'text-green-400' : 'text-neutral-500 hover:text-white'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <div className="mt-2 text-[11px] text-neutral-600">
+              Show time at the first sample of the audio. Cue times are shown and entered with the offset applied.
+            </div>
+          </div>
+
+          <div className="pt-4 border-t border-neutral-800 flex items-center justify-between text-xs">
+            <span className="text-neutral-500">Playhead</span>
+            <span className="font-mono text-white">{formatTime(currentTime, { ...timeFormat, display: 'clock' })}</span>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
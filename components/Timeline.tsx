@@ -1,7 +1,16 @@
-import React, { useRef, useEffect, useState, useMemo, useCallback } from 'react';
-import { Cue } from '../types';
+import React, { useRef, useEffect, useState, useCallback } from 'react';
+import { Cue, Lane, LoopRegion, WaveformDisplayMode, AmplitudeScale, TimelineViewMode, SpectrogramColorMap, FrequencyScale, TempoMap, TimeFormatOptions, SnapMode } from '../types';
 import { formatTime } from '../utils/audioUtils';
-import { Plus, GripVertical, Trash2, ZoomIn, ZoomOut, Crosshair } from 'lucide-react';
+import { TimeInput } from './TimeInput';
+import { isRangeCue, getCueEnd, sortCuesByTime, MIN_CUE_DURATION } from '../utils/cueUtils';
+import { layoutLanes, laneAtY, isLaneLocked } from '../utils/lanes';
+import { isValidLoop } from '../utils/playback';
+import { pickPeakLevel, getPeakRange, amplitudeToDbScale, PeakPyramid } from '../utils/peaks';
+import { pickHop, tileDuration, TILE_COLUMNS, TILE_ROWS, MAX_HOP } from '../utils/spectrogram';
+import { getBeatGrid, snapTime } from '../utils/tempo';
+import { usePeakPyramid } from '../hooks/usePeakPyramid';
+import { useSpectrogramTiles } from '../hooks/useSpectrogramTiles';
+import { Plus, GripVertical, Trash2, ZoomIn, ZoomOut, Crosshair, MoveHorizontal, Repeat, Lock, EyeOff, Zap } from 'lucide-react';
 
 interface TimelineProps {
   audioBuffer: AudioBuffer | null;
@@ -9,16 +18,54 @@ interface TimelineProps {
   duration: number;
   isPlaying: boolean;
   cues: Cue[];
+  lanes: Lane[];
+  onUpdateLane: (index: number, changes: Partial<Lane>) => void;
   waveformColor: string;
   onSeek: (time: number) => void;
   onAddCue: (time: number) => void;
   onUpdateCue: (id: string, updates: Partial<Cue>) => void;
   onDeleteCue: (id: string) => void;
+  onEditActions: (id: string) => void;
+  // Bracket a continuous edit (drag, typing) so it becomes a single undo step
+  onEditStart: () => void;
+  onEditEnd: () => void;
+  loopRegion: LoopRegion | null;
+  loopEnabled: boolean;
+  onLoopChange: (region: LoopRegion | null) => void;
+  selectedCueId: string | null;
+  onSelectCue: (id: string | null) => void;
+  tempoMap: TempoMap | null;
+  timeFormat: TimeFormatOptions;
+  // Suggested cue times from onset detection, shown in ghostRow until accepted
+  ghostMarkers: number[];
+  ghostRow: number;
+  onAcceptGhost: (time: number) => void;
+  // View state lives in App so keyboard shortcuts can drive it
+  zoom: number; // px per second
+  onZoomChange: (zoom: number) => void;
+  isFollowing: boolean;
+  onFollowChange: (following: boolean) => void;
 }
 
-const MIN_ZOOM = 10;
-const MAX_ZOOM = 600;
-const NUM_ROWS = 4;
+type CueDragMode = 'move' | 'start' | 'end';
+
+export const MIN_ZOOM = 10;
+const DEFAULT_SPAN = 2; // Seconds, when turning a point cue into a range
+const RULER_HEIGHT = 20;
+const SNAP_OPTIONS: { mode: Exclude<SnapMode, 'off'>; label: string; musical: boolean }[] = [
+    { mode: 'tenth', label: '0.1s', musical: false },
+    { mode: 'bar', label: 'BAR', musical: true },
+    { mode: 'beat', label: 'BEAT', musical: true },
+    { mode: 'half', label: '1/2', musical: true },
+    { mode: 'triplet', label: '1/3', musical: true },
+    { mode: 'quarter', label: '1/4', musical: true },
+];
+const DISPLAY_MODES: { mode: WaveformDisplayMode; label: string; title: string }[] = [
+    { mode: 'mono', label: 'SUM', title: 'Mono sum of all channels' },
+    { mode: 'stereo', label: 'L/R', title: 'Split left / right lanes' },
+    { mode: 'channels', label: 'ALL', title: 'One lane per channel' },
+];
+export const MAX_ZOOM = 600;
 const COLORS = [
     '#ef4444', // Red
     '#f97316', // Orange
@@ -36,26 +83,52 @@ export const Timeline: React.FC<TimelineProps> = ({
   duration,
   isPlaying,
   cues,
+  lanes,
+  onUpdateLane,
   waveformColor,
   onSeek,
   onAddCue,
   onUpdateCue,
   onDeleteCue,
+  onEditActions,
+  onEditStart,
+  onEditEnd,
+  loopRegion,
+  loopEnabled,
+  onLoopChange,
+  selectedCueId,
+  onSelectCue,
+  tempoMap,
+  timeFormat,
+  ghostMarkers,
+  ghostRow,
+  onAcceptGhost,
+  zoom,
+  onZoomChange,
+  isFollowing,
+  onFollowChange,
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   
   // View State
-  const [zoom, setZoom] = useState(100);
-  const [isFollowing, setIsFollowing] = useState(true);
   const [viewCenterTime, setViewCenterTime] = useState(0);
   
   // Interaction State
   const [draggingCueId, setDraggingCueId] = useState<string | null>(null);
+  const [dragMode, setDragMode] = useState<CueDragMode>('move');
+  const [dragGrabOffset, setDragGrabOffset] = useState(0);
   const [isPanning, setIsPanning] = useState(false);
   const [dragStartX, setDragStartX] = useState(0);
   const [dragStartTime, setDragStartTime] = useState(0);
   const [snapToGrid, setSnapToGrid] = useState(true);
+  const [snapResolution, setSnapResolution] = useState<Exclude<SnapMode, 'off'>>('tenth');
+  const [displayMode, setDisplayMode] = useState<WaveformDisplayMode>('mono');
+  const [amplitudeScale, setAmplitudeScale] = useState<AmplitudeScale>('linear');
+  const [viewMode, setViewMode] = useState<TimelineViewMode>('waveform');
+  const [colorMap, setColorMap] = useState<SpectrogramColorMap>('magma');
+  const [frequencyScale, setFrequencyScale] = useState<FrequencyScale>('log');
+  const [loopDragAnchor, setLoopDragAnchor] = useState<number | null>(null);
 
   // Sync view center with playback if following
   useEffect(() => {
@@ -64,32 +137,16 @@ export const Timeline: React.FC<TimelineProps> = ({
     }
   }, [currentTime, isFollowing]);
 
-  // Generate waveform data
-  const waveformPeaks = useMemo(() => {
-    if (!audioBuffer) return [];
-    
-    const samplesPerSecond = 200; 
-    const totalSamples = Math.ceil(duration * samplesPerSecond);
-    const channelData = audioBuffer.getChannelData(0);
-    const blockSize = Math.floor(channelData.length / totalSamples);
-    const peaks = new Float32Array(totalSamples);
-    
-    for (let i = 0; i < totalSamples; i++) {
-      const start = i * blockSize;
-      let sum = 0;
-      for (let j = 0; j < blockSize; j += 10) { 
-         sum += Math.abs(channelData[start + j]);
-      }
-      peaks[i] = sum / (blockSize / 10);
-    }
-    
-    let max = 0;
-    for(let i=0; i<peaks.length; i++) if(peaks[i] > max) max = peaks[i];
-    const multiplier = 1 / (max || 1);
-    for(let i=0; i<peaks.length; i++) peaks[i] *= multiplier;
+  // Waveform peaks (analyzed in a worker)
+  const { peaks, progress: analysisProgress } = usePeakPyramid(audioBuffer);
 
-    return peaks;
-  }, [audioBuffer, duration]);
+  // Spectrogram tiles (rendered in a worker, only while that view is active)
+  const { getTile, version: spectrogramVersion } = useSpectrogramTiles(
+    audioBuffer,
+    viewMode === 'spectrogram',
+    colorMap,
+    frequencyScale
+  );
 
   // Draw Waveform
   useEffect(() => {
@@ -111,11 +168,49 @@ export const Timeline: React.FC<TimelineProps> = ({
 
     ctx.clearRect(0, 0, width, height);
     
-    // Rows Background
-    const rowHeight = height / NUM_ROWS;
+    // Visible Time Range
+    const halfWindow = width / 2;
+    const centerT = viewCenterTime;
+    const startT = centerT - (halfWindow / zoom);
+    const endT = centerT + (halfWindow / zoom);
     
-    for(let i=1; i<NUM_ROWS; i++) {
-        const y = i * rowHeight;
+    // Spectrogram (Behind everything else)
+    if (viewMode === 'spectrogram') {
+        const hop = pickHop(audioBuffer.sampleRate / zoom);
+        const tileSeconds = tileDuration(hop, audioBuffer.sampleRate);
+        const firstTile = Math.max(0, Math.floor(startT / tileSeconds));
+        const lastTile = Math.floor(Math.min(duration, endT) / tileSeconds);
+
+        ctx.imageSmoothingEnabled = true;
+        ctx.globalAlpha = 0.8; // Keep rows and cues readable on top
+        for (let index = firstTile; index <= lastTile; index++) {
+            const x = (index * tileSeconds - startT) * zoom;
+            const w = tileSeconds * zoom;
+
+            // Fall back to (a slice of) a coarser cached tile until this one arrives
+            let h = hop;
+            let i = index;
+            let sx = 0;
+            let sw = TILE_COLUMNS;
+            while (h <= MAX_HOP) {
+                const tile = getTile(h, i, h === hop);
+                if (tile) {
+                    ctx.drawImage(tile, sx, 0, sw, TILE_ROWS, x, 0, w, height);
+                    break;
+                }
+                sx = (i % 2) * (TILE_COLUMNS / 2) + sx / 2;
+                sw /= 2;
+                i = Math.floor(i / 2);
+                h *= 2;
+            }
+        }
+        ctx.globalAlpha = 1;
+    }
+
+    // Lane separators
+    for (const lane of layoutLanes(lanes, height)) {
+        if (!lane || lane.top === 0) continue;
+        const y = lane.top;
         ctx.beginPath();
         ctx.strokeStyle = '#222';
         ctx.setLineDash([4, 4]);
@@ -126,95 +221,190 @@ export const Timeline: React.FC<TimelineProps> = ({
     }
     ctx.setLineDash([]); // Reset
 
-    const middle = height / 2;
-    const scaleY = height * 0.4; 
-
-    // Visible Time Range
-    const halfWindow = width / 2;
-    const centerT = viewCenterTime;
-    const startT = centerT - (halfWindow / zoom);
-    const endT = centerT + (halfWindow / zoom);
-    
-    const samplesPerSecond = 200; 
-    const startIdx = Math.floor(Math.max(0, startT) * samplesPerSecond);
-    const endIdx = Math.ceil(Math.min(duration, endT) * samplesPerSecond);
-
     // Grid / Time Ruler
-    let gridInterval = 1;
-    if (zoom > 200) gridInterval = 0.5;
-    if (zoom < 50) gridInterval = 5;
-    if (zoom < 20) gridInterval = 10;
+    ctx.font = '10px monospace';
+    ctx.textAlign = 'left';
+
+    const rulerFormat = { ...timeFormat, display: 'clock' as const };
+    if (tempoMap && timeFormat.display !== 'clock') {
+        // Bars and beats; beat lines only once they are far enough apart to read
+        const showBeats = (60 / tempoMap.bpm) * zoom >= 8;
+        for (const line of getBeatGrid(startT, endT, tempoMap)) {
+            if (!line.isBar && !showBeats) continue;
+            const x = (line.time - startT) * zoom;
+
+            ctx.fillStyle = line.isBar ? '#262626' : '#141414';
+            ctx.fillRect(x, 0, 1, height);
+
+            if (line.isBar) {
+                ctx.fillStyle = '#888';
+                ctx.fillText(String(line.bar), x + 4, height - 6);
+            }
+        }
+    } else {
+        let gridInterval = 1;
+        if (zoom > 200) gridInterval = 0.5;
+        if (zoom < 50) gridInterval = 5;
+        if (zoom < 20) gridInterval = 10;
 
-    const firstGrid = Math.floor(startT / gridInterval) * gridInterval;
-    
-    for (let t = firstGrid; t < endT; t += gridInterval) {
-        if (t < 0) continue;
-        const x = (t - startT) * zoom;
+        const firstGrid = Math.floor(startT / gridInterval) * gridInterval;
         
-        ctx.fillStyle = '#1a1a1a';
-        ctx.fillRect(x, 0, 1, height); // Vertical grid line
-        
-        ctx.fillStyle = '#666';
-        ctx.font = '10px monospace';
-        ctx.textAlign = 'left';
-        ctx.fillText(formatTime(t), x + 4, height - 6);
+        for (let t = firstGrid; t < endT; t += gridInterval) {
+            if (t < 0) continue;
+            const x = (t - startT) * zoom;
+            
+            ctx.fillStyle = '#1a1a1a';
+            ctx.fillRect(x, 0, 1, height); // Vertical grid line
+            
+            ctx.fillStyle = '#666';
+            ctx.fillText(formatTime(t, rulerFormat), x + 4, height - 6);
+        }
     }
     
     // Waveform (Behind Cues)
-    const gradient = ctx.createLinearGradient(0, middle - scaleY, 0, middle + scaleY);
-    gradient.addColorStop(0, '#00d2ff');   
-    gradient.addColorStop(0.5, '#3a7bd5'); 
-    gradient.addColorStop(1, '#00d2ff');   
-
-    ctx.beginPath();
-    ctx.strokeStyle = gradient;
-    ctx.globalAlpha = 0.4; // Fade waveform a bit to let rows be visible
-    ctx.lineWidth = Math.max(2, zoom / 50); 
-    ctx.lineCap = 'round';
-    ctx.lineJoin = 'round';
-
-    for (let i = startIdx; i < endIdx; i++) {
-        const t = i / samplesPerSecond;
-        const x = (t - startT) * zoom;
-        const y = waveformPeaks[i] * scaleY;
-        
-        ctx.moveTo(x, middle - y);
-        ctx.lineTo(x, middle + y);
+    if (viewMode === 'waveform' && peaks) {
+        // Pick the signals to draw, one lane each
+        const lanes: { pyramid: PeakPyramid; label: string | null }[] =
+            displayMode === 'mono' || peaks.channels.length === 1
+                ? [{ pyramid: peaks.sum, label: null }]
+                : displayMode === 'stereo'
+                    ? [{ pyramid: peaks.channels[0], label: 'L' }, { pyramid: peaks.channels[1], label: 'R' }]
+                    : peaks.channels.map((pyramid, i) => ({ pyramid, label: `CH ${i + 1}` }));
+
+        const laneHeight = height / lanes.length;
+        // Shared normalization so relative channel levels stay visible
+        const linearNorm = 1 / (Math.max(...lanes.map(l => l.pyramid.peak)) || 1);
+        const firstX = Math.max(0, Math.floor(-startT * zoom));
+        const lastX = Math.min(width, Math.ceil((duration - startT) * zoom));
+
+        lanes.forEach(({ pyramid, label }, laneIdx) => {
+            const middle = laneHeight * (laneIdx + 0.5);
+            const scaleY = laneHeight * 0.4;
+
+            const gradient = ctx.createLinearGradient(0, middle - scaleY, 0, middle + scaleY);
+            gradient.addColorStop(0, '#00d2ff');   
+            gradient.addColorStop(0.5, '#3a7bd5'); 
+            gradient.addColorStop(1, '#00d2ff');   
+
+            ctx.fillStyle = gradient;
+            ctx.globalAlpha = 0.4; // Fade waveform a bit to let rows be visible
+
+            // One min/max column per pixel, read from the level matching the zoom
+            const samplesPerPixel = pyramid.sampleRate / zoom;
+            const level = pickPeakLevel(pyramid, samplesPerPixel);
+
+            for (let x = firstX; x < lastX; x++) {
+                const s0 = (startT + x / zoom) * pyramid.sampleRate;
+                const range = getPeakRange(level, s0, s0 + samplesPerPixel);
+                if (!range) continue;
+                let top: number;
+                let bottom: number;
+                if (amplitudeScale === 'db') {
+                    top = middle - amplitudeToDbScale(Math.max(0, range[1])) * scaleY;
+                    bottom = middle + amplitudeToDbScale(Math.max(0, -range[0])) * scaleY;
+                } else {
+                    top = middle - range[1] * linearNorm * scaleY;
+                    bottom = middle - range[0] * linearNorm * scaleY;
+                }
+                ctx.fillRect(x, top, 1, Math.max(1, bottom - top));
+            }
+            ctx.globalAlpha = 1;
+
+            if (label) {
+                ctx.fillStyle = '#3a7bd5';
+                ctx.font = 'bold 10px monospace';
+                ctx.textAlign = 'left';
+                ctx.fillText(label, 8, middle + 4);
+            }
+        });
     }
-    ctx.stroke();
-    ctx.globalAlpha = 1;
 
-  }, [waveformPeaks, duration, zoom, viewCenterTime, audioBuffer]);
+  }, [peaks, displayMode, amplitudeScale, viewMode, getTile, spectrogramVersion, tempoMap, timeFormat, duration, zoom, viewCenterTime, audioBuffer, lanes]);
 
   // Mouse Handlers
   const handleMouseDown = (e: React.MouseEvent) => {
     setIsPanning(true);
     setDragStartX(e.clientX);
     setDragStartTime(viewCenterTime);
-    setIsFollowing(false);
+    onFollowChange(false);
+  };
+
+  const getTimeAtClientX = useCallback((clientX: number, rect: DOMRect) => {
+    const halfWindow = rect.width / 2;
+    const mouseX = clientX - rect.left;
+    const startT = viewCenterTime - (halfWindow / zoom);
+    return (mouseX / zoom) + startT;
+  }, [viewCenterTime, zoom]);
+
+  const applySnap = useCallback((time: number) => {
+    return snapTime(time, snapToGrid ? snapResolution : 'off', tempoMap);
+  }, [snapToGrid, snapResolution, tempoMap]);
+
+  const startCueDrag = (e: React.MouseEvent, cue: Cue, mode: CueDragMode) => {
+    e.stopPropagation();
+    if (isLaneLocked(lanes, cue.row)) {
+        onSelectCue(cue.id);
+        return;
+    }
+    const rect = containerRef.current?.getBoundingClientRect();
+    // Range cues keep the point where they were grabbed under the mouse; point cues jump to it
+    const grabOffset = rect && mode === 'move' && isRangeCue(cue)
+        ? getTimeAtClientX(e.clientX, rect) - cue.time
+        : 0;
+    onSelectCue(cue.id);
+    onEditStart();
+    setDragMode(mode);
+    setDragGrabOffset(grabOffset);
+    setDraggingCueId(cue.id);
+  };
+
+  // Dragging on the ruler defines the A-B loop; a plain click still seeks
+  const handleRulerMouseDown = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    const time = Math.max(0, Math.min(duration, getTimeAtClientX(e.clientX, rect)));
+    setLoopDragAnchor(applySnap(time));
+    setDragStartX(e.clientX);
   };
 
   const handleGlobalMouseMove = useCallback((e: MouseEvent) => {
+    if (loopDragAnchor !== null) {
+        const rect = containerRef.current?.getBoundingClientRect();
+        if (!rect || Math.abs(e.clientX - dragStartX) < 5) return;
+        const time = applySnap(Math.max(0, Math.min(duration, getTimeAtClientX(e.clientX, rect))));
+        onLoopChange({ start: Math.min(loopDragAnchor, time), end: Math.max(loopDragAnchor, time) });
+        return;
+    }
+
     if (draggingCueId) {
         const rect = containerRef.current?.getBoundingClientRect();
-        if (!rect) return;
+        const cue = cues.find(c => c.id === draggingCueId);
+        if (!rect || !cue) return;
         
         // Time Calc
-        const halfWindow = rect.width / 2;
-        const mouseX = e.clientX - rect.left;
-        const startT = viewCenterTime - (halfWindow / zoom);
-        let newTime = (mouseX / zoom) + startT;
-        newTime = Math.max(0, Math.min(duration, newTime));
-
-        if (snapToGrid) {
-            newTime = Math.round(newTime * 10) / 10;
+        const mouseTime = Math.max(0, Math.min(duration, getTimeAtClientX(e.clientX, rect)));
+
+        // Edge drags resize the span, keeping the opposite edge fixed
+        if (dragMode === 'start') {
+            const end = getCueEnd(cue);
+            const newStart = Math.min(applySnap(mouseTime), end - MIN_CUE_DURATION);
+            onUpdateCue(draggingCueId, { time: Math.max(0, newStart), duration: end - Math.max(0, newStart) });
+            return;
         }
+        if (dragMode === 'end') {
+            const newEnd = Math.max(applySnap(mouseTime), cue.time + MIN_CUE_DURATION);
+            onUpdateCue(draggingCueId, { duration: Math.min(duration, newEnd) - cue.time });
+            return;
+        }
+
+        const span = cue.duration ?? 0;
+        let newTime = applySnap(mouseTime - dragGrabOffset);
+        newTime = Math.max(0, Math.min(duration - span, newTime));
 
-        // Row Calc
-        const mouseY = e.clientY - rect.top;
-        const rowHeight = rect.height / NUM_ROWS;
-        let newRow = Math.floor(mouseY / rowHeight);
-        newRow = Math.max(0, Math.min(NUM_ROWS - 1, newRow));
+        // Lane Calc (locked or hidden lanes can't receive cues)
+        const hovered = laneAtY(layoutLanes(lanes, rect.height), e.clientY - rect.top);
+        const newRow = hovered === -1 || isLaneLocked(lanes, hovered) ? cue.row : hovered;
         
         onUpdateCue(draggingCueId, { time: newTime, row: newRow });
         return;
@@ -226,11 +416,21 @@ export const Timeline: React.FC<TimelineProps> = ({
         const newCenter = Math.max(0, Math.min(duration, dragStartTime - deltaTime));
         setViewCenterTime(newCenter);
     }
-  }, [draggingCueId, isPanning, dragStartX, dragStartTime, zoom, viewCenterTime, duration, snapToGrid, onUpdateCue]);
+  }, [loopDragAnchor, draggingCueId, dragMode, dragGrabOffset, cues, isPanning, dragStartX, dragStartTime, zoom, duration, getTimeAtClientX, applySnap, onUpdateCue, onLoopChange, lanes]);
 
   const handleGlobalMouseUp = useCallback((e: MouseEvent) => {
+    if (loopDragAnchor !== null) {
+        setLoopDragAnchor(null);
+        if (Math.abs(e.clientX - dragStartX) < 5) {
+            const rect = containerRef.current?.getBoundingClientRect();
+            if (rect) onSeek(Math.max(0, Math.min(duration, getTimeAtClientX(e.clientX, rect))));
+        }
+        return;
+    }
+
     if (draggingCueId) {
         setDraggingCueId(null);
+        onEditEnd();
     }
     
     if (isPanning) {
@@ -247,7 +447,7 @@ export const Timeline: React.FC<TimelineProps> = ({
              }
         }
     }
-  }, [draggingCueId, isPanning, dragStartX, zoom, viewCenterTime, duration, onSeek]);
+  }, [loopDragAnchor, draggingCueId, isPanning, dragStartX, zoom, viewCenterTime, duration, getTimeAtClientX, onSeek, onEditEnd]);
 
   useEffect(() => {
     window.addEventListener('mousemove', handleGlobalMouseMove);
@@ -270,6 +470,116 @@ export const Timeline: React.FC<TimelineProps> = ({
     return getCueScreenX(currentTime);
   };
 
+  const toggleSpan = (cue: Cue) => {
+    if (isRangeCue(cue)) {
+        onUpdateCue(cue.id, { duration: undefined });
+    } else {
+        onUpdateCue(cue.id, { duration: Math.max(MIN_CUE_DURATION, Math.min(DEFAULT_SPAN, duration - cue.time)) });
+    }
+  };
+
+  // Loop a range cue's span, or from a point cue to the next cue
+  const loopFromCue = (cue: Cue) => {
+    if (isRangeCue(cue)) {
+        onLoopChange({ start: cue.time, end: getCueEnd(cue) });
+        return;
+    }
+    const next = sortCuesByTime(cues).find(c => c.time > cue.time);
+    onLoopChange({ start: cue.time, end: next ? next.time : duration });
+  };
+
+  // Editor Popup (Shows on hover or drag; read-only in locked lanes)
+  const renderCuePopup = (cue: Cue, timeToCue: number) => isLaneLocked(lanes, cue.row) ? (
+    <div className="absolute top-6 opacity-0 group-hover:opacity-100 transition-opacity bg-neutral-900 border border-neutral-700 rounded-md p-2 shadow-2xl z-50 min-w-[140px] pointer-events-none">
+        <div className="flex justify-between items-baseline mb-1 text-[10px] font-mono text-neutral-400">
+            <span>{formatTime(cue.time, timeFormat)}</span>
+            <Lock size={10} />
+        </div>
+        <div className="text-xs text-white truncate">{cue.label}</div>
+    </div>
+  ) : (
+    <div className="absolute top-6 opacity-0 group-hover:opacity-100 transition-opacity bg-neutral-900 border border-neutral-700 rounded-md p-2 shadow-2xl z-50 min-w-[180px] pointer-events-none group-hover:pointer-events-auto">
+        {/* Time & Countdown */}
+        <div className="flex justify-between items-center gap-2 mb-2 border-b border-neutral-800 pb-1">
+            <TimeInput
+                value={cue.time}
+                timeFormat={timeFormat}
+                onCommit={(time) => onUpdateCue(cue.id, { time: Math.max(0, Math.min(duration, time)) })}
+                className="text-[10px] w-28"
+                title="Cue time"
+            />
+            <span className={`text-[10px] font-mono font-bold ${timeToCue > 0 ? 'text-green-400' : 'text-red-400'}`}>
+                {timeToCue > 0 ? `-${formatTime(timeToCue)}` : `+${formatTime(Math.abs(timeToCue))}`}
+            </span>
+        </div>
+
+        {/* Label Input */}
+        <div className="flex items-center gap-2 mb-2">
+            <GripVertical size={12} className="text-neutral-500" />
+            <input 
+               className="bg-neutral-800 rounded px-1 py-0.5 text-xs text-white focus:outline-none w-full border border-transparent focus:border-blue-500"
+               value={cue.label}
+               onChange={(e) => onUpdateCue(cue.id, { label: e.target.value })}
+               onFocus={onEditStart}
+               onBlur={onEditEnd}
+               onMouseDown={(e) => e.stopPropagation()} 
+            />
+        </div>
+
+        {/* Span */}
+        <div className="flex items-center justify-between mb-2 text-[10px] font-mono text-neutral-400">
+            <span>{isRangeCue(cue) ? `SPAN ${formatTime(cue.duration ?? 0)}` : 'POINT'}</span>
+            <button
+                onMouseDown={(e) => e.stopPropagation()}
+                onClick={(e) => { e.stopPropagation(); toggleSpan(cue); }}
+                className="flex items-center gap-1 px-1.5 py-0.5 rounded text-neutral-300 hover:bg-neutral-800 transition-colors"
+            >
+                <MoveHorizontal size={10} />
+                {isRangeCue(cue) ? 'Make Point' : 'Make Span'}
+            </button>
+        </div>
+
+        <button
+            onMouseDown={(e) => e.stopPropagation()}
+            onClick={(e) => { e.stopPropagation(); loopFromCue(cue); }}
+            className="w-full flex items-center justify-center gap-2 mb-2 text-xs text-yellow-400 hover:text-yellow-300 hover:bg-yellow-900/20 py-1 rounded transition-colors"
+        >
+            <Repeat size={12} />
+            <span>{isRangeCue(cue) ? 'Loop Span' : 'Loop to Next Cue'}</span>
+        </button>
+
+        <button
+            onMouseDown={(e) => e.stopPropagation()}
+            onClick={(e) => { e.stopPropagation(); onEditActions(cue.id); }}
+            className="w-full flex items-center justify-center gap-2 mb-2 text-xs text-blue-400 hover:text-blue-300 hover:bg-blue-900/20 py-1 rounded transition-colors"
+        >
+            <Zap size={12} />
+            <span>Actions{cue.actions?.length ? ` (${cue.actions.length})` : ''}</span>
+        </button>
+
+        {/* Color Picker */}
+        <div className="flex gap-1 flex-wrap mb-2 justify-center">
+            {COLORS.map(c => (
+                <button
+                    key={c}
+                    className={`w-4 h-4 rounded-full border border-neutral-600 hover:scale-110 transition-transform ${cue.color === c ? 'ring-2 ring-white' : ''}`}
+                    style={{ backgroundColor: c }}
+                    onClick={(e) => { e.stopPropagation(); onUpdateCue(cue.id, { color: c }); }}
+                />
+            ))}
+        </div>
+
+        {/* Delete */}
+        <button 
+            onMouseDown={(e) => { e.stopPropagation(); onDeleteCue(cue.id); }}
+            className="w-full flex items-center justify-center gap-2 text-xs text-red-400 hover:text-red-300 hover:bg-red-900/20 py-1 rounded transition-colors"
+        >
+            <Trash2 size={12} />
+            <span>Delete Cue</span>
+        </button>
+    </div>
+  );
+
   if (!audioBuffer) {
     return (
       <div className="flex items-center justify-center h-full text-neutral-500 border-b border-neutral-800 bg-neutral-900/50">
@@ -278,6 +588,8 @@ export const Timeline: React.FC<TimelineProps> = ({
     );
   }
 
+  const laneLayout = layoutLanes(lanes, containerRef.current?.clientHeight || 300);
+
   return (
     <div className="flex flex-col h-full bg-black select-none relative group">
       
@@ -296,6 +608,68 @@ export const Timeline: React.FC<TimelineProps> = ({
                     <div className="bg-current rounded-[1px] opacity-50"></div>
                 </div>
             </button>
+            <select
+                value={snapResolution}
+                onChange={(e) => { setSnapResolution(e.target.value as Exclude<SnapMode, 'off'>); setSnapToGrid(true); }}
+                className="bg-neutral-900 border border-neutral-800 rounded px-1 py-1 text-[10px] font-mono text-neutral-300 focus:outline-none"
+                title="Snap resolution"
+            >
+                {SNAP_OPTIONS.map(({ mode, label, musical }) => (
+                    <option key={mode} value={mode} disabled={musical && !tempoMap}>{label}</option>
+                ))}
+            </select>
+            <div className="w-px h-6 bg-neutral-800 mx-1" />
+            <div className="flex items-center">
+                <button
+                    onClick={() => setViewMode(viewMode === 'spectrogram' ? 'waveform' : 'spectrogram')}
+                    title="Toggle spectrogram view"
+                    className={`mr-1 px-2 py-1.5 rounded text-[10px] font-mono transition-colors ${viewMode === 'spectrogram' ? 'bg-neutral-800 text-purple-400' : 'text-neutral-500 hover:text-white'}`}
+                >
+                    SPEC
+                </button>
+                {viewMode === 'spectrogram' ? (
+                    <>
+                        <select
+                            value={colorMap}
+                            onChange={(e) => setColorMap(e.target.value as SpectrogramColorMap)}
+                            className="bg-neutral-900 border border-neutral-800 rounded px-1 py-1 text-[10px] font-mono text-neutral-300 focus:outline-none"
+                            title="Colour map"
+                        >
+                            <option value="magma">MAGMA</option>
+                            <option value="viridis">VIRIDIS</option>
+                            <option value="gray">GRAY</option>
+                        </select>
+                        <select
+                            value={frequencyScale}
+                            onChange={(e) => setFrequencyScale(e.target.value as FrequencyScale)}
+                            className="ml-1 bg-neutral-900 border border-neutral-800 rounded px-1 py-1 text-[10px] font-mono text-neutral-300 focus:outline-none"
+                            title="Frequency scale"
+                        >
+                            <option value="linear">LIN</option>
+                            <option value="log">LOG</option>
+                            <option value="mel">MEL</option>
+                        </select>
+                    </>
+                ) : DISPLAY_MODES.map(({ mode, label, title }) => (
+                    <button
+                        key={mode}
+                        onClick={() => setDisplayMode(mode)}
+                        title={title}
+                        className={`px-2 py-1.5 rounded text-[10px] font-mono transition-colors ${displayMode === mode ? 'bg-neutral-800 text-blue-400' : 'text-neutral-500 hover:text-white'}`}
+                    >
+                        {label}
+                    </button>
+                ))}
+                {viewMode === 'waveform' && (
+                    <button
+                        onClick={() => setAmplitudeScale(amplitudeScale === 'db' ? 'linear' : 'db')}
+                        title="Toggle dB amplitude scale"
+                        className={`ml-1 px-2 py-1.5 rounded text-[10px] font-mono transition-colors ${amplitudeScale === 'db' ? 'bg-neutral-800 text-blue-400' : 'text-neutral-500 hover:text-white'}`}
+                    >
+                        dB
+                    </button>
+                )}
+            </div>
             <div className="w-px h-6 bg-neutral-800 mx-1" />
             <button 
                 onClick={() => onAddCue(currentTime)}
@@ -308,7 +682,7 @@ export const Timeline: React.FC<TimelineProps> = ({
 
          <div className="flex items-center gap-3 pointer-events-auto bg-black/80 backdrop-blur border border-neutral-800 rounded-lg p-1.5 shadow-xl">
              <button
-                onClick={() => setIsFollowing(!isFollowing)}
+                onClick={() => onFollowChange(!isFollowing)}
                 className={`flex items-center gap-2 px-3 py-1.5 rounded text-xs font-medium transition-colors ${isFollowing ? 'bg-neutral-800 text-green-400' : 'hover:bg-neutral-800 text-neutral-400'}`}
              >
                 <Crosshair size={14} className={isFollowing ? "animate-pulse" : ""} />
@@ -321,7 +695,7 @@ export const Timeline: React.FC<TimelineProps> = ({
                 min={MIN_ZOOM} 
                 max={MAX_ZOOM} 
                 value={zoom} 
-                onChange={(e) => setZoom(Number(e.target.value))}
+                onChange={(e) => onZoomChange(Number(e.target.value))}
                 className="w-24 md:w-48 h-1 bg-neutral-700 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:bg-white [&::-webkit-slider-thumb]:rounded-full"
              />
              <ZoomIn size={14} className="text-neutral-500" />
@@ -335,6 +709,27 @@ export const Timeline: React.FC<TimelineProps> = ({
         onMouseDown={handleMouseDown}
       >
         <canvas ref={canvasRef} className="absolute top-0 left-0 pointer-events-none" />
+
+        {/* Loop Region */}
+        {isValidLoop(loopRegion) && (
+            <div
+                className={`absolute top-0 bottom-0 pointer-events-none border-x ${loopEnabled ? 'bg-yellow-400/10 border-yellow-400/60' : 'bg-neutral-500/5 border-neutral-600/60 border-dashed'}`}
+                style={{
+                    left: getCueScreenX(loopRegion.start),
+                    width: (loopRegion.end - loopRegion.start) * zoom,
+                }}
+            >
+                <div className={`absolute left-0 right-0 bottom-0 ${loopEnabled ? 'bg-yellow-400/40' : 'bg-neutral-600/30'}`} style={{ height: RULER_HEIGHT }} />
+            </div>
+        )}
+
+        {/* Ruler (drag to set loop) */}
+        <div
+            className="absolute left-0 right-0 bottom-0 z-20 cursor-col-resize hover:bg-white/5 transition-colors"
+            style={{ height: RULER_HEIGHT }}
+            onMouseDown={handleRulerMouseDown}
+            title="Drag to set loop region"
+        />
         
         {/* Playhead */}
         <div 
@@ -347,18 +742,75 @@ export const Timeline: React.FC<TimelineProps> = ({
              <div className="absolute top-0 -translate-x-1/2 -translate-y-1/2 w-0 h-0 border-l-[6px] border-l-transparent border-r-[6px] border-r-transparent border-t-[8px] border-t-white" />
         </div>
 
+        {/* Ghost Markers (detected onsets, click to accept) */}
+        {laneLayout[ghostRow] && ghostMarkers.map(time => {
+            const x = getCueScreenX(time);
+            if (x < -10 || x > (containerRef.current?.clientWidth || 2000) + 10) return null;
+            const { top, height: laneHeight } = laneLayout[ghostRow]!;
+            return (
+                <div
+                    key={time}
+                    className="absolute z-10 w-2 -translate-x-1/2 cursor-pointer group"
+                    style={{ left: x, top, height: laneHeight }}
+                    onMouseDown={(e) => e.stopPropagation()}
+                    onClick={() => onAcceptGhost(time)}
+                    title={`Add cue at ${formatTime(time, timeFormat)}`}
+                >
+                    <div className="absolute left-1/2 top-0 bottom-0 border-l border-dashed border-white/40 group-hover:border-white" />
+                </div>
+            );
+        })}
+
         {/* Cues Layer */}
         {cues.map(cue => {
             const cueX = getCueScreenX(cue.time);
-            if (cueX < -300 || cueX > (containerRef.current?.clientWidth || 2000) + 300) return null;
+            const isRange = isRangeCue(cue);
+            const endX = isRange ? getCueScreenX(getCueEnd(cue)) : cueX;
+            if (endX < -300 || cueX > (containerRef.current?.clientWidth || 2000) + 300) return null;
             
-            // Calculate Y position based on row
-            const height = containerRef.current?.clientHeight || 300;
-            const rowHeight = height / NUM_ROWS;
-            const cueY = cue.row * rowHeight;
+            // Y position from the cue's lane (hidden lanes aren't drawn)
+            const lane = laneLayout[cue.row];
+            if (!lane) return null;
+            const cueY = lane.top;
+            const rowHeight = lane.height;
             
             const timeToCue = cue.time - currentTime;
-            const isUpcoming = timeToCue > 0 && timeToCue < 10; // 10s lookahead for special visual
+
+            if (isRange) {
+                return (
+                    <div
+                        key={cue.id}
+                        className="absolute z-10"
+                        style={{ left: cueX, top: cueY, height: rowHeight, width: Math.max(2, endX - cueX) }}
+                        onMouseDown={(e) => startCueDrag(e, cue, 'move')}
+                    >
+                        <div className="relative h-full group cursor-grab active:cursor-grabbing">
+                            {/* Span bar */}
+                            <div className="absolute inset-x-0 top-1 bottom-1 rounded-sm opacity-25" style={{ backgroundColor: cue.color }} />
+                            <div
+                                className={`absolute inset-x-0 top-1 bottom-1 rounded-sm ${cue.id === selectedCueId ? 'border-2 ring-1 ring-white' : 'border'}`}
+                                style={{ borderColor: cue.color }}
+                            />
+                            <div className="absolute left-0 top-0 bottom-0 w-0.5" style={{ backgroundColor: cue.color }} />
+                            <div className="absolute left-2 right-2 top-1.5 text-[10px] font-medium text-white truncate pointer-events-none">
+                                {cue.label}
+                            </div>
+
+                            {/* Resize handles */}
+                            <div
+                                className="absolute -left-1 top-0 bottom-0 w-2 cursor-ew-resize hover:bg-white/30"
+                                onMouseDown={(e) => startCueDrag(e, cue, 'start')}
+                            />
+                            <div
+                                className="absolute -right-1 top-0 bottom-0 w-2 cursor-ew-resize hover:bg-white/30"
+                                onMouseDown={(e) => startCueDrag(e, cue, 'end')}
+                            />
+
+                            {renderCuePopup(cue, timeToCue)}
+                        </div>
+                    </div>
+                );
+            }
 
             return (
                 <div
@@ -370,7 +822,7 @@ export const Timeline: React.FC<TimelineProps> = ({
                         height: rowHeight,
                         transform: 'translateX(-50%)' 
                     }}
-                    onMouseDown={(e) => { e.stopPropagation(); setDraggingCueId(cue.id); }}
+                    onMouseDown={(e) => startCueDrag(e, cue, 'move')}
                 >
                     {/* Visual Marker */}
                     <div className="relative h-full flex flex-col items-center group">
@@ -379,62 +831,70 @@ export const Timeline: React.FC<TimelineProps> = ({
                         
                         {/* Flag Header */}
                         <div 
-                            className="w-4 h-4 rounded-sm mt-1 shadow-md transition-transform group-hover:scale-125 cursor-grab active:cursor-grabbing"
+                            className={`w-4 h-4 rounded-sm mt-1 shadow-md transition-transform group-hover:scale-125 cursor-grab active:cursor-grabbing ${cue.id === selectedCueId ? 'ring-2 ring-white' : ''}`}
                             style={{ backgroundColor: cue.color }}
                         />
 
-                        {/* Editor Popup (Shows on hover or drag) */}
-                        <div className="absolute top-6 opacity-0 group-hover:opacity-100 transition-opacity bg-neutral-900 border border-neutral-700 rounded-md p-2 shadow-2xl z-50 min-w-[180px] pointer-events-none group-hover:pointer-events-auto">
-                            {/* Time & Countdown */}
-                            <div className="flex justify-between items-baseline mb-2 border-b border-neutral-800 pb-1">
-                                <span className="text-[10px] text-neutral-400 font-mono">{formatTime(cue.time)}</span>
-                                <span className={`text-[10px] font-mono font-bold ${timeToCue > 0 ? 'text-green-400' : 'text-red-400'}`}>
-                                    {timeToCue > 0 ? `-${formatTime(timeToCue)}` : `+${formatTime(Math.abs(timeToCue))}`}
-                                </span>
-                            </div>
-
-                            {/* Label Input */}
-                            <div className="flex items-center gap-2 mb-2">
-                                <GripVertical size={12} className="text-neutral-500" />
-                                <input 
-                                   className="bg-neutral-800 rounded px-1 py-0.5 text-xs text-white focus:outline-none w-full border border-transparent focus:border-blue-500"
-                                   value={cue.label}
-                                   onChange={(e) => onUpdateCue(cue.id, { label: e.target.value })}
-                                   onMouseDown={(e) => e.stopPropagation()} 
-                                />
-                            </div>
-
-                            {/* Color Picker */}
-                            <div className="flex gap-1 flex-wrap mb-2 justify-center">
-                                {COLORS.map(c => (
-                                    <button
-                                        key={c}
-                                        className={`w-4 h-4 rounded-full border border-neutral-600 hover:scale-110 transition-transform ${cue.color === c ? 'ring-2 ring-white' : ''}`}
-                                        style={{ backgroundColor: c }}
-                                        onClick={(e) => { e.stopPropagation(); onUpdateCue(cue.id, { color: c }); }}
-                                    />
-                                ))}
-                            </div>
-
-                            {/* Delete */}
-                            <button 
-                                onMouseDown={(e) => { e.stopPropagation(); onDeleteCue(cue.id); }}
-                                className="w-full flex items-center justify-center gap-2 text-xs text-red-400 hover:text-red-300 hover:bg-red-900/20 py-1 rounded transition-colors"
-                            >
-                                <Trash2 size={12} />
-                                <span>Delete Cue</span>
-                            </button>
-                        </div>
+                        {renderCuePopup(cue, timeToCue)}
                     </div>
                 </div>
             );
         })}
 
+        {/* Lane Headers */}
+        {lanes.map((lane, index) => {
+            const layout = laneLayout[index];
+            if (!layout) return null;
+            return (
+                <div
+                    key={lane.id}
+                    className="absolute left-1 z-20 flex items-center gap-1 px-1.5 py-0.5 rounded bg-black/70 text-[10px] font-mono opacity-60 hover:opacity-100 transition-opacity"
+                    style={{ top: Math.min(layout.top + layout.height, (containerRef.current?.clientHeight || 300) - RULER_HEIGHT) - 20 }}
+                    onMouseDown={(e) => e.stopPropagation()}
+                >
+                    <span className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: lane.color }} />
+                    <span className="text-neutral-300 max-w-[100px] truncate">{lane.name}</span>
+                    <button
+                        onClick={() => onUpdateLane(index, { locked: !lane.locked })}
+                        title={lane.locked ? 'Unlock lane' : 'Lock lane'}
+                        className={lane.locked ? 'text-yellow-400' : 'text-neutral-600 hover:text-white'}
+                    >
+                        <Lock size={10} />
+                    </button>
+                    <button
+                        onClick={() => onUpdateLane(index, { solo: !lane.solo })}
+                        title="Solo lane"
+                        className={`px-0.5 ${lane.solo ? 'text-green-400' : 'text-neutral-600 hover:text-white'}`}
+                    >
+                        S
+                    </button>
+                    <button
+                        onClick={() => onUpdateLane(index, { hidden: true, solo: false })}
+                        title="Hide lane"
+                        className="text-neutral-600 hover:text-white"
+                    >
+                        <EyeOff size={10} />
+                    </button>
+                </div>
+            );
+        })}
+
       </div>
       
+      {/* Analysis progress */}
+      {analysisProgress !== null && (
+        <div className="absolute bottom-2 left-4 flex items-center gap-2 text-[10px] font-mono text-neutral-500 pointer-events-none">
+            <span>ANALYZING WAVEFORM</span>
+            <div className="w-24 h-1 bg-neutral-800 rounded overflow-hidden">
+                <div className="h-full bg-blue-500 transition-all" style={{ width: `${Math.round(analysisProgress * 100)}%` }} />
+            </div>
+            <span className="tabular-nums">{Math.round(analysisProgress * 100)}%</span>
+        </div>
+      )}
+
       {/* Zoom indicator */}
       <div className="absolute bottom-2 right-4 text-[10px] font-mono text-neutral-600 pointer-events-none">
-         ZOOM: {zoom}px/s | ROWS: {NUM_ROWS}
+         ZOOM: {zoom}px/s | LANES: {laneLayout.filter(Boolean).length}/{lanes.length}
       </div>
     </div>
   );
@@ -0,0 +1,86 @@
+import { useState, useCallback } from 'react';
+
+const MAX_HISTORY = 200;
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  // Snapshot taken when a transaction (e.g. a drag) started. While set, updates
+  // only touch `present` and are collapsed into a single undo step on commit.
+  pending: T | null;
+}
+
+type Updater<T> = T | ((prev: T) => T);
+
+const push = <T,>(past: T[], item: T): T[] => {
+  const next = [...past, item];
+  return next.length > MAX_HISTORY ? next.slice(next.length - MAX_HISTORY) : next;
+};
+
+const settle = <T,>(h: HistoryState<T>): HistoryState<T> => {
+  if (h.pending === null) return h;
+  if (h.pending === h.present) return { ...h, pending: null };
+  return { past: push(h.past, h.pending), present: h.present, future: [], pending: null };
+};
+
+export const useHistory = <T,>(initial: T) => {
+  const [history, setHistory] = useState<HistoryState<T>>({
+    past: [],
+    present: initial,
+    future: [],
+    pending: null,
+  });
+
+  const set = useCallback((updater: Updater<T>) => {
+    setHistory(h => {
+      const next = typeof updater === 'function' ? (updater as (prev: T) => T)(h.present) : updater;
+      if (next === h.present) return h;
+      if (h.pending !== null) return { ...h, present: next };
+      return { past: push(h.past, h.present), present: next, future: [], pending: null };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory(prev => {
+      const h = settle(prev);
+      if (h.past.length === 0) return h;
+      const previous = h.past[h.past.length - 1];
+      return { past: h.past.slice(0, -1), present: previous, future: [h.present, ...h.future], pending: null };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(prev => {
+      const h = settle(prev);
+      if (h.future.length === 0) return h;
+      const [next, ...rest] = h.future;
+      return { past: push(h.past, h.present), present: next, future: rest, pending: null };
+    });
+  }, []);
+
+  // Replace the state and forget all history (e.g. a different audio file was loaded)
+  const reset = useCallback((next: T) => {
+    setHistory({ past: [], present: next, future: [], pending: null });
+  }, []);
+
+  const beginTransaction = useCallback(() => {
+    setHistory(h => (h.pending !== null ? h : { ...h, pending: h.present }));
+  }, []);
+
+  const commitTransaction = useCallback(() => {
+    setHistory(settle);
+  }, []);
+
+  return {
+    state: history.present,
+    set,
+    undo,
+    redo,
+    reset,
+    beginTransaction,
+    commitTransaction,
+    canUndo: history.past.length > 0 || (history.pending !== null && history.pending !== history.present),
+    canRedo: history.future.length > 0,
+  };
+};
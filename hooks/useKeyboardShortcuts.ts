@@ -0,0 +1,42 @@
+import { useEffect, useRef } from 'react';
+import { Keymap, KeyAction, eventToCombo, findAction } from '../utils/keymap';
+
+export type KeyHandlers = Partial<Record<KeyAction, () => void>>;
+
+// Inputs that take typed text; sliders, checkboxes and colour pickers still let shortcuts through
+const TEXT_INPUT_TYPES = new Set(['text', 'search', 'email', 'url', 'tel', 'password', 'number', 'date', 'time', 'datetime-local', 'month', 'week']);
+
+const isTextEntry = (target: HTMLElement | null) => {
+  if (!target) return false;
+  if (target instanceof HTMLInputElement) return TEXT_INPUT_TYPES.has(target.type);
+  return target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable;
+};
+
+/**
+ * Dispatches window keydown events to the handler bound in the keymap.
+ * Handlers are read through a ref so callers can pass fresh closures every
+ * render without re-subscribing. Typing into text fields is left alone.
+ */
+export const useKeyboardShortcuts = (keymap: Keymap, handlers: KeyHandlers, enabled = true) => {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isTextEntry(e.target as HTMLElement | null)) return;
+
+      const combo = eventToCombo(e);
+      const action = combo && findAction(keymap, combo);
+      const handler = action && handlersRef.current[action];
+      if (!handler) return;
+
+      e.preventDefault();
+      // Holding a key repeats seeks and nudges, but must not stack up cues or toggles
+      if (e.repeat && (action === 'playPause' || action === 'toggleRecord' || action === 'toggleFollow' || action.startsWith('recordRow') || action === 'addCue')) return;
+      handler();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [keymap, enabled]);
+};
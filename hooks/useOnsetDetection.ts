@@ -0,0 +1,68 @@
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { OnsetAnalysis, pickOnsets } from '../utils/onsetDetection';
+import { analyzeOnsets } from '../utils/audioWorkers';
+
+export type SuggestionSource = 'onsets' | 'beats';
+
+/**
+ * Runs onset/beat analysis for the loaded buffer on demand and turns it into
+ * suggested cue times using the current sensitivity / spacing settings.
+ */
+export const useOnsetDetection = (audioBuffer: AudioBuffer | null) => {
+  const [analysis, setAnalysis] = useState<OnsetAnalysis | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [sensitivity, setSensitivity] = useState(0.5);
+  const [minSpacing, setMinSpacing] = useState(0.1);
+  const [source, setSource] = useState<SuggestionSource>('onsets');
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Results belong to the buffer they were computed from
+  useEffect(() => {
+    controllerRef.current?.abort();
+    setAnalysis(null);
+    setProgress(null);
+  }, [audioBuffer]);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const analyze = useCallback(() => {
+    if (!audioBuffer) return;
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    setProgress(0);
+    analyzeOnsets(audioBuffer, setProgress, controller.signal)
+      .then(result => {
+        setAnalysis(result);
+        setProgress(null);
+      })
+      .catch(err => {
+        if (controller.signal.aborted) return;
+        console.error("Error detecting onsets", err);
+        setProgress(null);
+      });
+  }, [audioBuffer]);
+
+  const clear = useCallback(() => setAnalysis(null), []);
+
+  const suggestions = useMemo(() => {
+    if (!analysis) return [];
+    if (source === 'beats') return analysis.beats;
+    return pickOnsets(analysis, sensitivity, minSpacing).map(o => o.time);
+  }, [analysis, source, sensitivity, minSpacing]);
+
+  return {
+    analysis,
+    progress,
+    analyze,
+    clear,
+    suggestions,
+    sensitivity,
+    setSensitivity,
+    minSpacing,
+    setMinSpacing,
+    source,
+    setSource,
+  };
+};
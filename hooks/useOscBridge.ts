@@ -0,0 +1,57 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { OscArg } from '../types';
+import { OscBridgeClient, OscBridgeSettings, OscBridgeStatus, OscBridgeCommand, parseOscBridgeCommand } from '../utils/oscBridge';
+
+interface OscBridgeHandlers {
+  onCommand: (command: OscBridgeCommand) => void;
+  // Read on every heartbeat, so it should return the live playback position
+  getHeartbeat: () => { time: number; playing: boolean };
+}
+
+// Keeps a bridge connection open while enabled and sends the time heartbeat.
+// Handlers are read through a ref so remote commands always see the latest transport state.
+export const useOscBridge = (settings: OscBridgeSettings, handlers: OscBridgeHandlers) => {
+  const [status, setStatus] = useState<OscBridgeStatus>('disconnected');
+  const clientRef = useRef<OscBridgeClient | null>(null);
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+
+  useEffect(() => {
+    if (!settings.enabled) {
+      setStatus('disconnected');
+      return;
+    }
+    const client = new OscBridgeClient(settings.url, {
+      onStatus: setStatus,
+      onMessage: (message) => {
+        const command = parseOscBridgeCommand(settingsRef.current, message);
+        if (command) handlersRef.current.onCommand(command);
+      },
+    });
+    clientRef.current = client;
+    return () => {
+      client.close();
+      clientRef.current = null;
+    };
+  }, [settings.enabled, settings.url]);
+
+  useEffect(() => {
+    if (status !== 'connected' || settings.heartbeatMs <= 0) return;
+    const timer = window.setInterval(() => {
+      const { time, playing } = handlersRef.current.getHeartbeat();
+      clientRef.current?.send(settingsRef.current.heartbeatAddress, [
+        { type: 'f', value: time },
+        playing ? { type: 'T', value: true } : { type: 'F', value: false },
+      ]);
+    }, settings.heartbeatMs);
+    return () => window.clearInterval(timer);
+  }, [status, settings.heartbeatMs]);
+
+  const send = useCallback((address: string, args: OscArg[] = []) => {
+    clientRef.current?.send(address, args);
+  }, []);
+
+  return { status, send };
+};
@@ -0,0 +1,34 @@
+import { useState, useEffect } from 'react';
+import { ChannelPeaks } from '../utils/peaks';
+import { analyzePeaks } from '../utils/audioWorkers';
+
+// Waveform peaks for every channel of the loaded buffer, analyzed in a worker.
+// `progress` is 0-1 while analysis is running and null once ready (or no audio).
+export const usePeakPyramid = (audioBuffer: AudioBuffer | null) => {
+  const [peaks, setPeaks] = useState<ChannelPeaks | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+
+  useEffect(() => {
+    setPeaks(null);
+    if (!audioBuffer) {
+      setProgress(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    setProgress(0);
+    analyzePeaks(audioBuffer, setProgress, controller.signal)
+      .then(result => {
+        setPeaks(result);
+        setProgress(null);
+      })
+      .catch(err => {
+        if (controller.signal.aborted) return;
+        console.error("Error analyzing waveform", err);
+        setProgress(null);
+      });
+    return () => controller.abort();
+  }, [audioBuffer]);
+
+  return { peaks, progress };
+};
@@ -0,0 +1,35 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Cue } from '../types';
+import { ShowControlEngine, ActionLogEntry } from '../utils/showControl';
+
+// A show-control engine for as long as the app is mounted, kept in sync with the cue list.
+// The engine is driven from the playback loop; React only mirrors its log and arm state.
+// It is created and disposed in one effect, so `engine` is null until the first commit.
+export const useShowControl = (cues: Cue[]) => {
+  const [engine, setEngine] = useState<ShowControlEngine | null>(null);
+  const [log, setLog] = useState<ActionLogEntry[]>([]);
+  const [armed, setArmedState] = useState(false);
+
+  useEffect(() => {
+    const created = new ShowControlEngine();
+    const unsubscribe = created.subscribe(() => {
+      setLog(created.getLog());
+      setArmedState(created.isArmed());
+    });
+    setEngine(created);
+    setLog([]);
+    setArmedState(false);
+    return () => {
+      unsubscribe();
+      created.dispose();
+    };
+  }, []);
+
+  useEffect(() => {
+    engine?.setCues(cues);
+  }, [engine, cues]);
+
+  const setArmed = useCallback((value: boolean) => engine?.setArmed(value), [engine]);
+
+  return { engine, log, armed, setArmed };
+};
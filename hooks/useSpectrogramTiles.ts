@@ -0,0 +1,76 @@
+import { useEffect, useRef, useState, useCallback } from 'react';
+import { SpectrogramColorMap, FrequencyScale } from '../types';
+import { mixToMono } from '../utils/audioUtils';
+import { TILE_COLUMNS, TILE_ROWS, SpectrogramRequest, SpectrogramTileResponse } from '../utils/spectrogram';
+
+const MAX_CACHED_TILES = 128;
+
+/**
+ * Spectrogram tiles for the loaded buffer, rendered in a long-lived worker and
+ * cached as canvases. `getTile` returns null for tiles that are not ready yet
+ * (requesting them when asked to); `version` bumps whenever a tile arrives.
+ */
+export const useSpectrogramTiles = (
+  audioBuffer: AudioBuffer | null,
+  enabled: boolean,
+  colorMap: SpectrogramColorMap,
+  scale: FrequencyScale
+) => {
+  const workerRef = useRef<Worker | null>(null);
+  const tilesRef = useRef(new Map<string, HTMLCanvasElement>());
+  const pendingRef = useRef(new Set<string>());
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    if (!audioBuffer || !enabled) return;
+
+    const worker = new Worker(new URL('../workers/spectrogram.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<SpectrogramTileResponse>) => {
+      const { key, pixels } = e.data;
+      pendingRef.current.delete(key);
+
+      const canvas = document.createElement('canvas');
+      canvas.width = TILE_COLUMNS;
+      canvas.height = TILE_ROWS;
+      canvas.getContext('2d')?.putImageData(new ImageData(pixels, TILE_COLUMNS, TILE_ROWS), 0, 0);
+
+      const tiles = tilesRef.current;
+      if (tiles.size >= MAX_CACHED_TILES) tiles.delete(tiles.keys().next().value as string);
+      tiles.set(key, canvas);
+      setVersion(v => v + 1);
+    };
+
+    const mix = mixToMono(audioBuffer);
+    const load: SpectrogramRequest = { type: 'load', mix, sampleRate: audioBuffer.sampleRate };
+    worker.postMessage(load, [mix.buffer]);
+    workerRef.current = worker;
+
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+      tilesRef.current.clear();
+      pendingRef.current.clear();
+    };
+  }, [audioBuffer, enabled]);
+
+  // New colours or frequency scale: drop rendered tiles (the worker keeps its FFT data)
+  useEffect(() => {
+    tilesRef.current.clear();
+    pendingRef.current.clear();
+    setVersion(v => v + 1);
+  }, [colorMap, scale]);
+
+  const getTile = useCallback((hop: number, index: number, request = true): HTMLCanvasElement | null => {
+    const key = `${colorMap}:${scale}:${hop}:${index}`;
+    const tile = tilesRef.current.get(key);
+    if (tile) return tile;
+    if (request && workerRef.current && !pendingRef.current.has(key)) {
+      pendingRef.current.add(key);
+      const message: SpectrogramRequest = { type: 'tile', key, hop, index, colorMap, scale };
+      workerRef.current.postMessage(message);
+    }
+    return null;
+  }, [colorMap, scale]);
+
+  return { getTile, version };
+};
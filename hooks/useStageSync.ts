@@ -0,0 +1,71 @@
+import { useEffect, useRef } from 'react';
+import {
+  STAGE_CHANNEL,
+  STAGE_HEARTBEAT_MS,
+  STAGE_TRANSPORT_INTERVAL_MS,
+  StageMessage,
+  StageShow,
+  StageTransport,
+  getStageTime,
+} from '../utils/stageSync';
+
+type TransportState = Omit<StageTransport, 'sentAt'>;
+
+// A playhead this far from where the stage view would extrapolate it was moved (a seek)
+const SEEK_TOLERANCE = 0.25;
+
+// Publishes the show and transport to stage views in other windows. Nothing is
+// posted until a stage view has said hello, so the editor pays nothing without one.
+// Playback ticks are throttled; play, pause, seeks and speed or loop changes go out at once.
+export const useStageSync = (show: StageShow, transport: TransportState) => {
+  const channelRef = useRef<BroadcastChannel | null>(null);
+  const listeningRef = useRef(false);
+  const showRef = useRef(show);
+  showRef.current = show;
+  const transportRef = useRef(transport);
+  transportRef.current = transport;
+  const lastTransportRef = useRef<StageTransport | null>(null);
+
+  const post = (message: StageMessage) => {
+    if (listeningRef.current) channelRef.current?.postMessage(message);
+  };
+  const postTransport = () => {
+    const message: StageTransport = { ...transportRef.current, sentAt: Date.now() };
+    lastTransportRef.current = message;
+    post({ type: 'transport', transport: message });
+  };
+
+  useEffect(() => {
+    if (typeof BroadcastChannel === 'undefined') return;
+    const channel = new BroadcastChannel(STAGE_CHANNEL);
+    channelRef.current = channel;
+    channel.onmessage = (e: MessageEvent<StageMessage>) => {
+      if (e.data?.type !== 'hello') return;
+      listeningRef.current = true;
+      post({ type: 'show', show: showRef.current });
+      postTransport();
+    };
+    const timer = window.setInterval(postTransport, STAGE_HEARTBEAT_MS);
+    const sayBye = () => post({ type: 'bye' });
+    window.addEventListener('pagehide', sayBye);
+    return () => {
+      sayBye();
+      window.removeEventListener('pagehide', sayBye);
+      window.clearInterval(timer);
+      channel.close();
+      channelRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    post({ type: 'show', show });
+  }, [show]);
+
+  useEffect(() => {
+    const last = lastTransportRef.current;
+    const now = Date.now();
+    const ticking = !!last && transport.playing && last.playing && transport.rate === last.rate && transport.loop === last.loop;
+    if (ticking && now - last.sentAt < STAGE_TRANSPORT_INTERVAL_MS && Math.abs(getStageTime(last, now, Infinity) - transport.time) < SEEK_TOLERANCE) return;
+    postTransport();
+  }, [transport.playing, transport.time, transport.rate, transport.loop]);
+};
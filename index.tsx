@@ -1,6 +1,8 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { StageView } from './components/StageView';
+import { isStageView } from './utils/stageSync';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -10,6 +12,6 @@ if (!rootElement) {
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    {isStageView() ? <StageView /> : <App />}
   </React.StrictMode>
 );
\ No newline at end of file
@@ -3,15 +3,158 @@ export interface Cue {
   time: number;
   label: string;
   color: string;
-  row: number; // 0-3 typically
+  row: number; // Index into the project's lanes
+  duration?: number; // Seconds. Present for range cues (holds, segments, windows)
+  actions?: CueAction[]; // Fired by the show-control engine when playback crosses the cue
+}
+
+export type CueActionType = 'http' | 'websocket' | 'osc' | 'event';
+
+interface CueActionBase {
+  id: string;
+  preWait: number; // Seconds between the cue being crossed and the action firing
+  enabled: boolean;
+}
+
+export interface HttpCueAction extends CueActionBase {
+  type: 'http';
+  method: 'GET' | 'POST' | 'PUT';
+  url: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+export interface WebSocketCueAction extends CueActionBase {
+  type: 'websocket';
+  url: string;
+  message: string;
+}
+
+export type OscArgType = 'i' | 'f' | 's' | 'T' | 'F';
+
+export interface OscArg {
+  type: OscArgType;
+  value: number | string | boolean;
+}
+
+export interface OscCueAction extends CueActionBase {
+  type: 'osc';
+  target: string; // WebSocket endpoint that accepts binary OSC packets
+  address: string;
+  args: OscArg[];
+}
+
+// Dispatched in-page as a CustomEvent for integrations running in the same window
+export interface EventCueAction extends CueActionBase {
+  type: 'event';
+  name: string;
+  payload: string; // JSON
+}
+
+export type CueAction = HttpCueAction | WebSocketCueAction | OscCueAction | EventCueAction;
+
+// A horizontal lane of cues (e.g. Lights, Sound). Cues reference lanes by index.
+export interface Lane {
+  id: string;
+  name: string;
+  color: string; // Default colour for new cues in this lane
+  height: number; // Relative weight, 1 = normal
+  locked: boolean;
+  hidden: boolean;
+  solo: boolean;
+  click?: LaneClick; // Count-in clicks before this lane's cues (defaults apply when missing)
+}
+
+export interface LaneClick {
+  enabled: boolean;
+  pitch: number; // Hz
+  volume: number; // 0-1
 }
 
 export interface ProjectState {
   fileName: string | null;
   duration: number;
   cues: Cue[];
+  lanes?: Lane[];
+  tempoMap?: TempoMap | null;
+  timecode?: TimecodeSettings;
+}
+
+// A tempo/meter change taking effect at the start of a bar (1-based)
+export interface TempoChange {
+  bar: number;
+  bpm: number;
+  beatsPerBar: number;
+  beatUnit: number;
+}
+
+export interface TempoMap {
+  bpm: number;
+  beatsPerBar: number;
+  beatUnit: number;
+  offset: number; // seconds from the start of the audio to the first downbeat (bar 1)
+  changes: TempoChange[];
+}
+
+// How absolute times are shown: clock (mm:ss), musical (bar.beat.tick) or both
+export type TimeDisplayMode = 'clock' | 'bars' | 'both';
+
+// How clock positions are written: mm:ss.cc, plain seconds, samples or SMPTE HH:MM:SS:FF
+export type TimecodeFormat = 'clock' | 'seconds' | 'samples' | 'smpte24' | 'smpte25' | 'smpte2997df' | 'smpte30';
+
+export interface TimecodeSettings {
+  format: TimecodeFormat;
+  startOffset: number; // Show time of the first audio sample in seconds (e.g. 3600 for 01:00:00:00)
+}
+
+export interface TimeFormatOptions {
+  display: TimeDisplayMode;
+  tempoMap: TempoMap | null;
+  timecode: TimecodeSettings;
+  sampleRate: number; // For the samples format
+}
+
+export type SnapMode = 'off' | 'tenth' | 'bar' | 'beat' | 'half' | 'triplet' | 'quarter';
+
+// A project as persisted locally (the audio blob is stored separately under the same id)
+export interface ProjectRecord extends ProjectState {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// What happens when a setlist song plays out: stay put, cue up the next song, or play it
+export type SetlistAdvance = 'manual' | 'load' | 'play';
+
+// Each setlist entry is a saved project, so every song keeps its own audio and cue sheet
+export interface SetlistEntry {
+  id: string;
+  projectId: string;
+}
+
+export interface Setlist {
+  name: string;
+  entries: SetlistEntry[];
+  advance: SetlistAdvance;
+}
+
+export interface LoopRegion {
+  start: number;
+  end: number;
 }
 
+// How the timeline lays out the audio channels
+export type WaveformDisplayMode = 'mono' | 'stereo' | 'channels';
+
+export type AmplitudeScale = 'linear' | 'db';
+
+export type TimelineViewMode = 'waveform' | 'spectrogram';
+
+export type SpectrogramColorMap = 'viridis' | 'magma' | 'gray';
+
+export type FrequencyScale = 'linear' | 'log' | 'mel';
+
 export interface AudioVisualData {
   peaks: number[]; // Normalized -1 to 1 or 0 to 1
   length: number;
@@ -1,8 +1,22 @@
-export const formatTime = (seconds: number): string => {
-  const mins = Math.floor(seconds / 60);
-  const secs = Math.floor(seconds % 60);
-  const ms = Math.floor((seconds % 1) * 100);
-  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}.${ms.toString().padStart(2, '0')}`;
+import { TimeFormatOptions } from '../types';
+import { formatBarsBeats } from './tempo';
+import { formatClock, formatTimecode, parseTimecode } from './timecode';
+
+// Absolute positions follow the project's timecode format and start offset (plus musical
+// time if asked for). Without options it is plain mm:ss.cc, as used for durations.
+export const formatTime = (seconds: number, options?: TimeFormatOptions): string => {
+  if (!options) return formatClock(seconds);
+  const { format, startOffset } = options.timecode;
+  const clock = formatTimecode(seconds + startOffset, format, options.sampleRate);
+  if (!options.tempoMap || options.display === 'clock') return clock;
+  const bars = formatBarsBeats(seconds, options.tempoMap);
+  return options.display === 'bars' ? bars : `${clock} · ${bars}`;
+};
+
+// Read a position typed in the project's timecode format back into media time
+export const parseTime = (text: string, options: TimeFormatOptions): number | null => {
+  const showTime = parseTimecode(text, options.timecode.format, options.sampleRate);
+  return showTime === null ? null : showTime - options.timecode.startOffset;
 };
 
 export const generateRandomBrightColor = (): string => {
@@ -11,21 +25,12 @@ export const generateRandomBrightColor = (): string => {
   return `hsl(${hue}, 100%, 60%)`;
 };
 
-export const analyzeAudioBuffer = (buffer: AudioBuffer, samples: number): number[] => {
-  const channelData = buffer.getChannelData(0); // Use first channel
-  const blockSize = Math.floor(channelData.length / samples);
-  const filteredData = [];
-  
-  for (let i = 0; i < samples; i++) {
-    const start = i * blockSize;
-    let sum = 0;
-    for (let j = 0; j < blockSize; j++) {
-      sum += Math.abs(channelData[start + j]);
-    }
-    filteredData.push(sum / blockSize);
+// Average of all channels, e.g. as input for analysis workers
+export const mixToMono = (buffer: AudioBuffer): Float32Array => {
+  const mix = new Float32Array(buffer.length);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < buffer.length; i++) mix[i] += data[i] / buffer.numberOfChannels;
   }
-  
-  // Normalize
-  const multiplier = Math.pow(Math.max(...filteredData), -1);
-  return filteredData.map(n => n * multiplier);
+  return mix;
 };
@@ -0,0 +1,160 @@
+import { mixToMono } from './audioUtils';
+import { TimeStretchRequest, TimeStretchResponse } from './timeStretch';
+import { LtcRenderOptions, LtcRenderResponse, LtcSettings, getLtcStartFrame } from './ltc';
+import { ChannelPeaks, PeakAnalysisRequest, PeakAnalysisMessage } from './peaks';
+import { OnsetAnalysis, OnsetAnalysisRequest, OnsetAnalysisMessage } from './onsetDetection';
+
+// Main-thread wrappers around the analysis/DSP workers in /workers.
+// Each call spins up a dedicated worker and terminates it when done or aborted.
+
+/**
+ * Render a pitch-preserving stretched copy of `buffer` in a worker.
+ * One second of the result covers `rate` seconds of the original.
+ */
+export const renderTimeStretched = (
+  ctx: BaseAudioContext,
+  buffer: AudioBuffer,
+  rate: number,
+  signal?: AbortSignal
+): Promise<AudioBuffer> =>
+  new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/timeStretch.worker.ts', import.meta.url), { type: 'module' });
+    const abort = () => {
+      worker.terminate();
+      reject(new DOMException('Time stretch aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', abort, { once: true });
+
+    worker.onmessage = (e: MessageEvent<TimeStretchResponse>) => {
+      worker.terminate();
+      signal?.removeEventListener('abort', abort);
+      const { channels } = e.data;
+      const stretched = ctx.createBuffer(channels.length, channels[0].length, buffer.sampleRate);
+      channels.forEach((data, i) => stretched.copyToChannel(data, i));
+      resolve(stretched);
+    };
+    worker.onerror = (err) => {
+      worker.terminate();
+      signal?.removeEventListener('abort', abort);
+      reject(err);
+    };
+
+    const channels: Float32Array[] = [];
+    for (let i = 0; i < buffer.numberOfChannels; i++) channels.push(buffer.getChannelData(i).slice());
+    const request: TimeStretchRequest = { channels, rate };
+    worker.postMessage(request, channels.map(c => c.buffer));
+  });
+
+/**
+ * Render `length` samples of LTC for `settings` in a worker, at full scale:
+ * the level is applied by the gain node it plays through.
+ */
+export const renderLtcBuffer = (
+  ctx: BaseAudioContext,
+  settings: LtcSettings,
+  length: number,
+  sampleRate: number,
+  signal?: AbortSignal
+): Promise<AudioBuffer> =>
+  new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/ltc.worker.ts', import.meta.url), { type: 'module' });
+    const abort = () => {
+      worker.terminate();
+      reject(new DOMException('LTC render aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', abort, { once: true });
+
+    worker.onmessage = (e: MessageEvent<LtcRenderResponse>) => {
+      worker.terminate();
+      signal?.removeEventListener('abort', abort);
+      const buffer = ctx.createBuffer(1, length, sampleRate);
+      buffer.copyToChannel(e.data.samples, 0);
+      resolve(buffer);
+    };
+    worker.onerror = (err) => {
+      worker.terminate();
+      signal?.removeEventListener('abort', abort);
+      reject(err);
+    };
+
+    const request: LtcRenderOptions = {
+      format: settings.format,
+      startFrame: getLtcStartFrame(settings),
+      length,
+      sampleRate,
+      amplitude: 1,
+    };
+    worker.postMessage(request);
+  });
+
+/**
+ * Build waveform peak pyramids for every channel (and the mono mix) off the
+ * main thread, reporting progress (0-1) as it goes.
+ */
+export const analyzePeaks = (
+  buffer: AudioBuffer,
+  onProgress: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<ChannelPeaks> =>
+  new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/peaks.worker.ts', import.meta.url), { type: 'module' });
+    const abort = () => {
+      worker.terminate();
+      reject(new DOMException('Peak analysis aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', abort, { once: true });
+
+    worker.onmessage = (e: MessageEvent<PeakAnalysisMessage>) => {
+      if (e.data.type === 'progress') {
+        onProgress(e.data.progress);
+        return;
+      }
+      worker.terminate();
+      signal?.removeEventListener('abort', abort);
+      resolve(e.data.peaks);
+    };
+    worker.onerror = (err) => {
+      worker.terminate();
+      signal?.removeEventListener('abort', abort);
+      reject(err);
+    };
+
+    const channels: Float32Array[] = [];
+    for (let i = 0; i < buffer.numberOfChannels; i++) channels.push(buffer.getChannelData(i).slice());
+    const request: PeakAnalysisRequest = { channels, sampleRate: buffer.sampleRate };
+    worker.postMessage(request, channels.map(c => c.buffer));
+  });
+
+// Onset envelope and tempo/beat estimate for the whole buffer (mono mix)
+export const analyzeOnsets = (
+  buffer: AudioBuffer,
+  onProgress: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<OnsetAnalysis> =>
+  new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/onsets.worker.ts', import.meta.url), { type: 'module' });
+    const abort = () => {
+      worker.terminate();
+      reject(new DOMException('Onset analysis aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', abort, { once: true });
+
+    worker.onmessage = (e: MessageEvent<OnsetAnalysisMessage>) => {
+      if (e.data.type === 'progress') {
+        onProgress(e.data.progress);
+        return;
+      }
+      worker.terminate();
+      signal?.removeEventListener('abort', abort);
+      resolve(e.data.analysis);
+    };
+    worker.onerror = (err) => {
+      worker.terminate();
+      signal?.removeEventListener('abort', abort);
+      reject(err);
+    };
+
+    const mix = mixToMono(buffer);
+    const request: OnsetAnalysisRequest = { mix, sampleRate: buffer.sampleRate };
+    worker.postMessage(request, [mix.buffer]);
+  });
@@ -0,0 +1,648 @@
+import { Cue } from '../types';
+import { getCueEnd, isRangeCue, sortCuesByTime } from './cueUtils';
+
+// Chapter markers in compressed audio: ID3v2 CHAP/CTOC frames in MP3s, and in
+// MP4/M4A a Nero `chpl` atom and/or a QuickTime chapter text track. Writing
+// replaces only the ID3 tag or the `moov` atom (MP4 chapter titles go in a new
+// `mdat` at the end); audio frames are copied as they are.
+
+export type ChapterContainer = 'mp3' | 'mp4';
+
+// Original audio files that cues can be written back into: WAV cue chunks or chapters
+export type AudioMarkerFormat = 'wav' | ChapterContainer;
+
+export interface Chapter {
+  start: number; // Seconds
+  end: number | null; // Seconds; null where the format only stores start times (chpl)
+  title: string;
+}
+
+export interface ChapterInfo {
+  container: ChapterContainer;
+  chapters: Chapter[];
+}
+
+// ID3 CTOC and Nero chpl both count entries in a single byte
+export const MAX_CHAPTERS = 255;
+
+// A range cue is a chapter of its own length; a point cue runs until the next cue (or the end)
+export const cuesToChapters = (cues: Cue[], duration: number): Chapter[] => {
+  const sorted = sortCuesByTime(cues);
+  return sorted.map((cue, i) => {
+    const end = isRangeCue(cue) ? getCueEnd(cue) : sorted[i + 1]?.time ?? duration;
+    return { start: cue.time, end: Math.max(cue.time, Math.min(end, duration)), title: cue.label };
+  });
+};
+
+const ascii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+const latin1 = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0));
+
+export const detectChapterContainer = (data: ArrayBuffer): ChapterContainer | null => {
+  const bytes = new Uint8Array(data, 0, Math.min(12, data.byteLength));
+  if (bytes.length < 12) return null;
+  if (ascii(bytes, 4, 4) === 'ftyp') return 'mp4';
+  if (ascii(bytes, 0, 3) === 'ID3') return 'mp3';
+  // MPEG audio frame sync with a valid layer (ADTS AAC has layer bits 00)
+  if (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0 && (bytes[1] & 0x06) !== 0) return 'mp3';
+  return null;
+};
+
+// --- ID3v2 ---------------------------------------------------------------
+
+interface Id3Frame {
+  id: string;
+  flags: number;
+  data: Uint8Array;
+}
+
+interface Id3Tag {
+  version: number; // Major version, e.g. 3 for ID3v2.3
+  frames: Id3Frame[];
+  end: number; // Offset of the first byte after the tag (and its footer)
+}
+
+const readSyncsafe = (b: Uint8Array, o: number) =>
+  ((b[o] & 0x7f) << 21) | ((b[o + 1] & 0x7f) << 14) | ((b[o + 2] & 0x7f) << 7) | (b[o + 3] & 0x7f);
+
+const readUint32 = (b: Uint8Array, o: number) => ((b[o] << 24) | (b[o + 1] << 16) | (b[o + 2] << 8) | b[o + 3]) >>> 0;
+
+const uint32 = (value: number) => {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value);
+  return bytes;
+};
+
+const syncsafe = (value: number) =>
+  Uint8Array.of((value >> 21) & 0x7f, (value >> 14) & 0x7f, (value >> 7) & 0x7f, value & 0x7f);
+
+// Undo unsynchronisation: every 0xFF 0x00 was a plain 0xFF
+const resync = (bytes: Uint8Array): Uint8Array => {
+  const out = new Uint8Array(bytes.length);
+  let length = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    out[length++] = bytes[i];
+    if (bytes[i] === 0xff && bytes[i + 1] === 0x00) i++;
+  }
+  return out.subarray(0, length);
+};
+
+const readId3Frames = (bytes: Uint8Array, version: number): Id3Frame[] => {
+  const frames: Id3Frame[] = [];
+  let offset = 0;
+  while (offset + 10 <= bytes.length) {
+    const id = ascii(bytes, offset, 4);
+    if (!/^[A-Z0-9]{4}$/.test(id)) break; // Padding
+    const size = version >= 4 ? readSyncsafe(bytes, offset + 4) : readUint32(bytes, offset + 4);
+    frames.push({ id, flags: (bytes[offset + 8] << 8) | bytes[offset + 9], data: bytes.subarray(offset + 10, offset + 10 + size) });
+    offset += 10 + size;
+  }
+  return frames;
+};
+
+const readId3 = (data: ArrayBuffer): Id3Tag | null => {
+  const bytes = new Uint8Array(data);
+  if (bytes.length < 10 || ascii(bytes, 0, 3) !== 'ID3') return null;
+  const version = bytes[3];
+  const flags = bytes[5];
+  const size = readSyncsafe(bytes, 6);
+  const end = 10 + size + (version >= 4 && flags & 0x10 ? 10 : 0);
+  // ID3v2.2 uses three-letter frame IDs and has no chapter frames
+  if (version < 3) return { version, frames: [], end };
+
+  let body = bytes.subarray(10, Math.min(bytes.length, 10 + size));
+  if (version === 3 && flags & 0x80) body = resync(body);
+  if (flags & 0x40) body = body.subarray(version >= 4 ? readSyncsafe(body, 0) : readUint32(body, 0) + 4);
+  return { version, frames: readId3Frames(body, version), end };
+};
+
+// Frame contents with grouping, length and unsynchronisation undone; null if compressed or encrypted
+const frameContent = (frame: Id3Frame, version: number): Uint8Array | null => {
+  let data = frame.data;
+  if (version >= 4) {
+    if (frame.flags & 0x000c) return null;
+    if (frame.flags & 0x0040) data = data.subarray(1);
+    if (frame.flags & 0x0001) data = data.subarray(4);
+    if (frame.flags & 0x0002) data = resync(data);
+  } else {
+    if (frame.flags & 0x00c0) return null;
+    if (frame.flags & 0x0020) data = data.subarray(1);
+  }
+  return data;
+};
+
+const decodeId3Text = (data: Uint8Array): string => {
+  const body = data.subarray(1);
+  let text: string;
+  switch (data[0]) {
+    case 1: // UTF-16 with byte order mark
+      text = new TextDecoder(body[0] === 0xfe && body[1] === 0xff ? 'utf-16be' : 'utf-16le').decode(body);
+      break;
+    case 2:
+      text = new TextDecoder('utf-16be').decode(body);
+      break;
+    case 3:
+      text = new TextDecoder('utf-8').decode(body);
+      break;
+    default:
+      text = new TextDecoder('latin1').decode(body);
+  }
+  return text.split('\0')[0].trim();
+};
+
+const encodeId3Text = (text: string, version: number): Uint8Array => {
+  if (version >= 4) return concat([Uint8Array.of(3), new TextEncoder().encode(text)]);
+  if (/^[\x00-\xff]*$/.test(text)) return concat([Uint8Array.of(0), latin1(text)]);
+  const utf16 = new Uint8Array(2 + text.length * 2);
+  const view = new DataView(utf16.buffer);
+  view.setUint16(0, 0xfeff, true);
+  for (let i = 0; i < text.length; i++) view.setUint16(2 + i * 2, text.charCodeAt(i), true);
+  return concat([Uint8Array.of(1), utf16]);
+};
+
+const encodeId3Frame = (id: string, flags: number, data: Uint8Array, version: number) =>
+  concat([latin1(id), version >= 4 ? syncsafe(data.length) : uint32(data.length), Uint8Array.of(flags >> 8, flags & 0xff), data]);
+
+const readZString = (bytes: Uint8Array, offset: number): [string, number] => {
+  const end = bytes.indexOf(0, offset);
+  const stop = end < 0 ? bytes.length : end;
+  return [ascii(bytes, offset, stop - offset), stop + 1];
+};
+
+const readId3Chapters = (tag: Id3Tag): Chapter[] =>
+  tag.frames
+    .filter(f => f.id === 'CHAP')
+    .flatMap((frame): Chapter[] => {
+      const data = frameContent(frame, tag.version);
+      if (!data) return [];
+      const [elementId, offset] = readZString(data, 0);
+      if (offset + 16 > data.length) return [];
+      const title = readId3Frames(data.subarray(offset + 16), tag.version).find(f => f.id === 'TIT2');
+      const titleData = title && frameContent(title, tag.version);
+      return [{
+        start: readUint32(data, offset) / 1000,
+        end: readUint32(data, offset + 4) / 1000,
+        title: (titleData && decodeId3Text(titleData)) || elementId,
+      }];
+    })
+    .sort((a, b) => a.start - b.start);
+
+const writeId3Chapters = (data: ArrayBuffer, chapters: Chapter[]): Blob => {
+  const tag = readId3(data);
+  if (tag && tag.version < 3) throw new Error('ID3v2.2 tags are not supported');
+  if (!tag && chapters.length === 0) return new Blob([data], { type: 'audio/mpeg' });
+  const version = tag?.version ?? 3;
+
+  const frames = (tag?.frames ?? [])
+    .filter(f => f.id !== 'CHAP' && f.id !== 'CTOC')
+    .map(f => encodeId3Frame(f.id, f.flags, f.data, version));
+  if (chapters.length > 0) {
+    const ids = chapters.map((_, i) => `chp${i}`);
+    const toc = concat([latin1('toc\0'), Uint8Array.of(0x03, chapters.length), ...ids.map(id => latin1(`${id}\0`))]); // Top-level, ordered
+    frames.push(encodeId3Frame('CTOC', 0, toc, version));
+    chapters.forEach((chapter, i) => {
+      const title = encodeId3Frame('TIT2', 0, encodeId3Text(chapter.title, version), version);
+      const end = chapter.end ?? chapters[i + 1]?.start ?? chapter.start;
+      frames.push(encodeId3Frame('CHAP', 0, concat([
+        latin1(`${ids[i]}\0`),
+        uint32(Math.round(chapter.start * 1000)),
+        uint32(Math.round(end * 1000)),
+        uint32(0xffffffff), // Byte offsets unused
+        uint32(0xffffffff),
+        title,
+      ]), version));
+    });
+  }
+
+  const body = concat(frames);
+  // Unsynchronisation, extended header and footer are dropped; the frames above are stored plainly
+  const header = concat([latin1('ID3'), Uint8Array.of(version, 0, 0), syncsafe(body.length)]);
+  return new Blob([header, body, data.slice(tag?.end ?? 0)], { type: 'audio/mpeg' });
+};
+
+// --- MP4 -----------------------------------------------------------------
+
+interface Mp4Box {
+  type: string;
+  start: number;
+  headerSize: number;
+  size: number;
+}
+
+const readBoxes = (view: DataView, start: number, end: number): Mp4Box[] => {
+  const boxes: Mp4Box[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    let headerSize = 8;
+    if (size === 1 && offset + 16 <= end) {
+      size = view.getUint32(offset + 8) * 2 ** 32 + view.getUint32(offset + 12);
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset; // Runs to the end of the file
+    }
+    if (size < headerSize) break;
+    const type = String.fromCharCode(...new Uint8Array(view.buffer, offset + 4, 4));
+    boxes.push({ type, start: offset, headerSize, size: Math.min(size, end - offset) });
+    offset += size;
+  }
+  return boxes;
+};
+
+const childBoxes = (view: DataView, box: Mp4Box) => readBoxes(view, box.start + box.headerSize, box.start + box.size);
+
+const findBox = (view: DataView, box: Mp4Box | undefined, ...path: string[]): Mp4Box | undefined =>
+  path.reduce<Mp4Box | undefined>((parent, type) => parent && childBoxes(view, parent).find(b => b.type === type), box);
+
+const payload = (box: Mp4Box) => box.start + box.headerSize;
+
+// Whether `length` bytes at `offset` lie inside `box`; truncated files end boxes early
+const fits = (box: Mp4Box, offset: number, length: number) => offset + length <= box.start + box.size;
+
+// Entries of a table whose 32-bit count sits just before `header` bytes into the payload,
+// limited to the ones that are actually there
+const tableCount = (view: DataView, box: Mp4Box, header: number, entrySize: number) => {
+  const entries = payload(box) + header;
+  if (!fits(box, entries - 4, 4)) return 0;
+  return Math.min(view.getUint32(entries - 4), Math.floor((box.start + box.size - entries) / entrySize));
+};
+
+// Full boxes start with a version byte and 24 bits of flags; tkhd and mdhd have wider times in version 1
+const versionedUint32 = (view: DataView, box: Mp4Box, v0: number, v1: number): number | null => {
+  if (!fits(box, payload(box), 1)) return null;
+  const offset = payload(box) + (view.getUint8(payload(box)) === 1 ? v1 : v0);
+  return fits(box, offset, 4) ? view.getUint32(offset) : null;
+};
+
+const trackId = (view: DataView, trak: Mp4Box) => {
+  const tkhd = findBox(view, trak, 'tkhd');
+  return tkhd ? versionedUint32(view, tkhd, 12, 20) : null;
+};
+
+// Track IDs named by `tref/chap` boxes: QuickTime chapter text tracks
+const chapterTrackIds = (view: DataView, moov: Mp4Box) => {
+  const ids = new Set<number>();
+  for (const trak of childBoxes(view, moov).filter(b => b.type === 'trak')) {
+    const chap = findBox(view, trak, 'tref', 'chap');
+    if (!chap) continue;
+    for (let o = payload(chap); o + 4 <= chap.start + chap.size; o += 4) ids.add(view.getUint32(o));
+  }
+  return ids;
+};
+
+const readChpl = (view: DataView, chpl: Mp4Box): Chapter[] => {
+  let o = payload(chpl);
+  if (!fits(chpl, o, 1)) return [];
+  o += view.getUint8(o) ? 8 : 4; // Version 1 adds four reserved bytes
+  if (!fits(chpl, o, 1)) return [];
+  const count = view.getUint8(o++);
+  const starts: { start: number; title: string }[] = [];
+  for (let i = 0; i < count && o + 9 <= chpl.start + chpl.size; i++) {
+    const start = (view.getUint32(o) * 2 ** 32 + view.getUint32(o + 4)) / 1e7; // 100 ns units
+    const length = view.getUint8(o + 8);
+    const title = new TextDecoder().decode(new Uint8Array(view.buffer, o + 9, Math.min(length, chpl.start + chpl.size - o - 9)));
+    starts.push({ start, title });
+    o += 9 + length;
+  }
+  return starts.sort((a, b) => a.start - b.start).map(c => ({ ...c, end: null }));
+};
+
+// A QuickTime text track: each sample is a 16-bit length and the title, lasting its stts duration
+const readChapterTrack = (view: DataView, trak: Mp4Box): Chapter[] => {
+  const mdhd = findBox(view, trak, 'mdia', 'mdhd');
+  const stbl = findBox(view, trak, 'mdia', 'minf', 'stbl');
+  if (!mdhd || !stbl) return [];
+  const timescale = versionedUint32(view, mdhd, 12, 20);
+  const boxes = childBoxes(view, stbl);
+  const stts = boxes.find(b => b.type === 'stts');
+  const stsz = boxes.find(b => b.type === 'stsz');
+  const stsc = boxes.find(b => b.type === 'stsc');
+  const stco = boxes.find(b => b.type === 'stco' || b.type === 'co64');
+  if (!timescale || !stts || !stsz || !stsc || !stco || !fits(stsz, payload(stsz) + 4, 8)) return [];
+
+  const fixedSize = view.getUint32(payload(stsz) + 4);
+  // A fixed-size table has no entries; its samples still have to fit in the file
+  const sampleCount = fixedSize
+    ? Math.min(view.getUint32(payload(stsz) + 8), Math.floor(view.byteLength / fixedSize))
+    : tableCount(view, stsz, 12, 4);
+  const sizeOf = (i: number) => fixedSize || view.getUint32(payload(stsz) + 12 + i * 4);
+  const durations: number[] = [];
+  for (let i = 0, o = payload(stts) + 8; i < tableCount(view, stts, 8, 8); i++, o += 8) {
+    for (let n = 0; n < view.getUint32(o) && durations.length < sampleCount; n++) durations.push(view.getUint32(o + 4));
+  }
+  const wide = stco.type === 'co64';
+  const chunkCount = tableCount(view, stco, 8, wide ? 8 : 4);
+  const chunkOffset = (i: number) => wide
+    ? view.getUint32(payload(stco) + 8 + i * 8) * 2 ** 32 + view.getUint32(payload(stco) + 12 + i * 8)
+    : view.getUint32(payload(stco) + 8 + i * 4);
+  const runs = Array.from({ length: tableCount(view, stsc, 8, 12) }, (_, i) => ({
+    firstChunk: view.getUint32(payload(stsc) + 8 + i * 12) - 1,
+    samplesPerChunk: view.getUint32(payload(stsc) + 12 + i * 12),
+  }));
+
+  const chapters: Chapter[] = [];
+  let sample = 0;
+  let time = 0;
+  for (let chunk = 0; chunk < chunkCount && sample < sampleCount; chunk++) {
+    const run = runs.filter(r => r.firstChunk <= chunk).pop();
+    let offset = chunkOffset(chunk);
+    for (let n = 0; n < (run?.samplesPerChunk ?? 0) && sample < sampleCount; n++, sample++) {
+      const duration = (durations[sample] ?? 0) / timescale;
+      if (offset + 2 <= view.byteLength) {
+        const length = Math.min(view.getUint16(offset), view.byteLength - offset - 2);
+        const text = new Uint8Array(view.buffer, offset + 2, length);
+        const title = text[0] === 0xfe && text[1] === 0xff
+          ? new TextDecoder('utf-16be').decode(text.subarray(2))
+          : new TextDecoder().decode(text);
+        // An untitled first sample only pads the track up to the first chapter
+        if (title.trim() || time > 0) chapters.push({ start: time, end: time + duration, title: title.trim() });
+      }
+      offset += sizeOf(sample);
+      time += duration;
+    }
+  }
+  return chapters;
+};
+
+const readMp4Chapters = (data: ArrayBuffer): Chapter[] => {
+  const view = new DataView(data);
+  const moov = readBoxes(view, 0, data.byteLength).find(b => b.type === 'moov');
+  if (!moov) return [];
+  // iTunes-style chapter tracks win over chpl when a file has both
+  const ids = chapterTrackIds(view, moov);
+  const track = childBoxes(view, moov).find(b => b.type === 'trak' && ids.has(trackId(view, b) ?? -1));
+  const fromTrack = track ? readChapterTrack(view, track) : [];
+  if (fromTrack.length > 0) return fromTrack;
+  const chpl = findBox(view, moov, 'udta', 'chpl');
+  return chpl ? readChpl(view, chpl) : [];
+};
+
+const boxBytes = (type: string, parts: Uint8Array[]) => {
+  const content = concat(parts);
+  return concat([uint32(8 + content.length), latin1(type), content]);
+};
+
+const fullBoxBytes = (type: string, version: number, flags: number, parts: Uint8Array[]) =>
+  boxBytes(type, [Uint8Array.of(version, (flags >> 16) & 0xff, (flags >> 8) & 0xff, flags & 0xff), ...parts]);
+
+const uint16 = (value: number) => Uint8Array.of((value >> 8) & 0xff, value & 0xff);
+
+const writeChpl = (chapters: Chapter[]) => {
+  const entries = chapters.map(chapter => {
+    let title = new TextEncoder().encode(chapter.title);
+    // One length byte: trim whole characters until the UTF-8 fits
+    for (let text = chapter.title; title.length > 255; ) {
+      text = text.slice(0, -1);
+      title = new TextEncoder().encode(text);
+    }
+    const start = new DataView(new ArrayBuffer(8));
+    const units = Math.round(chapter.start * 1e7);
+    start.setUint32(0, Math.floor(units / 2 ** 32));
+    start.setUint32(4, units % 2 ** 32);
+    return concat([new Uint8Array(start.buffer), Uint8Array.of(title.length), title]);
+  });
+  return boxBytes('chpl', [Uint8Array.of(1, 0, 0, 0, 0, 0, 0, 0, chapters.length), ...entries]);
+};
+
+// QuickTime chapter track: the chapter list Apple Podcasts, iTunes and QuickTime
+// read (they ignore chpl). A disabled text track, referenced from the audio
+// track's `tref/chap`, with one sample per chapter.
+
+const CHAPTER_TIMESCALE = 1000;
+
+const UNITY_MATRIX = concat([0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000].map(uint32));
+
+// Timed-text sample entry with a default style and a single font, as Apple's and ffmpeg's chapter tracks have
+const TEXT_SAMPLE_ENTRY = boxBytes('text', [
+  new Uint8Array(6), uint16(1), // Reserved, data reference index
+  Uint8Array.of(
+    0, 0, 0, 1, // Display flags
+    0, 0, // Justification
+    0, 0, 0, 0, // Background colour
+    0, 0, 0, 0, 0, 0, 0, 0, // Default text box
+    0, 0, 0, 0, 0, 1, 0, 0, 0, 0, 0, 0, // Style: characters, font 1, face, size, colour
+  ),
+  boxBytes('ftab', [uint16(1), uint16(1), Uint8Array.of(0)]),
+]);
+
+// Marks a text sample as UTF-8
+const ENCD = boxBytes('encd', [uint32(0x100)]);
+
+interface ChapterTrack {
+  id: number;
+  samples: Uint8Array[]; // Stored back to back as one chunk
+  durations: number[]; // CHAPTER_TIMESCALE units
+  movieTimescale: number;
+}
+
+/**
+ * Samples for a chapter track: each chapter lasts until the next one starts and
+ * the last until the end of the file. Text tracks play from 0, so a first
+ * chapter after 0 gets an untitled sample in front of it.
+ */
+const chapterSamples = (chapters: Chapter[], duration: number) => {
+  const entries = chapters.map(c => ({ start: Math.round(c.start * CHAPTER_TIMESCALE), title: c.title }));
+  if (entries[0].start > 0) entries.unshift({ start: 0, title: '' });
+  const last = chapters[chapters.length - 1];
+  const end = Math.max(entries[entries.length - 1].start, Math.round(Math.max(duration, last.end ?? 0) * CHAPTER_TIMESCALE));
+  return {
+    samples: entries.map(({ title }) => {
+      const text = new TextEncoder().encode(title).subarray(0, 0xffff);
+      return concat([uint16(text.length), text, ENCD]);
+    }),
+    durations: entries.map((entry, i) => (entries[i + 1]?.start ?? end) - entry.start),
+  };
+};
+
+const chapterTrakBytes = ({ id, samples, durations, movieTimescale }: ChapterTrack, sampleOffset: number) => {
+  if (sampleOffset > 0xffffffff) throw new Error('Chunk offsets overflow 32 bits; the file would need co64 tables');
+  const length = durations.reduce((sum, d) => sum + d, 0);
+  const tkhd = fullBoxBytes('tkhd', 0, 0, [ // Flags 0: disabled, so players don't show the titles as subtitles
+    uint32(0), uint32(0), uint32(id), uint32(0),
+    uint32(Math.round((length / CHAPTER_TIMESCALE) * movieTimescale)),
+    new Uint8Array(16), // Reserved, layer, alternate group, volume, reserved
+    UNITY_MATRIX,
+    uint32(0), uint32(0), // Width, height
+  ]);
+  const mdhd = fullBoxBytes('mdhd', 0, 0, [uint32(0), uint32(0), uint32(CHAPTER_TIMESCALE), uint32(length), uint16(0x55c4), uint16(0)]); // 'und'
+  const hdlr = fullBoxBytes('hdlr', 0, 0, [uint32(0), latin1('text'), new Uint8Array(12), latin1('Chapters\0')]);
+  const gmhd = boxBytes('gmhd', [
+    fullBoxBytes('gmin', 0, 0, [uint16(0x40), uint16(0x8000), uint16(0x8000), uint16(0x8000), uint16(0), uint16(0)]),
+    boxBytes('text', [UNITY_MATRIX]),
+  ]);
+  const dinf = boxBytes('dinf', [fullBoxBytes('dref', 0, 0, [uint32(1), fullBoxBytes('url ', 0, 1, [])])]);
+  const stbl = boxBytes('stbl', [
+    fullBoxBytes('stsd', 0, 0, [uint32(1), TEXT_SAMPLE_ENTRY]),
+    fullBoxBytes('stts', 0, 0, [uint32(durations.length), ...durations.flatMap(d => [uint32(1), uint32(d)])]),
+    fullBoxBytes('stsz', 0, 0, [uint32(0), uint32(samples.length), ...samples.map(sample => uint32(sample.length))]),
+    fullBoxBytes('stsc', 0, 0, [uint32(1), uint32(1), uint32(samples.length), uint32(1)]),
+    fullBoxBytes('stco', 0, 0, [uint32(1), uint32(sampleOffset)]),
+  ]);
+  return boxBytes('trak', [tkhd, boxBytes('mdia', [mdhd, hdlr, boxBytes('minf', [gmhd, dinf, stbl])])]);
+};
+
+interface MovieHeader {
+  timescale: number;
+  duration: number; // Seconds
+  nextTrackId: number;
+  nextTrackIdOffset: number; // From the start of the mvhd box
+}
+
+const readMvhd = (view: DataView, moov: Mp4Box): MovieHeader | null => {
+  const mvhd = findBox(view, moov, 'mvhd');
+  if (!mvhd || !fits(mvhd, payload(mvhd), 1)) return null;
+  const p = payload(mvhd);
+  const wide = view.getUint8(p) === 1; // 64-bit times
+  const next = p + (wide ? 108 : 96);
+  if (!fits(mvhd, next, 4)) return null;
+  const timescale = view.getUint32(p + (wide ? 20 : 12));
+  const duration = wide ? view.getUint32(p + 24) * 2 ** 32 + view.getUint32(p + 28) : view.getUint32(p + 16);
+  return { timescale, duration: timescale ? duration / timescale : 0, nextTrackId: view.getUint32(next), nextTrackIdOffset: next - mvhd.start };
+};
+
+const handlerType = (view: DataView, trak: Mp4Box) => {
+  const hdlr = findBox(view, trak, 'mdia', 'hdlr');
+  return hdlr && fits(hdlr, payload(hdlr) + 8, 4) ? String.fromCharCode(...new Uint8Array(view.buffer, payload(hdlr) + 8, 4)) : null;
+};
+
+// Containers whose children are rewritten; everything else is copied byte for byte
+const MP4_CONTAINERS = new Set(['moov', 'trak', 'mdia', 'minf', 'stbl', 'tref', 'udta']);
+
+/**
+ * Rebuild `moov` with `chapters` as a chpl atom in moov/udta and, when `track`
+ * is given, as a new chapter track whose samples sit at `sampleOffset`. Any
+ * previous chapter track is dropped (its samples stay in mdat, unreferenced).
+ * Chunk offsets pointing past the old moov move by `shift`, for files that keep
+ * moov in front of the audio.
+ */
+const rewriteMoov = (
+  view: DataView,
+  moov: Mp4Box,
+  chapters: Chapter[],
+  track: ChapterTrack | null,
+  shift: number,
+  sampleOffset: number
+): Uint8Array => {
+  const moovEnd = moov.start + moov.size;
+  const dropTracks = chapterTrackIds(view, moov);
+  const raw = (box: Mp4Box) => new Uint8Array(view.buffer, box.start, box.size);
+  const traks = childBoxes(view, moov).filter(b => b.type === 'trak' && !dropTracks.has(trackId(view, b) ?? -1));
+  // The chapter track hangs off the first sound track
+  const audio = track ? traks.find(b => handlerType(view, b) === 'soun') ?? traks[0] : undefined;
+  const audioTref = audio && findBox(view, audio, 'tref');
+  const chapRef = track && boxBytes('chap', [uint32(track.id)]);
+
+  const rewrite = (box: Mp4Box, parent: string): Uint8Array | null => {
+    if (box.type === 'trak' && dropTracks.has(trackId(view, box) ?? -1)) return null;
+    if (box.type === 'chap' && parent === 'tref') return null;
+    if (box.type === 'chpl' && parent === 'udta') return null;
+    if (box.type === 'mvhd' && track) {
+      const copy = raw(box).slice();
+      new DataView(copy.buffer).setUint32(readMvhd(view, moov)!.nextTrackIdOffset, track.id + 1);
+      return copy;
+    }
+    if (box.type === 'stco' || box.type === 'co64') {
+      const copy = raw(box).slice();
+      const out = new DataView(copy.buffer);
+      const wide = box.type === 'co64';
+      const count = tableCount(view, box, 8, wide ? 8 : 4);
+      for (let i = 0; i < count; i++) {
+        const o = box.headerSize + 8 + i * (wide ? 8 : 4);
+        const offset = wide ? out.getUint32(o) * 2 ** 32 + out.getUint32(o + 4) : out.getUint32(o);
+        if (offset < moovEnd) continue;
+        const moved = offset + shift;
+        if (wide) {
+          out.setUint32(o, Math.floor(moved / 2 ** 32));
+          out.setUint32(o + 4, moved % 2 ** 32);
+        } else if (moved > 0xffffffff) {
+          throw new Error('Chunk offsets overflow 32 bits; the file would need co64 tables');
+        } else {
+          out.setUint32(o, moved);
+        }
+      }
+      return copy;
+    }
+    if (!MP4_CONTAINERS.has(box.type) || (box.type === 'udta' && parent !== 'moov')) return raw(box);
+
+    const children = childBoxes(view, box).map(child => rewrite(child, box.type)).filter((c): c is Uint8Array => c !== null);
+    if (chapRef && box.start === audioTref?.start) children.push(chapRef);
+    if (chapRef && box.start === audio?.start && !audioTref) children.push(boxBytes('tref', [chapRef]));
+    if (box.type === 'moov' && track) children.push(chapterTrakBytes(track, sampleOffset));
+    if (box.type === 'udta' && chapters.length > 0) children.push(writeChpl(chapters));
+    if (box.type === 'tref' && children.length === 0) return null;
+    return boxBytes(box.type, children);
+  };
+
+  const result = rewrite(moov, '')!;
+  if (chapters.length === 0 || findBox(view, moov, 'udta')) return result;
+  // No udta yet: append one holding the chapter list
+  return boxBytes('moov', [result.subarray(8), boxBytes('udta', [writeChpl(chapters)])]);
+};
+
+const writeMp4Chapters = (data: ArrayBuffer, chapters: Chapter[]): Blob => {
+  const view = new DataView(data);
+  const top = readBoxes(view, 0, data.byteLength);
+  const moov = top.find(b => b.type === 'moov');
+  if (!moov) throw new Error('The MP4 file has no moov atom');
+  if (top.some(b => b.type === 'moof')) throw new Error('Fragmented MP4 files are not supported');
+
+  let track: ChapterTrack | null = null;
+  if (chapters.length > 0) {
+    const header = readMvhd(view, moov);
+    if (!header) throw new Error('The MP4 file has no readable movie header');
+    const ids = childBoxes(view, moov).filter(b => b.type === 'trak').map(b => trackId(view, b) ?? 0);
+    const id = Math.max(header.nextTrackId - 1, ...ids) + 1;
+    track = { id, movieTimescale: header.timescale, ...chapterSamples(chapters, header.duration) };
+  }
+
+  // The size change only depends on the boxes, not on the offsets inside them
+  const shift = rewriteMoov(view, moov, chapters, track, 0, 0).length - moov.size;
+  // Chapter titles go in their own mdat after everything else
+  const next = rewriteMoov(view, moov, chapters, track, shift, data.byteLength + shift + 8);
+
+  const parts: BlobPart[] = [data.slice(0, moov.start), next];
+  const last = top[top.length - 1];
+  if (track && last !== moov && view.getUint32(last.start) === 0) {
+    // A box sized 0 runs to the end of the file and would swallow the new mdat: give it its real size
+    if (last.size > 0xffffffff) throw new Error('The last box in the MP4 file is too large to resize');
+    parts.push(data.slice(moov.start + moov.size, last.start), uint32(last.size), data.slice(last.start + 4));
+  } else {
+    parts.push(data.slice(moov.start + moov.size));
+  }
+  if (track) parts.push(boxBytes('mdat', track.samples));
+  return new Blob(parts, { type: 'audio/mp4' });
+};
+
+// --- Entry points --------------------------------------------------------
+
+// Null when `data` is neither an MP3 nor an MP4 file
+export const readChapters = (data: ArrayBuffer): ChapterInfo | null => {
+  const container = detectChapterContainer(data);
+  if (container === 'mp3') {
+    const tag = readId3(data);
+    return { container, chapters: tag ? readId3Chapters(tag) : [] };
+  }
+  if (container === 'mp4') return { container, chapters: readMp4Chapters(data) };
+  return null;
+};
+
+export const writeChapters = (data: ArrayBuffer, chapters: Chapter[]): Blob => {
+  if (chapters.length > MAX_CHAPTERS) throw new Error(`At most ${MAX_CHAPTERS} chapters fit in a chapter table`);
+  const sorted = [...chapters].sort((a, b) => a.start - b.start);
+  switch (detectChapterContainer(data)) {
+    case 'mp3': return writeId3Chapters(data, sorted);
+    case 'mp4': return writeMp4Chapters(data, sorted);
+    default: throw new Error('Not an MP3 or MP4 file');
+  }
+};
@@ -0,0 +1,189 @@
+import { Cue, Lane, LaneClick, LoopRegion } from '../types';
+import { isObject } from './guards';
+import { loadStoredSettings, saveStoredSettings } from './settingsStore';
+
+// Audible count-in before cues ("3-2-1" over the last seconds). Clicks are Web
+// Audio oscillators started at exact audioCtx times, computed from the same
+// anchor playAudio uses for the program source, and mixed into a monitor gain
+// that can be muted without touching the program.
+
+export interface CountInSettings {
+  enabled: boolean;
+  count: number; // Clicks before each cue
+  interval: number; // Seconds between clicks; the last one lands this long before the cue
+  volume: number; // Monitor level, 0-1
+  muted: boolean;
+}
+
+export const DEFAULT_COUNT_IN_SETTINGS: CountInSettings = {
+  enabled: false,
+  count: 3,
+  interval: 1,
+  volume: 0.8,
+  muted: false,
+};
+
+export const DEFAULT_LANE_CLICK: LaneClick = { enabled: true, pitch: 880, volume: 0.8 };
+
+export const MAX_COUNT_IN = 8;
+
+const COUNT_IN_STORAGE_KEY = 'audiocue:countIn';
+
+export const loadCountInSettings = (): CountInSettings => loadStoredSettings(COUNT_IN_STORAGE_KEY, DEFAULT_COUNT_IN_SETTINGS);
+
+export const saveCountInSettings = (settings: CountInSettings) => saveStoredSettings(COUNT_IN_STORAGE_KEY, settings);
+
+export const getLaneClick = (lane: Lane | undefined): LaneClick => lane?.click ?? DEFAULT_LANE_CLICK;
+
+// Coerce a lane's click settings from an imported file
+export const parseLaneClick = (raw: unknown): LaneClick | undefined => {
+  if (!isObject(raw)) return undefined;
+  const pitch = Number(raw.pitch);
+  const volume = Number(raw.volume);
+  return {
+    enabled: raw.enabled !== false,
+    pitch: pitch >= 20 && pitch <= 20000 ? pitch : DEFAULT_LANE_CLICK.pitch,
+    volume: volume >= 0 && volume <= 1 ? volume : DEFAULT_LANE_CLICK.volume,
+  };
+};
+
+// Where the running program source sits: media time `offset` was at audioCtx
+// time `ctxTime`, moving at `rate` media seconds per second and wrapping at `loop`
+export interface PlaybackAnchor {
+  ctxTime: number;
+  offset: number;
+  rate: number;
+  loop: LoopRegion | null;
+}
+
+const CLICK_LENGTH = 0.06; // Seconds
+const ACCENT_RATIO = 2; // The last click before a cue is an octave up
+// Scheduled ahead of the playback loop; long enough to ride out a dropped frame
+const LOOKAHEAD = 0.25;
+
+export class CountInScheduler {
+  private ctx: AudioContext;
+  private monitor: GainNode;
+  private anchor: PlaybackAnchor | null = null;
+  private cues: Cue[] = [];
+  private lanes: Lane[] = [];
+  private settings: CountInSettings = DEFAULT_COUNT_IN_SETTINGS;
+  private scheduled = new Map<string, OscillatorNode>(); // "cue:click:pass" -> node
+
+  constructor(ctx: AudioContext) {
+    this.ctx = ctx;
+    this.monitor = ctx.createGain();
+    // Up-mix to a stereo pair so the clicks stay centred on discrete multi-channel outputs
+    this.monitor.channelCount = 2;
+    this.monitor.channelCountMode = 'explicit';
+    this.monitor.channelInterpretation = 'speakers';
+    this.monitor.connect(ctx.destination);
+  }
+
+  // Follow the program onto the LTC routing so clicks never land on the timecode channel
+  setOutput(node: AudioNode) {
+    this.monitor.disconnect();
+    this.monitor.connect(node);
+  }
+
+  setShow(cues: Cue[], lanes: Lane[]) {
+    this.cues = cues;
+    this.lanes = lanes;
+  }
+
+  setSettings(settings: CountInSettings) {
+    this.settings = settings;
+    this.monitor.gain.setValueAtTime(settings.muted ? 0 : settings.volume, this.ctx.currentTime);
+    if (!settings.enabled) this.cancel();
+  }
+
+  // A new source started (play, seek, speed change) or the loop moved under the running one
+  start(anchor: PlaybackAnchor) {
+    this.cancel();
+    this.anchor = anchor;
+  }
+
+  stop() {
+    this.cancel();
+    this.anchor = null;
+  }
+
+  // Called from the playback loop: schedule every click due within the lookahead
+  update() {
+    const anchor = this.anchor;
+    if (!anchor || !this.settings.enabled || anchor.rate <= 0) return;
+    const now = this.ctx.currentTime;
+    const from = anchor.offset + (now - anchor.ctxTime) * anchor.rate;
+    const to = from + LOOKAHEAD * anchor.rate;
+    const { count, interval } = this.settings;
+
+    for (const cue of this.cues) {
+      const click = getLaneClick(this.lanes[cue.row]);
+      if (!click.enabled || click.volume <= 0) continue;
+      for (let k = 1; k <= count; k++) {
+        const media = cue.time - k * interval;
+        if (media < 0) break;
+        for (const { pass, linear } of this.occurrences(media, from, to)) {
+          const key = `${cue.id}:${k}:${pass}`;
+          if (this.scheduled.has(key)) continue;
+          const at = anchor.ctxTime + (linear - anchor.offset) / anchor.rate;
+          if (at < now) continue;
+          this.scheduled.set(key, this.playClick(at, k === 1 ? click.pitch * ACCENT_RATIO : click.pitch, click.volume, key));
+        }
+      }
+    }
+  }
+
+  // One click now, e.g. to audition a lane's pitch
+  preview(click: LaneClick, accent = false) {
+    this.playClick(this.ctx.currentTime, accent ? click.pitch * ACCENT_RATIO : click.pitch, click.volume);
+  }
+
+  /**
+   * Linear play positions (offset + elapsed media time) in [from, to) at which
+   * media time `media` is heard. Without a loop that is at most once; inside a
+   * loop it repeats every pass, numbered from 0 for the first play-through.
+   */
+  private occurrences(media: number, from: number, to: number) {
+    const { offset, loop } = this.anchor!;
+    const result: { pass: number; linear: number }[] = [];
+    if (media >= offset && (!loop || media < loop.end) && media >= from && media < to) {
+      result.push({ pass: 0, linear: media });
+    }
+    if (loop && media >= loop.start && media < loop.end) {
+      const length = loop.end - loop.start;
+      const first = Math.max(1, Math.ceil((from - loop.end - (media - loop.start)) / length) + 1);
+      for (let pass = first; ; pass++) {
+        const linear = loop.end + (pass - 1) * length + (media - loop.start);
+        if (linear >= to) break;
+        if (linear >= from) result.push({ pass, linear });
+      }
+    }
+    return result;
+  }
+
+  private playClick(at: number, pitch: number, volume: number, key?: string): OscillatorNode {
+    const osc = this.ctx.createOscillator();
+    const gain = this.ctx.createGain();
+    osc.frequency.value = pitch;
+    gain.gain.setValueAtTime(0, at);
+    gain.gain.linearRampToValueAtTime(volume, at + 0.002);
+    gain.gain.exponentialRampToValueAtTime(0.001, at + CLICK_LENGTH);
+    osc.connect(gain);
+    gain.connect(this.monitor);
+    osc.start(at);
+    osc.stop(at + CLICK_LENGTH);
+    osc.onended = () => {
+      gain.disconnect();
+      if (key && this.scheduled.get(key) === osc) this.scheduled.delete(key);
+    };
+    return osc;
+  }
+
+  private cancel() {
+    for (const osc of this.scheduled.values()) {
+      try { osc.stop(); } catch (e) {}
+    }
+    this.scheduled.clear();
+  }
+}
@@ -0,0 +1,84 @@
+import { CueAction, CueActionType, OscArg } from '../types';
+import { formatOscArgs } from './osc';
+import { isObject } from './guards';
+
+export const CUE_ACTION_TYPES: { type: CueActionType; label: string }[] = [
+  { type: 'http', label: 'HTTP' },
+  { type: 'websocket', label: 'WebSocket' },
+  { type: 'osc', label: 'OSC' },
+  { type: 'event', label: 'Event' },
+];
+
+export const createCueAction = (type: CueActionType): CueAction => {
+  const base = { id: crypto.randomUUID(), preWait: 0, enabled: true };
+  switch (type) {
+    case 'http':
+      return { ...base, type, method: 'POST', url: 'http://localhost:8080/cue', headers: { 'Content-Type': 'application/json' }, body: '' };
+    case 'websocket':
+      return { ...base, type, url: 'ws://localhost:8080', message: '' };
+    case 'osc':
+      return { ...base, type, target: 'ws://localhost:8081', address: '/cue/go', args: [] };
+    case 'event':
+      return { ...base, type, name: 'cue', payload: '{}' };
+  }
+};
+
+// One-line summary for lists and the execution log
+export const describeCueAction = (action: CueAction): string => {
+  switch (action.type) {
+    case 'http':
+      return `${action.method} ${action.url}`;
+    case 'websocket':
+      return `${action.url} ← ${action.message || '(empty)'}`;
+    case 'osc':
+      return `${action.address} ${formatOscArgs(action.args)}`.trim();
+    case 'event':
+      return `event "${action.name}"`;
+  }
+};
+
+const str = (value: unknown, fallback = '') => (typeof value === 'string' ? value : fallback);
+
+const OSC_ARG_TYPES = new Set(['i', 'f', 's', 'T', 'F']);
+
+// Coerce actions from an imported file; unknown action types are dropped
+export const parseCueActions = (raw: unknown): CueAction[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap((a: unknown): CueAction[] => {
+    if (!isObject(a)) return [];
+    const base = {
+      id: str(a.id) || crypto.randomUUID(),
+      preWait: Math.max(0, Number(a.preWait) || 0),
+      enabled: a.enabled !== false,
+    };
+    switch (a.type) {
+      case 'http':
+        return [{
+          ...base,
+          type: 'http',
+          method: a.method === 'GET' || a.method === 'PUT' ? a.method : 'POST',
+          url: str(a.url),
+          headers: isObject(a.headers)
+            ? Object.fromEntries(Object.entries(a.headers).filter(([, v]) => typeof v === 'string')) as Record<string, string>
+            : {},
+          body: str(a.body),
+        }];
+      case 'websocket':
+        return [{ ...base, type: 'websocket', url: str(a.url), message: str(a.message) }];
+      case 'osc':
+        return [{
+          ...base,
+          type: 'osc',
+          target: str(a.target),
+          address: str(a.address, '/'),
+          args: Array.isArray(a.args)
+            ? a.args.filter((arg: unknown): arg is OscArg => isObject(arg) && typeof arg.type === 'string' && OSC_ARG_TYPES.has(arg.type))
+            : [],
+        }];
+      case 'event':
+        return [{ ...base, type: 'event', name: str(a.name, 'cue'), payload: str(a.payload, '{}') }];
+      default:
+        return [];
+    }
+  });
+};
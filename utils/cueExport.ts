@@ -0,0 +1,256 @@
+import { Cue, Lane, TempoMap, TimecodeFormat, TimecodeSettings } from '../types';
+import { getCueEnd, isRangeCue, sortCuesByTime } from './cueUtils';
+import { serializeProject } from './projectSchema';
+import { FrameRate, framesToTimecode, getFrameRate, secondsToFrames } from './timecode';
+
+// Cue sheet writers for other tools. Every writer gets the cues already filtered
+// to the chosen lanes and sorted by time, and returns the file as text.
+
+export type CueExportFormat = 'json' | 'csv' | 'tsv' | 'audacity' | 'reaper' | 'edl' | 'premiere' | 'srt' | 'vtt';
+
+export type CueExportOption = 'lanes' | 'frameRate' | 'subtitleDuration';
+
+export interface CueExportFormatInfo {
+  value: CueExportFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+  options: CueExportOption[];
+}
+
+export const CUE_EXPORT_FORMATS: CueExportFormatInfo[] = [
+  { value: 'json', label: 'AudioCue JSON', extension: 'json', mimeType: 'application/json', options: [] },
+  { value: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv', options: ['lanes', 'frameRate'] },
+  { value: 'tsv', label: 'TSV', extension: 'tsv', mimeType: 'text/tab-separated-values', options: ['lanes', 'frameRate'] },
+  { value: 'audacity', label: 'Audacity Labels', extension: 'txt', mimeType: 'text/plain', options: ['lanes'] },
+  { value: 'reaper', label: 'REAPER Markers/Regions', extension: 'csv', mimeType: 'text/csv', options: ['lanes'] },
+  { value: 'edl', label: 'Resolve Marker EDL', extension: 'edl', mimeType: 'text/plain', options: ['lanes', 'frameRate'] },
+  { value: 'premiere', label: 'Premiere Marker CSV', extension: 'csv', mimeType: 'text/csv', options: ['lanes', 'frameRate'] },
+  { value: 'srt', label: 'SRT Subtitles', extension: 'srt', mimeType: 'application/x-subrip', options: ['lanes', 'subtitleDuration'] },
+  { value: 'vtt', label: 'WebVTT', extension: 'vtt', mimeType: 'text/vtt', options: ['lanes', 'subtitleDuration'] },
+];
+
+export interface CueExportProject {
+  name: string;
+  duration: number;
+  cues: Cue[];
+  lanes: Lane[];
+  tempoMap: TempoMap | null;
+  timecode: TimecodeSettings;
+  audioHash: string | null; // SHA-256 of the loaded audio file, for the project file's fingerprint
+}
+
+export interface CueExportOptions {
+  format: CueExportFormat;
+  lanes: number[]; // Lane indices to include
+  frameRate: TimecodeFormat; // SMPTE rate for timecode columns and EDLs
+  subtitleDuration: number; // Seconds on screen for point cues (capped by the next cue)
+}
+
+export const getExportFormat = (format: CueExportFormat) =>
+  CUE_EXPORT_FORMATS.find(f => f.value === format) ?? CUE_EXPORT_FORMATS[0];
+
+// Colour parsing for formats with their own colour fields (cue colours are hex or hsl())
+const toRgb = (color: string): [number, number, number] | null => {
+  const hex = color.trim().match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (hex) {
+    const digits = hex[1].length === 3 ? hex[1].split('').map(d => d + d).join('') : hex[1];
+    return [0, 2, 4].map(i => parseInt(digits.slice(i, i + 2), 16)) as [number, number, number];
+  }
+  const hsl = color.match(/^hsl\(\s*([\d.]+)\s*,\s*([\d.]+)%\s*,\s*([\d.]+)%\s*\)$/i);
+  if (hsl) {
+    const h = Number(hsl[1]) / 360;
+    const s = Number(hsl[2]) / 100;
+    const l = Number(hsl[3]) / 100;
+    const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+    const p = 2 * l - q;
+    const channel = (t: number) => {
+      t = (t + 1) % 1;
+      if (t < 1 / 6) return p + (q - p) * 6 * t;
+      if (t < 1 / 2) return q;
+      if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
+      return p;
+    };
+    return [channel(h + 1 / 3), channel(h), channel(h - 1 / 3)].map(v => Math.round(v * 255)) as [number, number, number];
+  }
+  return null;
+};
+
+const toHex = (color: string) => {
+  const rgb = toRgb(color);
+  return rgb ? rgb.map(v => v.toString(16).padStart(2, '0')).join('').toUpperCase() : '';
+};
+
+const hueOf = ([r, g, b]: [number, number, number]) => {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  if (max === min) return 0;
+  const d = max - min;
+  const h = max === r ? ((g - b) / d) % 6 : max === g ? (b - r) / d + 2 : (r - g) / d + 4;
+  return (h * 60 + 360) % 360;
+};
+
+// Resolve only accepts its own named marker colours
+const RESOLVE_COLORS: { hue: number; name: string }[] = [
+  { hue: 0, name: 'Red' },
+  { hue: 30, name: 'Sand' },
+  { hue: 55, name: 'Yellow' },
+  { hue: 120, name: 'Green' },
+  { hue: 180, name: 'Cyan' },
+  { hue: 220, name: 'Blue' },
+  { hue: 275, name: 'Purple' },
+  { hue: 320, name: 'Pink' },
+  { hue: 360, name: 'Red' },
+];
+
+const toResolveColor = (color: string) => {
+  const rgb = toRgb(color);
+  if (!rgb) return 'Blue';
+  const hue = hueOf(rgb);
+  return RESOLVE_COLORS.reduce((best, c) => Math.abs(c.hue - hue) < Math.abs(best.hue - hue) ? c : best).name;
+};
+
+const quoteCsv = (value: string | number, separator: string) => {
+  const text = String(value);
+  if (separator === '\t') return text.replace(/[\t\r\n]+/g, ' ');
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const joinRows = (rows: (string | number)[][], separator: string) =>
+  rows.map(row => row.map(v => quoteCsv(v, separator)).join(separator)).join('\r\n') + '\r\n';
+
+const laneName = (lanes: Lane[], cue: Cue) => lanes[cue.row]?.name ?? `Lane ${cue.row + 1}`;
+
+const requireRate = (format: TimecodeFormat): FrameRate => {
+  const rate = getFrameRate(format);
+  if (!rate) throw new Error(`${format} is not an SMPTE frame rate`);
+  return rate;
+};
+
+// Show time (project offset applied) as SMPTE
+const toTimecode = (seconds: number, rate: FrameRate) => framesToTimecode(secondsToFrames(Math.max(0, seconds), rate), rate);
+
+// 01:02:03,456 (SRT) / 01:02:03.456 (WebVTT)
+const subtitleTime = (seconds: number, separator: ',' | '.') => {
+  const ms = Math.round(Math.max(0, seconds) * 1000);
+  const h = Math.floor(ms / 3600000);
+  const m = Math.floor((ms % 3600000) / 60000);
+  const s = Math.floor((ms % 60000) / 1000);
+  const pad = (v: number, n = 2) => v.toString().padStart(n, '0');
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(ms % 1000, 3)}`;
+};
+
+// REAPER's default minutes:seconds ruler format, e.g. 1:23.456
+const reaperTime = (seconds: number) => {
+  const ms = Math.round(Math.max(0, seconds) * 1000);
+  return `${Math.floor(ms / 60000)}:${(Math.floor(ms / 1000) % 60).toString().padStart(2, '0')}.${(ms % 1000).toString().padStart(3, '0')}`;
+};
+
+const writeTable = (project: CueExportProject, cues: Cue[], options: CueExportOptions, separator: string) => {
+  const rate = requireRate(options.frameRate);
+  const offset = project.timecode.startOffset;
+  return joinRows([
+    ['#', 'Lane', 'Timecode', 'Seconds', 'Duration', 'Label', 'Color'],
+    ...cues.map((cue, i) => [
+      i + 1,
+      laneName(project.lanes, cue),
+      toTimecode(cue.time + offset, rate),
+      cue.time.toFixed(3),
+      isRangeCue(cue) ? cue.duration!.toFixed(3) : '',
+      cue.label,
+      cue.color,
+    ]),
+  ], separator);
+};
+
+// start<TAB>end<TAB>label; point labels have start = end
+const writeAudacity = (cues: Cue[]) =>
+  cues.map(cue => `${cue.time.toFixed(6)}\t${getCueEnd(cue).toFixed(6)}\t${cue.label.replace(/[\t\r\n]+/g, ' ')}`).join('\n') + '\n';
+
+// Region/Marker Manager CSV: point cues become markers (M1…), range cues regions (R1…)
+const writeReaper = (cues: Cue[]) => {
+  let markers = 0;
+  let regions = 0;
+  return joinRows([
+    ['#', 'Name', 'Start', 'End', 'Length', 'Color'],
+    ...cues.map(cue => isRangeCue(cue)
+      ? [`R${++regions}`, cue.label, reaperTime(cue.time), reaperTime(getCueEnd(cue)), reaperTime(cue.duration!), toHex(cue.color)]
+      : [`M${++markers}`, cue.label, reaperTime(cue.time), '', '', toHex(cue.color)]),
+  ], ',');
+};
+
+// CMX 3600 with Resolve's marker comments. Timeline start = project start offset.
+const writeEdl = (project: CueExportProject, cues: Cue[], options: CueExportOptions) => {
+  const rate = requireRate(options.frameRate);
+  const offset = project.timecode.startOffset;
+  const lines = [`TITLE: ${project.name}`, `FCM: ${rate.dropFrame ? 'DROP FRAME' : 'NON-DROP FRAME'}`, ''];
+  cues.forEach((cue, i) => {
+    const start = secondsToFrames(cue.time + offset, rate);
+    const length = Math.max(1, isRangeCue(cue) ? secondsToFrames(cue.duration!, rate) : 1);
+    const tcIn = framesToTimecode(start, rate);
+    const tcOut = framesToTimecode(start + 1, rate);
+    lines.push(`${(i + 1).toString().padStart(3, '0')}  001      V     C        ${tcIn} ${tcOut} ${tcIn} ${tcOut}  `);
+    lines.push(` |C:ResolveColor${toResolveColor(cue.color)} |M:${cue.label.replace(/[|\r\n]+/g, ' ')} |D:${length}`);
+    lines.push('');
+  });
+  return lines.join('\n');
+};
+
+// Layout of Premiere's own marker export (Markers panel > Export)
+const writePremiere = (project: CueExportProject, cues: Cue[], options: CueExportOptions) => {
+  const rate = requireRate(options.frameRate);
+  const offset = project.timecode.startOffset;
+  return joinRows([
+    ['Marker Name', 'Description', 'In', 'Out', 'Duration', 'Marker Type'],
+    ...cues.map(cue => [
+      cue.label,
+      laneName(project.lanes, cue),
+      toTimecode(cue.time + offset, rate),
+      toTimecode(getCueEnd(cue) + offset, rate),
+      toTimecode(cue.duration ?? 0, rate),
+      'Comment',
+    ]),
+  ], ',');
+};
+
+// Subtitles run until the cue ends (range cues) or for the chosen duration, never into the next cue
+const subtitleSpans = (cues: Cue[], duration: number) => cues.map((cue, i) => {
+  const next = cues[i + 1];
+  const end = isRangeCue(cue) ? getCueEnd(cue) : cue.time + duration;
+  return { cue, start: cue.time, end: next && !isRangeCue(cue) ? Math.max(cue.time + 0.001, Math.min(end, next.time)) : end };
+});
+
+const writeSrt = (cues: Cue[], options: CueExportOptions) =>
+  subtitleSpans(cues, options.subtitleDuration)
+    .map(({ cue, start, end }, i) => `${i + 1}\n${subtitleTime(start, ',')} --> ${subtitleTime(end, ',')}\n${cue.label}\n`)
+    .join('\n');
+
+const writeVtt = (cues: Cue[], options: CueExportOptions) =>
+  ['WEBVTT', '', ...subtitleSpans(cues, options.subtitleDuration).map(({ cue, start, end }) =>
+    // "-->" would end the cue timing line early, so it can't appear in the text
+    `${subtitleTime(start, '.')} --> ${subtitleTime(end, '.')}\n${cue.label.replace(/-->/g, '->')}\n`
+  )].join('\n');
+
+const writeJson = (project: CueExportProject) => serializeProject({
+  audio: { fileName: project.name || null, duration: project.duration, sha256: project.audioHash },
+  cues: project.cues,
+  lanes: project.lanes,
+  tempoMap: project.tempoMap,
+  timecode: project.timecode,
+});
+
+export const exportCues = (project: CueExportProject, options: CueExportOptions): string => {
+  const included = new Set(options.lanes);
+  const cues = sortCuesByTime(project.cues.filter(c => included.has(c.row)));
+  switch (options.format) {
+    case 'json': return writeJson(project);
+    case 'csv': return writeTable(project, cues, options, ',');
+    case 'tsv': return writeTable(project, cues, options, '\t');
+    case 'audacity': return writeAudacity(cues);
+    case 'reaper': return writeReaper(cues);
+    case 'edl': return writeEdl(project, cues, options);
+    case 'premiere': return writePremiere(project, cues, options);
+    case 'srt': return writeSrt(cues, options);
+    case 'vtt': return writeVtt(cues, options);
+  }
+};
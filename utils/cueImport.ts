@@ -0,0 +1,475 @@
+import { Cue, CueAction, Lane, TempoMap, TimecodeFormat, TimecodeSettings } from '../types';
+import { LaneDocument, createLane, ensureLanes } from './lanes';
+import { AudioFingerprint, formatIssue, validateProject } from './projectSchema';
+import { getFrameRate, parseTimecode } from './timecode';
+import { WavInfo } from './wav';
+import { ChapterContainer, ChapterInfo } from './chapters';
+import { isObject } from './guards';
+
+// Cue import from this app's JSON and other tools' marker files. Parsing turns
+// any format into ImportedCues; planCueImport then works out what a merge
+// strategy would do to the current document, so the dialog can preview it.
+
+export type CueImportFormat = 'json' | 'csv' | 'audacity' | 'reaper' | 'srt' | 'vtt' | 'edl';
+
+export const CUE_IMPORT_FORMATS: { value: CueImportFormat; label: string }[] = [
+  { value: 'json', label: 'AudioCue JSON' },
+  { value: 'csv', label: 'CSV / TSV' },
+  { value: 'audacity', label: 'Audacity Labels' },
+  { value: 'reaper', label: 'REAPER Markers/Regions' },
+  { value: 'srt', label: 'SRT Subtitles' },
+  { value: 'vtt', label: 'WebVTT' },
+  { value: 'edl', label: 'EDL Markers' },
+];
+
+export type ImportStrategy = 'replace' | 'merge' | 'append';
+
+export const IMPORT_STRATEGIES: { value: ImportStrategy; label: string; description: string }[] = [
+  { value: 'replace', label: 'Replace', description: 'Remove every current cue, then add the imported ones.' },
+  { value: 'merge', label: 'Merge', description: 'Keep current cues; skip imported cues already present at the same time with the same label.' },
+  { value: 'append', label: 'Append to lane', description: 'Keep current cues and add every imported cue to one lane.' },
+];
+
+export interface ImportedCue {
+  time: number; // Media time
+  label: string;
+  duration?: number;
+  color?: string;
+  lane?: string; // Lane name from the file, if it has one
+  row?: number; // Lane index, for project files without lane names
+  actions?: CueAction[];
+  id?: string;
+}
+
+// Text files are parsed by format; WAV markers and MP3/MP4 chapters come from the audio file itself
+export type CueImportSource = { text: string } | { wav: WavInfo } | { chapters: ChapterInfo };
+
+export interface ParsedCueFile {
+  format: CueImportFormat | 'wav' | ChapterContainer;
+  cues: ImportedCue[];
+  warnings: string[];
+  // Only AudioCue JSON carries these (and WAVs with a bext time reference, a timecode start)
+  lanes?: Lane[];
+  tempoMap?: TempoMap | null;
+  timecode?: TimecodeSettings;
+}
+
+export interface CueParseOptions {
+  frameRate: TimecodeFormat; // For SMPTE timecodes (EDL, NLE CSVs)
+  startOffset: number; // Show time at media 0: subtracted from SMPTE timecodes
+  sampleRate: number;
+  audio?: AudioFingerprint; // The loaded audio, compared with a project file's fingerprint
+  duration?: number; // Of the loaded audio: a last chapter running to the end is a point cue
+}
+
+// Two cues closer than this with the same label count as the same cue when merging
+export const DUPLICATE_TOLERANCE = 0.01;
+
+export const detectCueFormat = (text: string, fileName = ''): CueImportFormat => {
+  const body = text.replace(/^﻿/, '').trimStart();
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  if (body.startsWith('{')) return 'json';
+  if (/^WEBVTT/.test(body)) return 'vtt';
+  if (/^\d+\s*\r?\n\s*\d{1,2}:\d{2}:\d{2}[,.]\d{1,3}\s*-->/.test(body)) return 'srt';
+  if (/^TITLE:/m.test(body) || /^\d{3,}\s+\S+\s+\S+\s+\S+\s+(\d{2}:){3}\d{2}/m.test(body)) return 'edl';
+  if (/^#,Name,Start/i.test(body) || /^[MR]\d+,/m.test(body)) return 'reaper';
+  if (/^-?\d+(\.\d+)?\t-?\d+(\.\d+)?(\t|\r?$)/m.test(body.split('\n')[0])) return 'audacity';
+  if (extension === 'srt') return 'srt';
+  if (extension === 'vtt') return 'vtt';
+  if (extension === 'edl') return 'edl';
+  return 'csv';
+};
+
+// RFC 4180 fields: quoted values may contain separators, quotes ("") and newlines
+const parseDelimited = (text: string, separator: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === separator) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      if (row.some(f => f.trim())) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  row.push(field);
+  if (row.some(f => f.trim())) rows.push(row);
+  return rows;
+};
+
+const isSmpte = (text: string) => /^\d{1,2}:\d{2}:\d{2}[:;]\d{2}$/.test(text.trim());
+
+/**
+ * A time written by another tool: plain seconds, a clock (1:23.456, 01:02:03,500)
+ * or SMPTE (01:00:00:12). SMPTE is show time, so the project offset comes off.
+ */
+const readTime = (text: string, options: CueParseOptions, isLength = false): number | null => {
+  const value = text.trim().replace(',', '.');
+  if (!value) return null;
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+  if (isSmpte(value)) {
+    const seconds = parseTimecode(value, options.frameRate, options.sampleRate);
+    return seconds === null ? null : seconds - (isLength ? 0 : options.startOffset);
+  }
+  return parseTimecode(value, 'clock', options.sampleRate);
+};
+
+// Project files go through the schema validator: problems are reported by path, not coerced
+const MAX_REPORTED_ISSUES = 20;
+
+const parseJson = (text: string, options: CueParseOptions): ParsedCueFile => {
+  const raw: unknown = JSON.parse(text);
+  const { project, errors, warnings } = validateProject(raw, options.audio);
+  if (!project) {
+    const more = errors.length > MAX_REPORTED_ISSUES ? [`…and ${errors.length - MAX_REPORTED_ISSUES} more`] : [];
+    throw new Error([...errors.slice(0, MAX_REPORTED_ISSUES).map(formatIssue), ...more].join('\n'));
+  }
+  // Files from before lanes only have row numbers, and the lanes made up for them aren't the file's
+  const named = isObject(raw) && Array.isArray(raw.lanes);
+  return {
+    format: 'json',
+    cues: project.cues.map(c => (named ? { ...c, lane: project.lanes[c.row]?.name } : c)),
+    warnings: warnings.map(formatIssue),
+    ...(named ? { lanes: project.lanes } : {}),
+    tempoMap: project.tempoMap,
+    timecode: project.timecode,
+  };
+};
+
+const COLUMN_NAMES = {
+  time: ['seconds', 'time', 'start', 'in', 'timecode', 'position', 'record in'],
+  end: ['end', 'out', 'record out'],
+  duration: ['duration', 'length'],
+  label: ['label', 'marker name', 'name', 'text', 'title', 'comment'],
+  lane: ['lane', 'track', 'layer'],
+  color: ['color', 'colour'],
+};
+
+const findColumn = (header: string[], names: string[]) => {
+  for (const name of names) {
+    const index = header.indexOf(name);
+    if (index !== -1) return index;
+  }
+  return -1;
+};
+
+const parseCsv = (text: string, options: CueParseOptions): ParsedCueFile => {
+  const firstLine = text.split(/\r?\n/)[0];
+  const separator = firstLine.split('\t').length > firstLine.split(',').length ? '\t' : ',';
+  const rows = parseDelimited(text, separator);
+  if (rows.length === 0) throw new Error('The file is empty.');
+
+  const header = rows[0].map(h => h.trim().toLowerCase());
+  const column = Object.fromEntries(
+    Object.entries(COLUMN_NAMES).map(([key, names]) => [key, findColumn(header, names)])
+  ) as Record<keyof typeof COLUMN_NAMES, number>;
+  // Without a recognisable header, assume time,label
+  const hasHeader = column.time !== -1;
+  if (!hasHeader) Object.assign(column, { time: 0, label: 1, end: -1, duration: -1, lane: -1, color: -1 });
+
+  const cues: ImportedCue[] = [];
+  const warnings: string[] = [];
+  rows.slice(hasHeader ? 1 : 0).forEach((row, i) => {
+    const cell = (index: number) => (index >= 0 ? row[index] ?? '' : '').trim();
+    const time = readTime(cell(column.time), options);
+    if (time === null) {
+      warnings.push(`Row ${i + (hasHeader ? 2 : 1)}: unreadable time "${cell(column.time)}"`);
+      return;
+    }
+    const end = readTime(cell(column.end), options);
+    const length = readTime(cell(column.duration), options, true);
+    const duration = length !== null ? length : end !== null ? end - time : 0;
+    cues.push({
+      time,
+      label: cell(column.label) || `Cue ${cues.length + 1}`,
+      ...(duration > 0 ? { duration } : {}),
+      ...(cell(column.lane) ? { lane: cell(column.lane) } : {}),
+      ...(cell(column.color) ? { color: cell(column.color) } : {}),
+    });
+  });
+  return { format: 'csv', cues, warnings };
+};
+
+// start<TAB>end<TAB>label. Lines starting with "\" hold spectral selection data.
+const parseAudacity = (text: string): ParsedCueFile => {
+  const cues: ImportedCue[] = [];
+  const warnings: string[] = [];
+  text.split(/\r?\n/).forEach((line, i) => {
+    if (!line.trim() || line.startsWith('\\')) return;
+    const [start, end, ...label] = line.split('\t');
+    const time = Number(start);
+    if (!Number.isFinite(time)) {
+      warnings.push(`Line ${i + 1}: unreadable time "${start}"`);
+      return;
+    }
+    const duration = Number(end) - time;
+    cues.push({ time, label: label.join(' ').trim() || `Cue ${cues.length + 1}`, ...(duration > 0 ? { duration } : {}) });
+  });
+  return { format: 'audacity', cues, warnings };
+};
+
+const parseReaper = (text: string, options: CueParseOptions): ParsedCueFile => {
+  const rows = parseDelimited(text, ',');
+  const cues: ImportedCue[] = [];
+  const warnings: string[] = [];
+  rows.forEach((row, i) => {
+    const [id = '', name = '', start = '', end = '', , color = ''] = row.map(f => f.trim());
+    if (!/^[MR]\d+$/i.test(id)) return; // Header or blank
+    const time = readTime(start, options);
+    if (time === null) {
+      warnings.push(`Row ${i + 1}: unreadable start "${start}" (only time-based rulers can be read)`);
+      return;
+    }
+    const endTime = id[0].toUpperCase() === 'R' ? readTime(end, options) : null;
+    cues.push({
+      time,
+      label: name || id,
+      ...(endTime !== null && endTime > time ? { duration: endTime - time } : {}),
+      ...(/^[0-9a-f]{6}$/i.test(color) ? { color: `#${color.toLowerCase()}` } : {}),
+    });
+  });
+  return { format: 'reaper', cues, warnings };
+};
+
+// SRT and WebVTT: blocks of "start --> end" followed by text lines
+const parseSubtitles = (text: string, format: 'srt' | 'vtt', options: CueParseOptions): ParsedCueFile => {
+  const cues: ImportedCue[] = [];
+  const warnings: string[] = [];
+  const blocks = text.replace(/\r/g, '').split(/\n{2,}/);
+  for (const block of blocks) {
+    const lines = block.split('\n').filter(l => l.trim());
+    const timing = lines.findIndex(l => l.includes('-->'));
+    if (timing === -1) continue; // Header, NOTE or STYLE blocks
+    const [startText, endText] = lines[timing].split('-->').map(s => s.trim().split(/\s+/)[0]);
+    const start = readTime(startText, options);
+    const end = readTime(endText, options);
+    if (start === null || end === null) {
+      warnings.push(`Unreadable timing "${lines[timing]}"`);
+      continue;
+    }
+    const label = lines.slice(timing + 1).join(' ').replace(/<[^>]+>/g, '').trim();
+    cues.push({ time: start, label: label || `Cue ${cues.length + 1}`, ...(end > start ? { duration: end - start } : {}) });
+  }
+  return { format, cues, warnings };
+};
+
+// Resolve's marker colour names (the rest fall back to the lane colour)
+const RESOLVE_COLOR_HEX: Record<string, string> = {
+  red: '#ef4444', sand: '#d6a360', yellow: '#eab308', green: '#22c55e', cyan: '#06b6d4',
+  blue: '#3b82f6', purple: '#a855f7', pink: '#ec4899', fuchsia: '#d946ef', rose: '#f43f5e',
+  lavender: '#a78bfa', sky: '#38bdf8', mint: '#6ee7b7', lemon: '#fde047', cocoa: '#92400e', cream: '#fef3c7',
+};
+
+/**
+ * CMX 3600 events, with marker names from Resolve comments (|M:name |D:frames)
+ * or Avid locators (* LOC: tc colour name). Events without either use the clip name.
+ */
+const parseEdl = (text: string, options: CueParseOptions): ParsedCueFile => {
+  const cues: ImportedCue[] = [];
+  const warnings: string[] = [];
+  let current: ImportedCue | null = null;
+  for (const line of text.split(/\r?\n/)) {
+    const event = line.match(/^\d{3,}\s+\S+\s+\S+\s+\S+\s+(?:\d+\s+)?(\S+)\s+(\S+)\s+(\S+)\s+(\S+)/);
+    if (event) {
+      const time = readTime(event[3], options);
+      if (time === null) {
+        warnings.push(`Unreadable record timecode "${event[3]}"`);
+        current = null;
+        continue;
+      }
+      current = { time, label: `Event ${cues.length + 1}` };
+      cues.push(current);
+      continue;
+    }
+    if (!current) continue;
+    const resolve = line.match(/\|M:(.*?)\s*(?:\|D:(\d+))?\s*$/);
+    if (resolve) {
+      current.label = resolve[1].trim() || current.label;
+      const frames = Number(resolve[2]);
+      const fps = getFrameRate(options.frameRate)?.fps;
+      if (frames > 1 && fps) current.duration = frames / fps;
+      const color = line.match(/\|C:ResolveColor(\w+)/)?.[1]?.toLowerCase();
+      if (color && RESOLVE_COLOR_HEX[color]) current.color = RESOLVE_COLOR_HEX[color];
+      continue;
+    }
+    const locator = line.match(/^\*\s*LOC:\s*(\S+)\s+(\w+)\s*(.*)$/);
+    if (locator) {
+      const time = readTime(locator[1], options);
+      if (time !== null) current.time = time;
+      current.label = locator[3].trim() || current.label;
+      const color = RESOLVE_COLOR_HEX[locator[2].toLowerCase()];
+      if (color) current.color = color;
+      continue;
+    }
+    const clip = line.match(/^\*\s*FROM CLIP NAME:\s*(.+)$/);
+    if (clip && current.label.startsWith('Event ')) current.label = clip[1].trim();
+  }
+  return { format: 'edl', cues, warnings };
+};
+
+export const parseCueFile = (text: string, format: CueImportFormat, options: CueParseOptions): ParsedCueFile => {
+  const body = text.replace(/^﻿/, '');
+  switch (format) {
+    case 'json': return parseJson(body, options);
+    case 'csv': return parseCsv(body, options);
+    case 'audacity': return parseAudacity(body);
+    case 'reaper': return parseReaper(body, options);
+    case 'srt': return parseSubtitles(body, 'srt', options);
+    case 'vtt': return parseSubtitles(body, 'vtt', options);
+    case 'edl': return parseEdl(body, options);
+  }
+};
+
+// A Broadcast Wave time reference becomes the project's timecode start, in the chosen SMPTE rate
+export const parseWavMarkers = (info: WavInfo, options: CueParseOptions): ParsedCueFile => ({
+  format: 'wav',
+  cues: info.markers.map(({ time, label, duration }) => ({ time, label, ...(duration ? { duration } : {}) })),
+  warnings: info.markers.length === 0 ? ['The WAV file has no cue points'] : [],
+  ...(info.timeReference ? { timecode: { format: options.frameRate, startOffset: info.timeReference } } : {}),
+});
+
+// Stored chapter ends are rounded (ID3 keeps milliseconds) and decoded MP3 lengths include encoder padding
+const CHAPTER_END_TOLERANCE = 0.1;
+
+// The reverse of cuesToChapters: a chapter that simply runs into the next one
+// (or to the end of the audio) comes back as a point cue, anything else as a range
+export const parseChapterMarkers = (info: ChapterInfo, options: CueParseOptions): ParsedCueFile => ({
+  format: info.container,
+  cues: info.chapters.map(({ start, end, title }, i): ImportedCue => {
+    const next = info.chapters[i + 1]?.start ?? options.duration;
+    const runsOn = end === null || next === undefined || Math.abs(end - next) <= CHAPTER_END_TOLERANCE;
+    return { time: start, label: title || `Chapter ${i + 1}`, ...(!runsOn && end! > start ? { duration: end! - start } : {}) };
+  }),
+  warnings: info.chapters.length === 0 ? ['The file has no chapters'] : [],
+});
+
+export const parseCueSource = (source: CueImportSource, format: CueImportFormat, options: CueParseOptions): ParsedCueFile => {
+  if ('wav' in source) return parseWavMarkers(source.wav, options);
+  if ('chapters' in source) return parseChapterMarkers(source.chapters, options);
+  return parseCueFile(source.text, format, options);
+};
+
+export interface ImportOptions {
+  strategy: ImportStrategy;
+  offset: number; // Seconds added to every imported time
+  lane: number; // Target for 'append', and for cues whose lane the file doesn't name
+}
+
+export interface ImportChange {
+  before: Cue;
+  after: Cue;
+}
+
+export interface ImportPlan {
+  doc: LaneDocument;
+  added: Cue[];
+  changed: ImportChange[];
+  removed: Cue[]; // Current cues dropped by 'replace'
+  skipped: { cue: ImportedCue; reason: string }[];
+  newLanes: string[];
+}
+
+const sameLabel = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * What importing `file` into `current` would do. Lane names from the file map
+ * onto existing lanes (case-insensitive), and unknown names become new lanes;
+ * cues with only a row number keep that row.
+ * In 'merge', an imported cue matching a current one (same label, within
+ * DUPLICATE_TOLERANCE) is skipped, or changes it if its duration or colour differ.
+ */
+export const planCueImport = (current: LaneDocument, file: ParsedCueFile, options: ImportOptions, duration: number): ImportPlan => {
+  const { strategy, offset } = options;
+  const skipped: ImportPlan['skipped'] = [];
+  const lanes = strategy === 'replace' && file.lanes ? ensureLanes(file.lanes, []) : [...current.lanes];
+  const newLanes: string[] = [];
+  const target = Math.min(Math.max(0, options.lane), lanes.length - 1);
+
+  const laneFor = (cue: ImportedCue): number => {
+    if (strategy === 'append') return target;
+    if (!cue.lane) {
+      if (cue.row === undefined) return target;
+      while (lanes.length <= cue.row) {
+        const name = `Lane ${lanes.length + 1}`;
+        lanes.push(createLane(name));
+        newLanes.push(name);
+      }
+      return cue.row;
+    }
+    const index = lanes.findIndex(l => sameLabel(l.name, cue.lane!));
+    if (index !== -1) return index;
+    lanes.push(createLane(cue.lane, cue.color));
+    newLanes.push(cue.lane);
+    return lanes.length - 1;
+  };
+
+  // Imported cues as they will be added, next to what the file actually said
+  const incoming: { cue: Cue; source: ImportedCue }[] = [];
+  const sources = file.cues.map(c => ({ ...c, time: c.time + offset })).sort((a, b) => a.time - b.time);
+  for (const source of sources) {
+    if (source.time < 0 || (duration > 0 && source.time > duration)) {
+      skipped.push({ cue: source, reason: 'Outside the audio' });
+      continue;
+    }
+    const row = laneFor(source);
+    incoming.push({
+      source,
+      cue: {
+        id: strategy === 'replace' && source.id ? source.id : crypto.randomUUID(),
+        time: source.time,
+        label: source.label,
+        color: strategy === 'append' || !source.color ? lanes[row].color : source.color,
+        row,
+        ...(source.duration && source.duration > 0 ? { duration: source.duration } : {}),
+        ...(source.actions ? { actions: source.actions } : {}),
+      },
+    });
+  }
+
+  if (strategy === 'replace') {
+    const cues = incoming.map(i => i.cue);
+    return { doc: { cues, lanes: ensureLanes(lanes, cues) }, added: cues, changed: [], removed: current.cues, skipped, newLanes };
+  }
+
+  const added: Cue[] = [];
+  const changed: ImportChange[] = [];
+  const cues = [...current.cues];
+  for (const { cue, source } of incoming) {
+    const match = strategy === 'merge'
+      ? cues.findIndex(c => Math.abs(c.time - cue.time) <= DUPLICATE_TOLERANCE && sameLabel(c.label, cue.label))
+      : -1;
+    if (match === -1) {
+      cues.push(cue);
+      added.push(cue);
+      continue;
+    }
+    const existing = cues[match];
+    const updates: Partial<Cue> = {};
+    if ((source.duration ?? 0) !== (existing.duration ?? 0)) updates.duration = source.duration;
+    if (source.color && source.color !== existing.color) updates.color = source.color;
+    if (Object.keys(updates).length === 0) {
+      skipped.push({ cue: source, reason: 'Already present' });
+      continue;
+    }
+    const after = { ...existing, ...updates };
+    if (!after.duration) delete after.duration;
+    cues[match] = after;
+    changed.push({ before: existing, after });
+  }
+  return { doc: { cues, lanes: ensureLanes(lanes, cues) }, added, changed, removed: [], skipped, newLanes };
+};
@@ -0,0 +1,46 @@
+import { Cue } from '../types';
+import { parseCueActions } from './cueActions';
+import { isObject } from './guards';
+
+// Shortest span a range cue can be resized down to (seconds)
+export const MIN_CUE_DURATION = 0.1;
+
+export const isRangeCue = (cue: Cue): boolean => (cue.duration ?? 0) > 0;
+
+export const getCueEnd = (cue: Cue): number => cue.time + (cue.duration ?? 0);
+
+export const sortCuesByTime = (cues: Cue[]): Cue[] => [...cues].sort((a, b) => a.time - b.time);
+
+// Normalise cues from an imported file, filling in anything missing (migration safety)
+export const parseCues = (raw: unknown[]): Cue[] =>
+  raw.map(value => {
+    const c = isObject(value) ? value : {};
+    return {
+      id: typeof c.id === 'string' && c.id ? c.id : crypto.randomUUID(),
+      time: Number(c.time) || 0,
+      label: typeof c.label === 'string' && c.label ? c.label : "Imported Cue",
+      color: typeof c.color === 'string' && c.color ? c.color : '#ef4444',
+      row: typeof c.row === 'number' ? c.row : 0,
+      ...(Number(c.duration) > 0 ? { duration: Number(c.duration) } : {}),
+      ...(Array.isArray(c.actions) ? { actions: parseCueActions(c.actions) } : {})
+    };
+  });
+
+// Bulk edits from the cue sheet. Each returns a new list; cues outside `ids` are
+// untouched, and the caller filters out cues in locked lanes beforehand.
+
+// Range cues keep their whole span inside the audio, as when dragged on the timeline
+export const offsetCues = (cues: Cue[], ids: Set<string>, delta: number, duration: number): Cue[] =>
+  cues.map(c => ids.has(c.id) ? { ...c, time: Math.max(0, Math.min(duration - (c.duration ?? 0), c.time + delta)) } : c);
+
+export const recolorCues = (cues: Cue[], ids: Set<string>, color: string): Cue[] =>
+  cues.map(c => ids.has(c.id) ? { ...c, color } : c);
+
+export const moveCuesToLane = (cues: Cue[], ids: Set<string>, row: number): Cue[] =>
+  cues.map(c => ids.has(c.id) ? { ...c, row } : c);
+
+// "Cue 1", "Cue 2", … in time order, starting from `start`
+export const renumberCues = (cues: Cue[], ids: Set<string>, prefix: string, start = 1): Cue[] => {
+  const order = new Map(sortCuesByTime(cues.filter(c => ids.has(c.id))).map((c, i) => [c.id, i]));
+  return cues.map(c => order.has(c.id) ? { ...c, label: `${prefix}${start + order.get(c.id)!}` } : c);
+};
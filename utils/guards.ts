@@ -0,0 +1,5 @@
+// Narrowing for untrusted input (imported files, localStorage): parsers check
+// the shape with these and then read fields as `unknown`.
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
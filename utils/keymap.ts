@@ -0,0 +1,184 @@
+import { isObject } from './guards';
+
+// Configurable keyboard shortcuts. Bindings are stored as combos like
+// "Mod+Shift+KeyZ": modifiers in a fixed order, then KeyboardEvent.code, so they
+// follow physical key positions regardless of keyboard layout. "Mod" is Ctrl or Cmd.
+
+export type KeyAction =
+  | 'playPause'
+  | 'stop'
+  | 'seekBack'
+  | 'seekForward'
+  | 'seekBackLarge'
+  | 'seekForwardLarge'
+  | 'nudgeCueBack'
+  | 'nudgeCueForward'
+  | 'nudgeCueBackFine'
+  | 'nudgeCueForwardFine'
+  | 'zoomIn'
+  | 'zoomOut'
+  | 'toggleFollow'
+  | 'toggleRecord'
+  | 'toggleClickMute'
+  | 'recordRow1'
+  | 'recordRow2'
+  | 'recordRow3'
+  | 'recordRow4'
+  | 'addCue'
+  | 'previousSong'
+  | 'nextSong'
+  | 'undo'
+  | 'redo';
+
+export type Keymap = Record<KeyAction, string[]>;
+
+export const KEY_ACTIONS: { action: KeyAction; label: string; group: string }[] = [
+  { action: 'playPause', label: 'Play / Pause', group: 'Transport' },
+  { action: 'stop', label: 'Stop', group: 'Transport' },
+  { action: 'seekBack', label: 'Seek back 1s', group: 'Transport' },
+  { action: 'seekForward', label: 'Seek forward 1s', group: 'Transport' },
+  { action: 'seekBackLarge', label: 'Seek back 5s', group: 'Transport' },
+  { action: 'seekForwardLarge', label: 'Seek forward 5s', group: 'Transport' },
+  { action: 'toggleClickMute', label: 'Mute count-in clicks', group: 'Transport' },
+  { action: 'toggleRecord', label: 'Toggle record mode', group: 'Record' },
+  { action: 'recordRow1', label: 'Drop cue in lane 1', group: 'Record' },
+  { action: 'recordRow2', label: 'Drop cue in lane 2', group: 'Record' },
+  { action: 'recordRow3', label: 'Drop cue in lane 3', group: 'Record' },
+  { action: 'recordRow4', label: 'Drop cue in lane 4', group: 'Record' },
+  { action: 'addCue', label: 'Add cue at playhead', group: 'Edit' },
+  { action: 'nudgeCueBack', label: 'Nudge selected cue -100ms', group: 'Edit' },
+  { action: 'nudgeCueForward', label: 'Nudge selected cue +100ms', group: 'Edit' },
+  { action: 'nudgeCueBackFine', label: 'Nudge selected cue -10ms', group: 'Edit' },
+  { action: 'nudgeCueForwardFine', label: 'Nudge selected cue +10ms', group: 'Edit' },
+  { action: 'undo', label: 'Undo', group: 'Edit' },
+  { action: 'redo', label: 'Redo', group: 'Edit' },
+  { action: 'previousSong', label: 'Previous song', group: 'Setlist' },
+  { action: 'nextSong', label: 'Next song', group: 'Setlist' },
+  { action: 'zoomIn', label: 'Zoom in', group: 'View' },
+  { action: 'zoomOut', label: 'Zoom out', group: 'View' },
+  { action: 'toggleFollow', label: 'Toggle follow playhead', group: 'View' },
+];
+
+export const DEFAULT_KEYMAP: Keymap = {
+  playPause: ['Space'],
+  stop: ['Escape'],
+  seekBack: ['ArrowLeft'],
+  seekForward: ['ArrowRight'],
+  seekBackLarge: ['Shift+ArrowLeft'],
+  seekForwardLarge: ['Shift+ArrowRight'],
+  nudgeCueBack: ['Comma'],
+  nudgeCueForward: ['Period'],
+  nudgeCueBackFine: ['Shift+Comma'],
+  nudgeCueForwardFine: ['Shift+Period'],
+  zoomIn: ['Equal'],
+  zoomOut: ['Minus'],
+  toggleFollow: ['KeyF'],
+  toggleRecord: ['KeyR'],
+  toggleClickMute: ['KeyK'],
+  recordRow1: ['Digit1'],
+  recordRow2: ['Digit2'],
+  recordRow3: ['Digit3'],
+  recordRow4: ['Digit4'],
+  addCue: ['KeyM'],
+  previousSong: ['PageUp'],
+  nextSong: ['PageDown'],
+  undo: ['Mod+KeyZ'],
+  redo: ['Mod+Shift+KeyZ', 'Mod+KeyY'],
+};
+
+const KEYMAP_STORAGE_KEY = 'audiocue:keymap';
+
+const MODIFIER_CODES = new Set([
+  'ShiftLeft', 'ShiftRight', 'ControlLeft', 'ControlRight', 'AltLeft', 'AltRight', 'MetaLeft', 'MetaRight',
+]);
+
+// Returns null while only a modifier is held, so key capture waits for the real key
+export const eventToCombo = (e: KeyboardEvent): string | null => {
+  if (!e.code || MODIFIER_CODES.has(e.code)) return null;
+  const parts: string[] = [];
+  if (e.ctrlKey || e.metaKey) parts.push('Mod');
+  if (e.altKey) parts.push('Alt');
+  if (e.shiftKey) parts.push('Shift');
+  parts.push(e.code);
+  return parts.join('+');
+};
+
+const CODE_LABELS: Record<string, string> = {
+  Space: 'Space',
+  Escape: 'Esc',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  Comma: ',',
+  Period: '.',
+  Equal: '=',
+  Minus: '-',
+  Slash: '/',
+  Semicolon: ';',
+  Quote: "'",
+  BracketLeft: '[',
+  BracketRight: ']',
+  Backslash: '\\',
+  Backquote: '`',
+  PageUp: 'PgUp',
+  PageDown: 'PgDn',
+};
+
+export const formatCombo = (combo: string): string =>
+  combo
+    .split('+')
+    .map(part => {
+      if (part === 'Mod') return navigator.platform.startsWith('Mac') ? '⌘' : 'Ctrl';
+      if (part.startsWith('Key')) return part.slice(3);
+      if (part.startsWith('Digit')) return part.slice(5);
+      if (part.startsWith('Numpad')) return `Num${part.slice(6)}`;
+      return CODE_LABELS[part] ?? part;
+    })
+    .join('+');
+
+export const findAction = (keymap: Keymap, combo: string): KeyAction | null => {
+  for (const { action } of KEY_ACTIONS) {
+    if (keymap[action].includes(combo)) return action;
+  }
+  return null;
+};
+
+// Give a combo to one action, taking it away from whichever action had it before
+export const bindKey = (keymap: Keymap, action: KeyAction, combo: string): Keymap => {
+  const next = { ...keymap };
+  for (const { action: other } of KEY_ACTIONS) {
+    if (next[other].includes(combo)) next[other] = next[other].filter(c => c !== combo);
+  }
+  next[action] = [combo];
+  return next;
+};
+
+export const loadKeymap = (): Keymap => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(KEYMAP_STORAGE_KEY) ?? 'null');
+    if (!isObject(stored)) return DEFAULT_KEYMAP;
+    // Start from the defaults so actions added later still get a binding
+    const keymap = { ...DEFAULT_KEYMAP };
+    for (const { action } of KEY_ACTIONS) {
+      const combos = stored[action];
+      if (Array.isArray(combos)) keymap[action] = combos.filter((c): c is string => typeof c === 'string');
+    }
+    return keymap;
+  } catch {
+    return DEFAULT_KEYMAP;
+  }
+};
+
+export const saveKeymap = (keymap: Keymap) => {
+  localStorage.setItem(KEYMAP_STORAGE_KEY, JSON.stringify(keymap));
+};
+
+// Extra record-mode compensation on top of the measured output latency (ms)
+const RECORD_OFFSET_STORAGE_KEY = 'audiocue:recordOffset';
+
+export const loadRecordOffset = (): number => Number(localStorage.getItem(RECORD_OFFSET_STORAGE_KEY)) || 0;
+
+export const saveRecordOffset = (ms: number) => {
+  localStorage.setItem(RECORD_OFFSET_STORAGE_KEY, String(ms));
+};
@@ -0,0 +1,118 @@
+import { Cue, Lane } from '../types';
+import { parseLaneClick } from './countIn';
+import { isObject } from './guards';
+
+// Cues point at lanes by index (`Cue.row`), so every structural lane edit goes
+// through here and returns the cues remapped alongside the new lane list.
+export interface LaneDocument {
+  lanes: Lane[];
+  cues: Cue[];
+}
+
+export const LANE_HEIGHTS: { value: number; label: string }[] = [
+  { value: 0.5, label: 'S' },
+  { value: 1, label: 'M' },
+  { value: 2, label: 'L' },
+];
+
+const DEFAULT_LANE_SETUP: { name: string; color: string }[] = [
+  { name: 'Lights', color: '#eab308' },
+  { name: 'Sound', color: '#3b82f6' },
+  { name: 'Video', color: '#a855f7' },
+  { name: 'Pyro', color: '#ef4444' },
+];
+
+export const createLane = (name: string, color = '#ef4444'): Lane => ({
+  id: crypto.randomUUID(),
+  name,
+  color,
+  height: 1,
+  locked: false,
+  hidden: false,
+  solo: false,
+});
+
+export const createDefaultLanes = (): Lane[] => DEFAULT_LANE_SETUP.map(({ name, color }) => createLane(name, color));
+
+// Projects saved before lanes existed only have row numbers: give them one lane per row in use
+export const ensureLanes = (lanes: Lane[] | null | undefined, cues: Cue[]): Lane[] => {
+  const result = lanes && lanes.length > 0 ? [...lanes] : createDefaultLanes();
+  const maxRow = cues.reduce((max, c) => Math.max(max, c.row), 0);
+  while (result.length <= maxRow) result.push(createLane(`Lane ${result.length + 1}`));
+  return result;
+};
+
+// Solo wins over hide: with any lane soloed, only soloed lanes are shown
+export const isLaneVisible = (lanes: Lane[], index: number): boolean => {
+  const lane = lanes[index];
+  if (!lane) return false;
+  return lanes.some(l => l.solo) ? lane.solo : !lane.hidden;
+};
+
+export const isLaneLocked = (lanes: Lane[], index: number): boolean => !!lanes[index]?.locked;
+
+export interface LaneLayout {
+  top: number;
+  height: number;
+}
+
+// Split the available height between visible lanes by their relative weights
+export const layoutLanes = (lanes: Lane[], totalHeight: number): (LaneLayout | null)[] => {
+  const visible = lanes.map((_, i) => isLaneVisible(lanes, i));
+  const totalWeight = lanes.reduce((sum, lane, i) => sum + (visible[i] ? lane.height : 0), 0);
+  let top = 0;
+  return lanes.map((lane, i) => {
+    if (!visible[i] || totalWeight === 0) return null;
+    const height = (lane.height / totalWeight) * totalHeight;
+    const layout = { top, height };
+    top += height;
+    return layout;
+  });
+};
+
+export const laneAtY = (layout: (LaneLayout | null)[], y: number): number =>
+  layout.findIndex(l => l !== null && y >= l.top && y < l.top + l.height);
+
+export const moveLane = (doc: LaneDocument, from: number, to: number): LaneDocument => {
+  if (from === to || to < 0 || to >= doc.lanes.length) return doc;
+  const order = doc.lanes.map((_, i) => i);
+  order.splice(to, 0, ...order.splice(from, 1));
+  // order[newIndex] = oldIndex; invert it to remap cue rows
+  const newIndexOf = new Map(order.map((oldIndex, newIndex) => [oldIndex, newIndex]));
+  return {
+    lanes: order.map(i => doc.lanes[i]),
+    cues: doc.cues.map(c => ({ ...c, row: newIndexOf.get(c.row) ?? c.row })),
+  };
+};
+
+// Remove a lane, moving its cues into `targetIndex` (an index in the current list)
+export const removeLane = (doc: LaneDocument, index: number, targetIndex: number): LaneDocument => {
+  if (doc.lanes.length <= 1 || index === targetIndex) return doc;
+  const target = targetIndex > index ? targetIndex - 1 : targetIndex;
+  return {
+    lanes: doc.lanes.filter((_, i) => i !== index),
+    cues: doc.cues.map(c => {
+      if (c.row === index) return { ...c, row: target };
+      if (c.row > index) return { ...c, row: c.row - 1 };
+      return c;
+    }),
+  };
+};
+
+// Coerce lanes from an imported file
+export const parseLanes = (raw: unknown): Lane[] | null => {
+  if (!Array.isArray(raw) || raw.length === 0) return null;
+  return raw.map((value: unknown, i) => {
+    const l = isObject(value) ? value : {};
+    return {
+      id: typeof l.id === 'string' ? l.id : crypto.randomUUID(),
+      name: typeof l.name === 'string' && l.name ? l.name : `Lane ${i + 1}`,
+      color: typeof l.color === 'string' ? l.color : '#ef4444',
+      height: Number(l.height) > 0 ? Number(l.height) : 1,
+      locked: !!l.locked,
+      hidden: !!l.hidden,
+      solo: !!l.solo,
+      click: parseLaneClick(l.click),
+    };
+  });
+};
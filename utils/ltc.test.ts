@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { TimecodeFormat } from '../types';
+import { decodeLtc, getLtcStartFrame, ltcFrameNumber, renderLtc, renderLtcFor } from './ltc';
+import { getFrameRate, timecodeToFrames } from './timecode';
+
+const FORMATS: TimecodeFormat[] = ['smpte24', 'smpte25', 'smpte2997df', 'smpte30'];
+const SAMPLE_RATES = [44100, 48000];
+
+describe('LTC', () => {
+  for (const format of FORMATS) {
+    for (const sampleRate of SAMPLE_RATES) {
+      it(`round-trips ${format} at ${sampleRate} Hz`, () => {
+        const rate = getFrameRate(format)!;
+        // Starts a few frames before a minute boundary, so drop-frame numbering is exercised
+        const startFrame = timecodeToFrames(1, 0, 59, rate.nominal - 3, rate);
+        const seconds = 2;
+        const samples = renderLtc({ format, startFrame, length: sampleRate * seconds, sampleRate, amplitude: 0.5 });
+        const frames = decodeLtc(samples, sampleRate);
+
+        // Every complete frame comes back, in order, with no gaps
+        expect(frames.length).toBeGreaterThanOrEqual(Math.floor(seconds * rate.fps) - 1);
+        frames.forEach((frame, i) => {
+          expect(ltcFrameNumber(frame, format)).toBe(startFrame + i);
+          expect(frame.dropFrame).toBe(rate.dropFrame);
+        });
+        expect(frames[0].timecode).toBe(`01:00:59${rate.dropFrame ? ';' : ':'}${rate.nominal - 3}`);
+        // Frame boundaries land where the exact frame rate puts them
+        const fps = rate.dropFrame ? 30000 / 1001 : rate.fps;
+        frames.forEach((frame, i) => expect(Math.abs(frame.start - (i * sampleRate) / fps)).toBeLessThanOrEqual(1));
+        expect(samples.reduce((max, s) => Math.max(max, s), 0)).toBeCloseTo(0.5);
+      });
+    }
+  }
+
+  it('skips the dropped frame numbers at the start of a minute', () => {
+    const format = 'smpte2997df';
+    const start = timecodeToFrames(0, 0, 59, 28, getFrameRate(format)!);
+    const frames = decodeLtc(renderLtc({ format, startFrame: start, length: 48000, sampleRate: 48000, amplitude: 1 }), 48000);
+    expect(frames.slice(0, 3).map(f => f.timecode)).toEqual(['00:00:59;28', '00:00:59;29', '00:01:00;02']);
+  });
+
+  it('starts on the frame nearest the show start', () => {
+    const settings = { format: 'smpte25' as const, start: 3600.49, levelDb: -10, liveChannel: null };
+    expect(getLtcStartFrame(settings)).toBe(3600 * 25 + 12);
+    const frames = decodeLtc(renderLtcFor(settings, 48000, 48000), 48000);
+    expect(frames[0].timecode).toBe('01:00:00:12');
+  });
+});
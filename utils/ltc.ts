@@ -0,0 +1,199 @@
+import { TimecodeFormat } from '../types';
+import { FrameRate, getFrameRate, framesToTimecode, timecodeToFrames } from './timecode';
+
+// SMPTE linear timecode (SMPTE 12M): 80-bit frames, biphase-mark encoded.
+// Rendering is pure integer arithmetic on bit boundaries, so the same settings
+// always produce the same samples, and decodeLtc reads them back exactly.
+
+export const LTC_BITS_PER_FRAME = 80;
+
+// Bits 64-79: 0011 1111 1111 1101, marks the end of a frame and its direction
+const SYNC_WORD = [0, 0, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 0, 1];
+
+export const LTC_FORMATS: TimecodeFormat[] = ['smpte24', 'smpte25', 'smpte2997df', 'smpte30'];
+
+export interface LtcSettings {
+  format: TimecodeFormat;
+  start: number; // Show time at the start of the audio, rounded to the nearest frame when rendered
+  levelDb: number; // Peak level in dBFS
+  liveChannel: number | null; // Output channel (0-based) for live playback, null when off
+}
+
+export const DEFAULT_LTC_SETTINGS: LtcSettings = { format: 'smpte25', start: 0, levelDb: -10, liveChannel: null };
+
+export const getLtcGain = (settings: LtcSettings) => Math.pow(10, settings.levelDb / 20);
+
+export const getLtcStartFrame = (settings: LtcSettings): number => {
+  const rate = getFrameRate(settings.format);
+  if (!rate) throw new Error(`${settings.format} is not an SMPTE frame rate`);
+  return Math.max(0, Math.round(settings.start * rate.fps));
+};
+
+// Render LTC lined up with a program buffer (sample 0 = start of the audio)
+export const renderLtcFor = (settings: LtcSettings, length: number, sampleRate: number): Float32Array =>
+  renderLtc({
+    format: settings.format,
+    startFrame: getLtcStartFrame(settings),
+    length,
+    sampleRate,
+    amplitude: getLtcGain(settings),
+  });
+
+// Exact frames per second as a fraction, so bit boundaries never drift
+const rateFraction = (rate: FrameRate): [number, number] => (rate.dropFrame ? [30000, 1001] : [rate.fps, 1]);
+
+// The biphase polarity bit moves depending on the frame rate
+const polarityBit = (rate: FrameRate) => (rate.nominal === 25 ? 59 : 27);
+
+const writeBcd = (bits: Uint8Array, offset: number, length: number, value: number) => {
+  for (let i = 0; i < length; i++) bits[offset + i] = (value >> i) & 1;
+};
+
+const readBcd = (bits: ArrayLike<number>, offset: number, length: number) => {
+  let value = 0;
+  for (let i = 0; i < length; i++) value |= bits[offset + i] << i;
+  return value;
+};
+
+// One frame's 80 bits (LSB first within each field, as transmitted)
+export const encodeLtcFrame = (frameNumber: number, rate: FrameRate): Uint8Array => {
+  const bits = new Uint8Array(LTC_BITS_PER_FRAME);
+  const [hh, mm, ss, ff] = framesToTimecode(frameNumber, rate).split(/[:;]/).map(Number);
+  writeBcd(bits, 0, 4, ff % 10);
+  writeBcd(bits, 8, 2, Math.floor(ff / 10));
+  bits[10] = rate.dropFrame ? 1 : 0;
+  writeBcd(bits, 16, 4, ss % 10);
+  writeBcd(bits, 24, 3, Math.floor(ss / 10));
+  writeBcd(bits, 32, 4, mm % 10);
+  writeBcd(bits, 40, 3, Math.floor(mm / 10));
+  writeBcd(bits, 48, 4, (hh % 24) % 10);
+  writeBcd(bits, 56, 2, Math.floor((hh % 24) / 10));
+  SYNC_WORD.forEach((bit, i) => { bits[64 + i] = bit; });
+  // Even number of zeros per frame, so every frame starts with the same polarity
+  const zeros = bits.reduce((n, bit) => n + (bit ? 0 : 1), 0);
+  if (zeros % 2 === 1) bits[polarityBit(rate)] = 1;
+  return bits;
+};
+
+export interface LtcRenderOptions {
+  format: TimecodeFormat;
+  startFrame: number; // Frame count of the timecode at sample 0
+  length: number; // Samples to render (e.g. the program's length, so the two line up)
+  sampleRate: number;
+  amplitude: number; // Peak level, 0-1
+}
+
+export interface LtcRenderResponse {
+  samples: Float32Array;
+}
+
+/**
+ * Render LTC starting exactly on a frame boundary at sample 0. Each bit starts
+ * with a transition; a 1 has a second transition halfway through.
+ */
+export const renderLtc = ({ format, startFrame, length, sampleRate, amplitude }: LtcRenderOptions): Float32Array => {
+  const rate = getFrameRate(format);
+  if (!rate) throw new Error(`${format} is not an SMPTE frame rate`);
+  const [num, den] = rateFraction(rate);
+  const out = new Float32Array(length);
+
+  // Sample index where half-bit `h` begins (integers only: no accumulated rounding)
+  const halfBitStart = (h: number) => Math.floor((h * sampleRate * den) / (num * LTC_BITS_PER_FRAME * 2));
+
+  let level = -amplitude;
+  let frameBits = encodeLtcFrame(startFrame, rate);
+  for (let bit = 0; ; bit++) {
+    const start = halfBitStart(bit * 2);
+    if (start >= length) break;
+    const indexInFrame = bit % LTC_BITS_PER_FRAME;
+    if (indexInFrame === 0 && bit > 0) frameBits = encodeLtcFrame(startFrame + bit / LTC_BITS_PER_FRAME, rate);
+
+    const mid = Math.min(length, halfBitStart(bit * 2 + 1));
+    const end = Math.min(length, halfBitStart(bit * 2 + 2));
+    level = -level;
+    out.fill(level, start, mid);
+    if (frameBits[indexInFrame]) level = -level;
+    out.fill(level, mid, end);
+  }
+  return out;
+};
+
+export interface LtcFrame {
+  timecode: string;
+  hours: number;
+  minutes: number;
+  seconds: number;
+  frames: number;
+  dropFrame: boolean;
+  start: number; // Sample index where the frame's first bit begins
+}
+
+/**
+ * Decode forward-running LTC from raw samples. Transitions are found by sign
+ * changes; intervals close to half a bit pair up into 1s, full-bit intervals are 0s.
+ * The bit length is estimated from the signal, so any supported frame rate works.
+ */
+export const decodeLtc = (samples: Float32Array, sampleRate: number): LtcFrame[] => {
+  // Transition positions. The first sample counts as one: rendered LTC starts on a bit boundary
+  const edges: number[] = [0];
+  let positive = samples[0] > 0;
+  for (let i = 1; i < samples.length; i++) {
+    const p = samples[i] > 0;
+    if (p !== positive && samples[i] !== 0) {
+      edges.push(i);
+      positive = p;
+    }
+  }
+
+  // A full bit at 24-30 fps is sampleRate / 1920..2400 samples; start from the middle
+  let bitLength = sampleRate / (27 * LTC_BITS_PER_FRAME);
+  const bits: number[] = [];
+  const bitStarts: number[] = [];
+  const frames: LtcFrame[] = [];
+  let pendingHalf = -1; // Start of a 1 bit whose second half hasn't been seen yet
+
+  for (let i = 1; i < edges.length; i++) {
+    const interval = edges[i] - edges[i - 1];
+    if (interval > bitLength * 0.75) {
+      pendingHalf = -1; // A lone half bit means sync was lost; resynchronise on this 0
+      bits.push(0);
+      bitStarts.push(edges[i - 1]);
+      bitLength = bitLength * 0.9 + interval * 0.1;
+    } else if (pendingHalf === -1) {
+      pendingHalf = edges[i - 1];
+      continue;
+    } else {
+      bits.push(1);
+      bitStarts.push(pendingHalf);
+      bitLength = bitLength * 0.9 + (edges[i] - pendingHalf) * 0.1;
+      pendingHalf = -1;
+    }
+
+    const n = bits.length;
+    if (n < LTC_BITS_PER_FRAME || !SYNC_WORD.every((b, k) => bits[n - 16 + k] === b)) continue;
+
+    const frame = bits.slice(n - LTC_BITS_PER_FRAME);
+    const ff = readBcd(frame, 0, 4) + 10 * readBcd(frame, 8, 2);
+    const ss = readBcd(frame, 16, 4) + 10 * readBcd(frame, 24, 3);
+    const mm = readBcd(frame, 32, 4) + 10 * readBcd(frame, 40, 3);
+    const hh = readBcd(frame, 48, 4) + 10 * readBcd(frame, 56, 2);
+    const dropFrame = frame[10] === 1;
+    frames.push({
+      timecode: `${[hh, mm, ss].map(v => v.toString().padStart(2, '0')).join(':')}${dropFrame ? ';' : ':'}${ff.toString().padStart(2, '0')}`,
+      hours: hh,
+      minutes: mm,
+      seconds: ss,
+      frames: ff,
+      dropFrame,
+      start: bitStarts[n - LTC_BITS_PER_FRAME],
+    });
+  }
+  return frames;
+};
+
+// Frame count for decoded fields, e.g. to check a decoded stream is continuous
+export const ltcFrameNumber = (frame: LtcFrame, format: TimecodeFormat): number => {
+  const rate = getFrameRate(format);
+  if (!rate) throw new Error(`${format} is not an SMPTE frame rate`);
+  return timecodeToFrames(frame.hours, frame.minutes, frame.seconds, frame.frames, rate);
+};
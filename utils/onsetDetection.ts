@@ -0,0 +1,188 @@
+import { fft, hannWindow } from './fft';
+
+// Onset and beat detection on the loaded audio. The worker computes a
+// spectral-flux onset envelope and a tempo/beat estimate once; picking the
+// actual onsets is cheap and re-runs on the main thread as sensitivity and
+// spacing are adjusted.
+
+const FFT_SIZE = 1024;
+const HOP_SIZE = 512;
+const MIN_BPM = 60;
+const MAX_BPM = 200;
+const PREFERRED_BPM = 120;
+
+export interface OnsetAnalysisRequest {
+  mix: Float32Array;
+  sampleRate: number;
+}
+
+export interface OnsetAnalysis {
+  envelope: Float32Array; // normalized 0-1, one value per hop
+  hopSeconds: number;
+  bpm: number;
+  beats: number[]; // seconds
+}
+
+export type OnsetAnalysisMessage =
+  | { type: 'progress'; progress: number }
+  | { type: 'done'; analysis: OnsetAnalysis };
+
+export interface DetectedOnset {
+  time: number;
+  strength: number;
+}
+
+export const computeOnsetEnvelope = (mix: Float32Array, onProgress?: (fraction: number) => void): Float32Array => {
+  const frames = Math.max(0, Math.floor((mix.length - FFT_SIZE) / HOP_SIZE) + 1);
+  const bins = FFT_SIZE / 2;
+  const window = hannWindow(FFT_SIZE);
+  const re = new Float64Array(FFT_SIZE);
+  const im = new Float64Array(FFT_SIZE);
+  let prev = new Float64Array(bins);
+  let cur = new Float64Array(bins);
+  const envelope = new Float32Array(frames);
+  let max = 0;
+
+  for (let f = 0; f < frames; f++) {
+    const start = f * HOP_SIZE;
+    for (let i = 0; i < FFT_SIZE; i++) {
+      re[i] = mix[start + i] * window[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+
+    // Half-wave rectified difference of log-compressed magnitudes
+    let flux = 0;
+    for (let b = 0; b < bins; b++) {
+      cur[b] = Math.log1p(100 * Math.sqrt(re[b] * re[b] + im[b] * im[b]));
+      const diff = cur[b] - prev[b];
+      if (diff > 0 && f > 0) flux += diff;
+    }
+    envelope[f] = flux;
+    if (flux > max) max = flux;
+    [prev, cur] = [cur, prev];
+
+    if (onProgress && f % 2048 === 0) onProgress((f / frames) * 0.8);
+  }
+
+  if (max > 0) {
+    for (let f = 0; f < frames; f++) envelope[f] /= max;
+  }
+  return envelope;
+};
+
+/**
+ * Tempo from the autocorrelation of the onset envelope (weighted towards
+ * PREFERRED_BPM to settle octave ambiguity), then the beat phase that lines up
+ * best with the envelope.
+ */
+export const estimateBeats = (envelope: Float32Array, hopSeconds: number, duration: number) => {
+  const minLag = Math.max(1, Math.floor(60 / MAX_BPM / hopSeconds));
+  const maxLag = Math.ceil(60 / MIN_BPM / hopSeconds);
+  const n = envelope.length;
+  if (n <= maxLag * 2) return { bpm: 0, beats: [] as number[] };
+
+  let mean = 0;
+  for (let i = 0; i < n; i++) mean += envelope[i];
+  mean /= n;
+
+  const scores = new Float64Array(maxLag + 2);
+  for (let lag = minLag; lag <= maxLag + 1; lag++) {
+    let sum = 0;
+    for (let i = 0; i + lag < n; i++) sum += (envelope[i] - mean) * (envelope[i + lag] - mean);
+    scores[lag] = sum / (n - lag);
+  }
+
+  let bestLag = minLag;
+  let bestScore = -Infinity;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    const bpm = 60 / (lag * hopSeconds);
+    const weight = Math.exp(-0.5 * Math.pow(Math.log2(bpm / PREFERRED_BPM), 2));
+    const score = scores[lag] * weight;
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+
+  // Parabolic interpolation around the peak for a sub-frame period
+  const a = scores[bestLag - 1] ?? 0;
+  const b = scores[bestLag];
+  const c = scores[bestLag + 1] ?? 0;
+  const denom = a - 2 * b + c;
+  const period = bestLag + (denom !== 0 ? Math.max(-0.5, Math.min(0.5, (0.5 * (a - c)) / denom)) : 0);
+
+  let bestPhase = 0;
+  let bestPhaseScore = -Infinity;
+  for (let phase = 0; phase < period; phase++) {
+    let sum = 0;
+    for (let pos = phase; pos < n; pos += period) sum += envelope[Math.round(pos)] ?? 0;
+    if (sum > bestPhaseScore) {
+      bestPhaseScore = sum;
+      bestPhase = phase;
+    }
+  }
+
+  const beats: number[] = [];
+  const beatSeconds = period * hopSeconds;
+  for (let t = bestPhase * hopSeconds; t < duration; t += beatSeconds) beats.push(t);
+
+  return { bpm: 60 / beatSeconds, beats };
+};
+
+export const analyzeOnsets = (
+  mix: Float32Array,
+  sampleRate: number,
+  onProgress?: (fraction: number) => void
+): OnsetAnalysis => {
+  const hopSeconds = HOP_SIZE / sampleRate;
+  const envelope = computeOnsetEnvelope(mix, onProgress);
+  const { bpm, beats } = estimateBeats(envelope, hopSeconds, mix.length / sampleRate);
+  onProgress?.(1);
+  // Frame f is centred FFT_SIZE / 2 samples after its start
+  const centreOffset = FFT_SIZE / 2 / sampleRate;
+  return { envelope, hopSeconds, bpm, beats: beats.map(t => t + centreOffset) };
+};
+
+/**
+ * Peaks of the onset envelope above an adaptive threshold.
+ * `sensitivity` is 0-1 (higher finds more onsets); onsets closer than
+ * `minSpacing` seconds keep only the stronger one.
+ */
+export const pickOnsets = (analysis: OnsetAnalysis, sensitivity: number, minSpacing: number): DetectedOnset[] => {
+  const { envelope, hopSeconds } = analysis;
+  const n = envelope.length;
+  const peakRadius = Math.max(1, Math.round(0.03 / hopSeconds));
+  const meanRadius = Math.max(1, Math.round(0.2 / hopSeconds));
+  const delta = 0.02 + (1 - sensitivity) * 0.3;
+  const centreOffset = (FFT_SIZE / 2) * (hopSeconds / HOP_SIZE);
+
+  const prefix = new Float64Array(n + 1);
+  for (let i = 0; i < n; i++) prefix[i + 1] = prefix[i] + envelope[i];
+
+  const onsets: DetectedOnset[] = [];
+  for (let i = 0; i < n; i++) {
+    const v = envelope[i];
+    const lo = Math.max(0, i - meanRadius);
+    const hi = Math.min(n, i + meanRadius + 1);
+    if (v <= (prefix[hi] - prefix[lo]) / (hi - lo) + delta) continue;
+
+    let isPeak = true;
+    for (let j = Math.max(0, i - peakRadius); j <= Math.min(n - 1, i + peakRadius); j++) {
+      if (envelope[j] > v || (envelope[j] === v && j < i)) {
+        isPeak = false;
+        break;
+      }
+    }
+    if (!isPeak) continue;
+
+    const onset = { time: i * hopSeconds + centreOffset, strength: v };
+    const last = onsets[onsets.length - 1];
+    if (last && onset.time - last.time < minSpacing) {
+      if (onset.strength > last.strength) onsets[onsets.length - 1] = onset;
+    } else {
+      onsets.push(onset);
+    }
+  }
+  return onsets;
+};
@@ -0,0 +1,121 @@
+import { OscArg } from '../types';
+
+// Minimal OSC 1.0 message encoding/decoding (int32, float32, string, true/false).
+// Bundles aren't needed for cue triggers, so only plain messages are supported.
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+const pad4 = (n: number) => (n + 3) & ~3;
+
+// OSC strings are NUL-terminated and padded to a multiple of 4 bytes
+const encodeString = (value: string): Uint8Array => {
+  const bytes = textEncoder.encode(value);
+  const out = new Uint8Array(pad4(bytes.length + 1));
+  out.set(bytes);
+  return out;
+};
+
+export const encodeOscMessage = (address: string, args: OscArg[]): Uint8Array => {
+  if (!address.startsWith('/')) throw new Error(`OSC address must start with "/": ${address}`);
+
+  const parts: Uint8Array[] = [encodeString(address), encodeString(',' + args.map(a => a.type).join(''))];
+  for (const arg of args) {
+    if (arg.type === 'i' || arg.type === 'f') {
+      const bytes = new Uint8Array(4);
+      const view = new DataView(bytes.buffer);
+      if (arg.type === 'i') view.setInt32(0, Math.trunc(Number(arg.value)));
+      else view.setFloat32(0, Number(arg.value));
+      parts.push(bytes);
+    } else if (arg.type === 's') {
+      parts.push(encodeString(String(arg.value)));
+    }
+    // T and F carry no data bytes
+  }
+
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+};
+
+const readString = (bytes: Uint8Array, offset: number): [string, number] => {
+  let end = offset;
+  while (end < bytes.length && bytes[end] !== 0) end++;
+  if (end >= bytes.length) throw new Error('Unterminated OSC string');
+  return [textDecoder.decode(bytes.subarray(offset, end)), pad4(end + 1)];
+};
+
+export interface OscMessage {
+  address: string;
+  args: OscArg[];
+}
+
+export const decodeOscMessage = (bytes: Uint8Array): OscMessage => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const [address, afterAddress] = readString(bytes, 0);
+  if (!address.startsWith('/')) throw new Error('Not an OSC message');
+
+  // Messages without a type tag string are legal and simply have no arguments
+  if (afterAddress >= bytes.length) return { address, args: [] };
+  const [tags, afterTags] = readString(bytes, afterAddress);
+  if (!tags.startsWith(',')) throw new Error('Missing OSC type tags');
+
+  const args: OscArg[] = [];
+  let offset = afterTags;
+  for (const tag of tags.slice(1)) {
+    switch (tag) {
+      case 'i':
+        args.push({ type: 'i', value: view.getInt32(offset) });
+        offset += 4;
+        break;
+      case 'f':
+        args.push({ type: 'f', value: view.getFloat32(offset) });
+        offset += 4;
+        break;
+      case 's': {
+        const [value, next] = readString(bytes, offset);
+        args.push({ type: 's', value });
+        offset = next;
+        break;
+      }
+      case 'T':
+        args.push({ type: 'T', value: true });
+        break;
+      case 'F':
+        args.push({ type: 'F', value: false });
+        break;
+      default:
+        throw new Error(`Unsupported OSC type tag "${tag}"`);
+    }
+  }
+  return { address, args };
+};
+
+// Parse a space-separated argument string ("1 0.5 go true") into typed args
+export const parseOscArgs = (text: string): OscArg[] =>
+  (text.match(/"[^"]*"|\S+/g) ?? []).map((token): OscArg => {
+    if (token.startsWith('"')) return { type: 's', value: token.slice(1, -1) };
+    if (token === 'true') return { type: 'T', value: true };
+    if (token === 'false') return { type: 'F', value: false };
+    if (/^-?\d+$/.test(token)) return { type: 'i', value: Number(token) };
+    if (/^-?\d*\.\d+$|^-?\d+\.\d*$/.test(token)) return { type: 'f', value: Number(token) };
+    return { type: 's', value: token };
+  });
+
+export const formatOscArgs = (args: OscArg[]): string =>
+  args
+    .map(a => {
+      if (a.type === 'T') return 'true';
+      if (a.type === 'F') return 'false';
+      if (a.type === 'f') {
+        const n = Number(a.value);
+        return Number.isInteger(n) ? n.toFixed(1) : String(n);
+      }
+      if (a.type === 's') return /\s|^$|^-?[\d.]+$|^(true|false)$/.test(String(a.value)) ? `"${a.value}"` : String(a.value);
+      return String(a.value);
+    })
+    .join(' ');
@@ -0,0 +1,164 @@
+import { Cue, Lane, OscArg } from '../types';
+import { encodeOscMessage, decodeOscMessage, OscMessage } from './osc';
+import { loadStoredSettings, saveStoredSettings } from './settingsStore';
+
+// OSC output to consoles through the local WebSocket→UDP bridge (bridge/osc-bridge.mjs).
+// Unlike per-cue OSC actions, these messages are global: every cue GO, the transport
+// and a time heartbeat, with addresses built from templates.
+
+export interface OscBridgeSettings {
+  enabled: boolean;
+  url: string;
+  heartbeatMs: number; // 0 disables the heartbeat
+  // Outgoing address templates; cue GO may use {label} {lane} {laneIndex} {index} {id}
+  goAddress: string;
+  playAddress: string;
+  pauseAddress: string;
+  stopAddress: string;
+  heartbeatAddress: string;
+  // Incoming addresses that drive the transport
+  playPauseCommand: string;
+  stopCommand: string;
+  seekCommand: string; // First numeric argument is the target time in seconds
+}
+
+export const DEFAULT_OSC_BRIDGE_SETTINGS: OscBridgeSettings = {
+  enabled: false,
+  url: 'ws://localhost:8081',
+  heartbeatMs: 250,
+  goAddress: '/audiocue/go/{lane}/{index}',
+  playAddress: '/audiocue/transport/play',
+  pauseAddress: '/audiocue/transport/pause',
+  stopAddress: '/audiocue/transport/stop',
+  heartbeatAddress: '/audiocue/time',
+  playPauseCommand: '/audiocue/playpause',
+  stopCommand: '/audiocue/stop',
+  seekCommand: '/audiocue/seek',
+};
+
+export const CUE_ADDRESS_TOKENS = ['{label}', '{lane}', '{laneIndex}', '{index}', '{id}'];
+
+const OSC_BRIDGE_STORAGE_KEY = 'audiocue:oscBridge';
+
+export const loadOscBridgeSettings = (): OscBridgeSettings => loadStoredSettings(OSC_BRIDGE_STORAGE_KEY, DEFAULT_OSC_BRIDGE_SETTINGS);
+
+export const saveOscBridgeSettings = (settings: OscBridgeSettings) => saveStoredSettings(OSC_BRIDGE_STORAGE_KEY, settings);
+
+// Characters with meaning in OSC address patterns (plus whitespace and the path separator)
+const sanitizeAddressPart = (value: string) => value.trim().replace(/[\s#*,/?[\]{}]+/g, '_') || '_';
+
+/**
+ * Fill a cue GO template. `index` is the cue's 1-based position in the show
+ * (time order); lanes are numbered from 1 as shown on the timeline.
+ */
+export const buildCueAddress = (template: string, cue: Cue, index: number, lanes: Lane[]): string => {
+  const values: Record<string, string> = {
+    label: sanitizeAddressPart(cue.label),
+    lane: sanitizeAddressPart(lanes[cue.row]?.name ?? `Lane ${cue.row + 1}`),
+    laneIndex: String(cue.row + 1),
+    index: String(index),
+    id: sanitizeAddressPart(cue.id),
+  };
+  return template.replace(/\{(label|lane|laneIndex|index|id)\}/g, (_, token: string) => values[token]);
+};
+
+// GO carries the cue as arguments too, so a single wildcard address can handle every cue
+export const buildCueGoMessage = (settings: OscBridgeSettings, cue: Cue, index: number, lanes: Lane[]): OscMessage => ({
+  address: buildCueAddress(settings.goAddress, cue, index, lanes),
+  args: [
+    { type: 'i', value: index },
+    { type: 's', value: cue.label },
+    { type: 's', value: lanes[cue.row]?.name ?? '' },
+    { type: 'f', value: cue.time },
+  ],
+});
+
+export type OscBridgeCommand =
+  | { type: 'playPause' }
+  | { type: 'stop' }
+  | { type: 'seek'; time: number };
+
+// Map an incoming message to a transport command (null if it isn't one of ours)
+export const parseOscBridgeCommand = (settings: OscBridgeSettings, message: OscMessage): OscBridgeCommand | null => {
+  switch (message.address) {
+    case settings.playPauseCommand:
+      return { type: 'playPause' };
+    case settings.stopCommand:
+      return { type: 'stop' };
+    case settings.seekCommand: {
+      const time = Number(message.args.find(a => a.type === 'i' || a.type === 'f')?.value);
+      return Number.isFinite(time) && time >= 0 ? { type: 'seek', time } : null;
+    }
+    default:
+      return null;
+  }
+};
+
+export type OscBridgeStatus = 'disconnected' | 'connecting' | 'connected';
+
+interface OscBridgeClientHandlers {
+  onStatus: (status: OscBridgeStatus) => void;
+  onMessage: (message: OscMessage) => void;
+}
+
+const RECONNECT_DELAY = 2000;
+
+// One persistent connection to the bridge that reconnects until closed.
+// Messages sent while disconnected are dropped: a late GO is worse than none.
+export class OscBridgeClient {
+  private socket: WebSocket | null = null;
+  private reconnectTimer = 0;
+  private closed = false;
+
+  constructor(private url: string, private handlers: OscBridgeClientHandlers) {
+    this.connect();
+  }
+
+  send(address: string, args: OscArg[] = []): boolean {
+    if (this.socket?.readyState !== WebSocket.OPEN) return false;
+    try {
+      this.socket.send(encodeOscMessage(address, args));
+      return true;
+    } catch (err) {
+      console.error(`Error sending OSC ${address}`, err);
+      return false;
+    }
+  }
+
+  close() {
+    this.closed = true;
+    window.clearTimeout(this.reconnectTimer);
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  private connect() {
+    this.handlers.onStatus('connecting');
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(this.url);
+    } catch (err) {
+      // Malformed URL: retrying won't help until the settings change
+      console.error(`Invalid OSC bridge URL ${this.url}`, err);
+      this.handlers.onStatus('disconnected');
+      return;
+    }
+    socket.binaryType = 'arraybuffer';
+    socket.onopen = () => this.handlers.onStatus('connected');
+    socket.onmessage = (e) => {
+      if (!(e.data instanceof ArrayBuffer)) return;
+      try {
+        this.handlers.onMessage(decodeOscMessage(new Uint8Array(e.data)));
+      } catch (err) {
+        console.error('Ignoring malformed OSC from bridge', err);
+      }
+    };
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.handlers.onStatus('disconnected');
+      if (!this.closed) this.reconnectTimer = window.setTimeout(() => this.connect(), RECONNECT_DELAY);
+    };
+    this.socket = socket;
+  }
+}
@@ -0,0 +1,150 @@
+// Multi-resolution min/max peak data for waveform drawing. Level 0 holds one
+// min/max pair per BASE_SAMPLES_PER_PEAK samples; each following level merges
+// LEVEL_FACTOR bins of the previous one.
+
+export const BASE_SAMPLES_PER_PEAK = 32;
+const LEVEL_FACTOR = 4;
+const MIN_LEVEL_PEAKS = 512;
+const PROGRESS_INTERVAL = 1 << 20; // samples between progress reports
+
+export interface PeakLevel {
+  samplesPerPeak: number;
+  min: Float32Array;
+  max: Float32Array;
+}
+
+export interface PeakPyramid {
+  sampleRate: number;
+  length: number; // in samples
+  peak: number; // largest absolute sample value, for normalization
+  levels: PeakLevel[];
+}
+
+export interface PeakAnalysisRequest {
+  channels: Float32Array[];
+  sampleRate: number;
+}
+
+export interface ChannelPeaks {
+  channels: PeakPyramid[];
+  sum: PeakPyramid; // mono mix (channel average)
+}
+
+export type PeakAnalysisMessage =
+  | { type: 'progress'; progress: number }
+  | { type: 'done'; peaks: ChannelPeaks };
+
+// dB scale floor: anything quieter draws as silence
+const DB_FLOOR = -60;
+
+export const buildPeakPyramid = (
+  data: Float32Array,
+  sampleRate: number,
+  onProgress?: (fraction: number) => void
+): PeakPyramid => {
+  const baseCount = Math.ceil(data.length / BASE_SAMPLES_PER_PEAK);
+  const min = new Float32Array(baseCount);
+  const max = new Float32Array(baseCount);
+  let peak = 0;
+
+  for (let i = 0; i < baseCount; i++) {
+    const start = i * BASE_SAMPLES_PER_PEAK;
+    const end = Math.min(start + BASE_SAMPLES_PER_PEAK, data.length);
+    let lo = Infinity;
+    let hi = -Infinity;
+    for (let j = start; j < end; j++) {
+      const v = data[j];
+      if (v < lo) lo = v;
+      if (v > hi) hi = v;
+    }
+    min[i] = lo;
+    max[i] = hi;
+    if (-lo > peak) peak = -lo;
+    if (hi > peak) peak = hi;
+    if (onProgress && start % PROGRESS_INTERVAL < BASE_SAMPLES_PER_PEAK) onProgress(start / data.length);
+  }
+
+  const levels: PeakLevel[] = [{ samplesPerPeak: BASE_SAMPLES_PER_PEAK, min, max }];
+  let prev = levels[0];
+  while (prev.min.length > MIN_LEVEL_PEAKS) {
+    const count = Math.ceil(prev.min.length / LEVEL_FACTOR);
+    const nextMin = new Float32Array(count);
+    const nextMax = new Float32Array(count);
+    for (let i = 0; i < count; i++) {
+      let lo = Infinity;
+      let hi = -Infinity;
+      const end = Math.min((i + 1) * LEVEL_FACTOR, prev.min.length);
+      for (let j = i * LEVEL_FACTOR; j < end; j++) {
+        if (prev.min[j] < lo) lo = prev.min[j];
+        if (prev.max[j] > hi) hi = prev.max[j];
+      }
+      nextMin[i] = lo;
+      nextMax[i] = hi;
+    }
+    prev = { samplesPerPeak: prev.samplesPerPeak * LEVEL_FACTOR, min: nextMin, max: nextMax };
+    levels.push(prev);
+  }
+
+  onProgress?.(1);
+  return { sampleRate, length: data.length, peak, levels };
+};
+
+// Coarsest level that still has at least one bin per pixel
+export const pickPeakLevel = (pyramid: PeakPyramid, samplesPerPixel: number): PeakLevel => {
+  let chosen = pyramid.levels[0];
+  for (const level of pyramid.levels) {
+    if (level.samplesPerPeak <= samplesPerPixel) chosen = level;
+  }
+  return chosen;
+};
+
+/**
+ * Min/max over a sample range using the given level. The number of bins read is
+ * bounded by samplesPerPixel / samplesPerPeak, so per-pixel cost is constant.
+ */
+export const getPeakRange = (level: PeakLevel, startSample: number, endSample: number): [number, number] | null => {
+  const first = Math.max(0, Math.floor(startSample / level.samplesPerPeak));
+  const last = Math.min(level.min.length, Math.ceil(endSample / level.samplesPerPeak));
+  if (last <= first) return null;
+  let lo = Infinity;
+  let hi = -Infinity;
+  for (let i = first; i < last; i++) {
+    if (level.min[i] < lo) lo = level.min[i];
+    if (level.max[i] > hi) hi = level.max[i];
+  }
+  return [lo, hi];
+};
+
+export const getPyramidTransferables = (pyramid: PeakPyramid): ArrayBuffer[] =>
+  pyramid.levels.flatMap(level => [level.min.buffer as ArrayBuffer, level.max.buffer as ArrayBuffer]);
+
+// Pyramids for every channel plus the mono mix, reporting overall progress
+export const buildChannelPeaks = (
+  channels: Float32Array[],
+  sampleRate: number,
+  onProgress?: (fraction: number) => void
+): ChannelPeaks => {
+  const steps = channels.length + 1;
+  const length = channels[0]?.length ?? 0;
+
+  const pyramids = channels.map((data, c) =>
+    buildPeakPyramid(data, sampleRate, onProgress && (p => onProgress((c + p) / steps)))
+  );
+
+  const mix = new Float32Array(length);
+  for (const data of channels) {
+    for (let i = 0; i < length; i++) mix[i] += data[i];
+  }
+  const gain = 1 / (channels.length || 1);
+  for (let i = 0; i < length; i++) mix[i] *= gain;
+  const sum = buildPeakPyramid(mix, sampleRate, onProgress && (p => onProgress((channels.length + p) / steps)));
+
+  return { channels: pyramids, sum };
+};
+
+// Map an absolute amplitude (0-1 full scale) onto 0-1 display height in dB
+export const amplitudeToDbScale = (amplitude: number): number => {
+  if (amplitude <= 0) return 0;
+  const db = 20 * Math.log10(amplitude);
+  return Math.max(0, Math.min(1, (db - DB_FLOOR) / -DB_FLOOR));
+};
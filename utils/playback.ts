@@ -0,0 +1,70 @@
+import { LoopRegion } from '../types';
+
+// Loops shorter than this are treated as "no loop" (Web Audio needs loopEnd > loopStart)
+export const MIN_LOOP_LENGTH = 0.05;
+
+export const isValidLoop = (loop: LoopRegion | null): loop is LoopRegion =>
+  !!loop && loop.end - loop.start >= MIN_LOOP_LENGTH;
+
+/**
+ * Map a linear play position (start offset + elapsed media time) onto the media
+ * timeline, mirroring how an AudioBufferSourceNode wraps at its loop points.
+ */
+export const resolveLoopPosition = (linear: number, loop: LoopRegion | null) => {
+  if (!isValidLoop(loop) || linear < loop.end) return { time: linear, loopCount: 0 };
+  const length = loop.end - loop.start;
+  const overshoot = linear - loop.end;
+  return {
+    time: loop.start + (overshoot % length),
+    loopCount: Math.floor(overshoot / length) + 1,
+  };
+};
+
+export interface LtcRouting {
+  program: AudioNode; // Connect program sources here instead of the destination
+  ltc: GainNode; // Connect the LTC source here; its gain sets the LTC level
+  dispose: () => void;
+}
+
+/**
+ * Send LTC to one output channel (0-based) on its own. The program keeps its
+ * stereo pair but is taken off that channel, so timecode never mixes with audio.
+ */
+export const createLtcRouting = (ctx: AudioContext, ltcChannel: number): LtcRouting => {
+  const destination = ctx.destination;
+  const outputs = Math.min(destination.maxChannelCount, Math.max(2, ltcChannel + 1));
+  const previous = { count: destination.channelCount, interpretation: destination.channelInterpretation };
+  destination.channelCount = outputs;
+  destination.channelInterpretation = 'discrete';
+
+  // Up-mix mono programs to L+R before splitting
+  const program = ctx.createGain();
+  program.channelCount = 2;
+  program.channelCountMode = 'explicit';
+  program.channelInterpretation = 'speakers';
+  const splitter = ctx.createChannelSplitter(2);
+  const merger = ctx.createChannelMerger(outputs);
+  program.connect(splitter);
+  for (let channel = 0; channel < 2; channel++) {
+    if (channel !== ltcChannel) splitter.connect(merger, channel, channel);
+  }
+
+  const ltc = ctx.createGain();
+  ltc.channelCount = 1;
+  ltc.channelCountMode = 'explicit';
+  ltc.connect(merger, 0, ltcChannel);
+  merger.connect(destination);
+
+  return {
+    program,
+    ltc,
+    dispose: () => {
+      program.disconnect();
+      splitter.disconnect();
+      ltc.disconnect();
+      merger.disconnect();
+      destination.channelCount = previous.count;
+      destination.channelInterpretation = previous.interpretation;
+    },
+  };
+};
@@ -0,0 +1,328 @@
+import { Cue, Lane, TempoMap, TimecodeSettings } from '../types';
+import { formatTime } from './audioUtils';
+import { CUE_ACTION_TYPES } from './cueActions';
+import { parseCues } from './cueUtils';
+import { isObject } from './guards';
+import { ensureLanes, parseLanes } from './lanes';
+import { parseTempoMap } from './tempo';
+import { DEFAULT_TIMECODE, TIMECODE_FORMATS, parseTimecodeSettings } from './timecode';
+
+// The exported project file. Every file carries a `version`; older layouts are
+// upgraded through MIGRATIONS one step at a time before validation, and the
+// validator reports problems by path ("cues[12].time is negative") instead of
+// coercing them into something that loads.
+//
+// Version history:
+//   1  Unversioned export: { projectName, duration, cues, lanes?, tempoMap?, timecode?, exportDate }
+//   2  `version` field; audio fingerprint (file name, duration, SHA-256) under `audio`
+
+export const PROJECT_SCHEMA_VERSION = 2;
+
+export interface AudioFingerprint {
+  fileName: string | null;
+  duration: number; // Seconds, as decoded
+  sha256: string | null; // Hex digest of the original file bytes
+}
+
+export interface ProjectFile {
+  version: number;
+  audio: AudioFingerprint;
+  cues: Cue[];
+  lanes: Lane[];
+  tempoMap: TempoMap | null;
+  timecode: TimecodeSettings;
+  exportDate?: string;
+}
+
+export interface SchemaIssue {
+  path: string; // e.g. "cues[12].time"
+  message: string;
+}
+
+export interface ProjectValidation {
+  project: ProjectFile | null; // Null when there are errors
+  version: number | null; // As found in the file, before migration
+  errors: SchemaIssue[];
+  warnings: SchemaIssue[];
+}
+
+export const formatIssue = ({ path, message }: SchemaIssue) => (path ? `${path} ${message}` : message);
+
+// Decoders disagree by a frame or two on compressed formats (encoder delay/padding)
+const DURATION_TOLERANCE = 0.1;
+
+// SubtleCrypto copies `data` when called, so the buffer can go straight on to decodeAudioData
+export const hashAudio = async (data: ArrayBuffer): Promise<string | null> => {
+  if (!crypto.subtle) return null; // Only available in secure contexts (https, localhost)
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// A matching hash settles it; name and duration are only compared when either side has no hash
+export const compareAudioFingerprint = (file: AudioFingerprint, loaded: AudioFingerprint): SchemaIssue[] => {
+  if (file.sha256 && loaded.sha256) {
+    return file.sha256 === loaded.sha256
+      ? []
+      : [{ path: 'audio.sha256', message: 'does not match the loaded audio (different or re-encoded file)' }];
+  }
+  const issues: SchemaIssue[] = [];
+  if (file.fileName && loaded.fileName && file.fileName !== loaded.fileName) {
+    issues.push({ path: 'audio.fileName', message: `is "${file.fileName}" but the loaded audio is "${loaded.fileName}"` });
+  }
+  if (file.duration > 0 && loaded.duration > 0 && Math.abs(file.duration - loaded.duration) > DURATION_TOLERANCE) {
+    issues.push({ path: 'audio.duration', message: `is ${formatTime(file.duration)} but the loaded audio is ${formatTime(loaded.duration)}` });
+  }
+  return issues;
+};
+
+// Each step takes a file at version N (the key) and returns it at N + 1
+const MIGRATIONS: Record<number, (raw: Record<string, unknown>) => Record<string, unknown>> = {
+  1: ({ projectName, duration, ...rest }) => ({
+    ...rest,
+    version: 2,
+    audio: { fileName: typeof projectName === 'string' ? projectName : null, duration: duration ?? 0, sha256: null },
+    // Optional in version 1: files from before lanes, tempo maps or timecode settings
+    lanes: rest.lanes ?? null,
+    tempoMap: rest.tempoMap ?? null,
+    timecode: rest.timecode ?? DEFAULT_TIMECODE,
+  }),
+};
+
+interface NumberRule {
+  min?: number;
+  max?: number;
+  above?: number; // Exclusive lower bound
+  integer?: boolean;
+}
+
+const checkNumber = (issues: SchemaIssue[], path: string, value: unknown, rule: NumberRule = {}): value is number => {
+  if (value === undefined || value === null) {
+    issues.push({ path, message: 'is missing' });
+  } else if (typeof value !== 'number' || !Number.isFinite(value)) {
+    issues.push({ path, message: 'is not a number' });
+  } else if (rule.integer && !Number.isInteger(value)) {
+    issues.push({ path, message: 'is not a whole number' });
+  } else if (rule.min === 0 && value < 0) {
+    issues.push({ path, message: 'is negative' });
+  } else if (rule.min !== undefined && value < rule.min) {
+    issues.push({ path, message: `is below ${rule.min}` });
+  } else if (rule.above !== undefined && value <= rule.above) {
+    issues.push({ path, message: rule.above === 0 ? 'must be greater than 0' : `must be greater than ${rule.above}` });
+  } else if (rule.max !== undefined && value > rule.max) {
+    issues.push({ path, message: `is above ${rule.max}` });
+  } else {
+    return true;
+  }
+  return false;
+};
+
+const checkString = (issues: SchemaIssue[], path: string, value: unknown, nonEmpty = false): value is string => {
+  if (value === undefined || value === null) issues.push({ path, message: 'is missing' });
+  else if (typeof value !== 'string') issues.push({ path, message: 'is not a string' });
+  else if (nonEmpty && !value) issues.push({ path, message: 'is empty' });
+  else return true;
+  return false;
+};
+
+const checkOptionalBoolean = (issues: SchemaIssue[], path: string, value: unknown) => {
+  if (value !== undefined && typeof value !== 'boolean') issues.push({ path, message: 'is not true or false' });
+};
+
+const checkAudio = (issues: SchemaIssue[], audio: unknown) => {
+  if (!isObject(audio)) {
+    issues.push({ path: 'audio', message: 'is missing' });
+    return;
+  }
+  if (audio.fileName !== null) checkString(issues, 'audio.fileName', audio.fileName);
+  checkNumber(issues, 'audio.duration', audio.duration, { min: 0 });
+  if (audio.sha256 !== null && audio.sha256 !== undefined && !/^[0-9a-f]{64}$/.test(String(audio.sha256))) {
+    issues.push({ path: 'audio.sha256', message: 'is not a SHA-256 hex digest' });
+  }
+};
+
+const checkLanes = (issues: SchemaIssue[], lanes: unknown) => {
+  if (!Array.isArray(lanes)) {
+    issues.push({ path: 'lanes', message: 'is not a list' });
+    return;
+  }
+  if (lanes.length === 0) issues.push({ path: 'lanes', message: 'is empty' });
+  lanes.forEach((lane, i) => {
+    const path = `lanes[${i}]`;
+    if (!isObject(lane)) {
+      issues.push({ path, message: 'is not an object' });
+      return;
+    }
+    checkString(issues, `${path}.id`, lane.id, true);
+    checkString(issues, `${path}.name`, lane.name);
+    checkString(issues, `${path}.color`, lane.color, true);
+    checkNumber(issues, `${path}.height`, lane.height, { above: 0 });
+    checkOptionalBoolean(issues, `${path}.locked`, lane.locked);
+    checkOptionalBoolean(issues, `${path}.hidden`, lane.hidden);
+    checkOptionalBoolean(issues, `${path}.solo`, lane.solo);
+    if (lane.click !== undefined) {
+      if (!isObject(lane.click)) {
+        issues.push({ path: `${path}.click`, message: 'is not an object' });
+      } else {
+        checkOptionalBoolean(issues, `${path}.click.enabled`, lane.click.enabled);
+        checkNumber(issues, `${path}.click.pitch`, lane.click.pitch, { min: 20, max: 20000 });
+        checkNumber(issues, `${path}.click.volume`, lane.click.volume, { min: 0, max: 1 });
+      }
+    }
+  });
+};
+
+const checkCues = (issues: SchemaIssue[], cues: unknown, laneCount: number, duration: number) => {
+  if (!Array.isArray(cues)) {
+    issues.push({ path: 'cues', message: 'is not a list' });
+    return;
+  }
+  const ids = new Map<string, number>();
+  cues.forEach((cue, i) => {
+    const path = `cues[${i}]`;
+    if (!isObject(cue)) {
+      issues.push({ path, message: 'is not an object' });
+      return;
+    }
+    if (checkString(issues, `${path}.id`, cue.id, true)) {
+      const first = ids.get(cue.id);
+      if (first !== undefined) issues.push({ path: `${path}.id`, message: `duplicates cues[${first}].id` });
+      else ids.set(cue.id, i);
+    }
+    if (checkNumber(issues, `${path}.time`, cue.time, { min: 0 }) && duration > 0 && cue.time > duration) {
+      issues.push({ path: `${path}.time`, message: `is past the end of the audio (${formatTime(duration)})` });
+    }
+    checkString(issues, `${path}.label`, cue.label);
+    checkString(issues, `${path}.color`, cue.color, true);
+    if (checkNumber(issues, `${path}.row`, cue.row, { min: 0, integer: true }) && laneCount > 0 && cue.row >= laneCount) {
+      issues.push({ path: `${path}.row`, message: `points at lane ${cue.row + 1} but the project has ${laneCount}` });
+    }
+    if (cue.duration !== undefined) checkNumber(issues, `${path}.duration`, cue.duration, { above: 0 });
+    if (cue.actions !== undefined) {
+      if (!Array.isArray(cue.actions)) {
+        issues.push({ path: `${path}.actions`, message: 'is not a list' });
+      } else {
+        cue.actions.forEach((action: unknown, j: number) => {
+          if (!isObject(action)) issues.push({ path: `${path}.actions[${j}]`, message: 'is not an object' });
+          else if (!CUE_ACTION_TYPES.some(t => t.type === action.type)) {
+            issues.push({ path: `${path}.actions[${j}].type`, message: `"${action.type}" is not a known action type` });
+          }
+        });
+      }
+    }
+  });
+};
+
+const checkTempoMap = (issues: SchemaIssue[], tempoMap: unknown) => {
+  if (tempoMap === null) return;
+  if (!isObject(tempoMap)) {
+    issues.push({ path: 'tempoMap', message: 'is not an object' });
+    return;
+  }
+  checkNumber(issues, 'tempoMap.bpm', tempoMap.bpm, { above: 0 });
+  checkNumber(issues, 'tempoMap.beatsPerBar', tempoMap.beatsPerBar, { min: 1, integer: true });
+  checkNumber(issues, 'tempoMap.beatUnit', tempoMap.beatUnit, { min: 1, integer: true });
+  checkNumber(issues, 'tempoMap.offset', tempoMap.offset, { min: 0 });
+  if (!Array.isArray(tempoMap.changes)) {
+    issues.push({ path: 'tempoMap.changes', message: 'is not a list' });
+    return;
+  }
+  tempoMap.changes.forEach((change: unknown, i: number) => {
+    const path = `tempoMap.changes[${i}]`;
+    if (!isObject(change)) {
+      issues.push({ path, message: 'is not an object' });
+      return;
+    }
+    checkNumber(issues, `${path}.bar`, change.bar, { min: 2, integer: true });
+    checkNumber(issues, `${path}.bpm`, change.bpm, { above: 0 });
+    checkNumber(issues, `${path}.beatsPerBar`, change.beatsPerBar, { min: 1, integer: true });
+    checkNumber(issues, `${path}.beatUnit`, change.beatUnit, { min: 1, integer: true });
+  });
+};
+
+const checkTimecode = (issues: SchemaIssue[], timecode: unknown) => {
+  if (!isObject(timecode)) {
+    issues.push({ path: 'timecode', message: 'is missing' });
+    return;
+  }
+  if (!TIMECODE_FORMATS.some(f => f.value === timecode.format)) {
+    issues.push({ path: 'timecode.format', message: `"${timecode.format}" is not a known timecode format` });
+  }
+  checkNumber(issues, 'timecode.startOffset', timecode.startOffset);
+};
+
+// Bring a file up to PROJECT_SCHEMA_VERSION. Files without a version field are version 1.
+const migrate = (raw: Record<string, unknown>, errors: SchemaIssue[]): { data: Record<string, unknown> | null; version: number | null } => {
+  const version = raw.version === undefined ? 1 : raw.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    errors.push({ path: 'version', message: 'is not a valid version number' });
+    return { data: null, version: null };
+  }
+  if (version > PROJECT_SCHEMA_VERSION) {
+    errors.push({ path: 'version', message: `is ${version}; this app reads up to version ${PROJECT_SCHEMA_VERSION}` });
+    return { data: null, version };
+  }
+  let data = raw;
+  for (let v = version; v < PROJECT_SCHEMA_VERSION; v++) data = MIGRATIONS[v](data);
+  return { data, version };
+};
+
+/**
+ * Validate (and if needed migrate) a parsed project file. With `loaded`, the
+ * file's audio fingerprint is also compared against the audio that is open;
+ * a mismatch is a warning, since re-using a cue sheet on another mix is legitimate.
+ */
+export const validateProject = (raw: unknown, loaded?: AudioFingerprint): ProjectValidation => {
+  const errors: SchemaIssue[] = [];
+  const warnings: SchemaIssue[] = [];
+  if (!isObject(raw)) {
+    return { project: null, version: null, errors: [{ path: '', message: 'The file is not a project object' }], warnings };
+  }
+
+  const { data, version } = migrate(raw, errors);
+  if (!data) return { project: null, version, errors, warnings };
+
+  checkAudio(errors, data.audio);
+  // Version 1 files may predate lanes (null after migration); they get one lane per row in use
+  if (data.lanes !== null) checkLanes(errors, data.lanes);
+  const laneCount = Array.isArray(data.lanes) ? data.lanes.length : 0;
+  const duration = isObject(data.audio) && typeof data.audio.duration === 'number' ? data.audio.duration : 0;
+  checkCues(errors, data.cues, laneCount, duration);
+  checkTempoMap(errors, data.tempoMap);
+  checkTimecode(errors, data.timecode);
+  if (data.exportDate !== undefined) checkString(errors, 'exportDate', data.exportDate);
+  if (errors.length > 0) return { project: null, version, errors, warnings };
+
+  const checked = data.audio as AudioFingerprint; // Shape checked by checkAudio
+  const audio: AudioFingerprint = {
+    fileName: checked.fileName ?? null,
+    duration: checked.duration,
+    sha256: checked.sha256 ?? null,
+  };
+  if (loaded) warnings.push(...compareAudioFingerprint(audio, loaded));
+
+  const cues = Array.isArray(data.cues) ? parseCues(data.cues) : [];
+  return {
+    project: {
+      version: PROJECT_SCHEMA_VERSION,
+      audio,
+      cues,
+      lanes: ensureLanes(parseLanes(data.lanes), cues),
+      tempoMap: parseTempoMap(data.tempoMap),
+      timecode: parseTimecodeSettings(data.timecode),
+      ...(typeof data.exportDate === 'string' && data.exportDate ? { exportDate: data.exportDate } : {}),
+    },
+    version,
+    errors,
+    warnings,
+  };
+};
+
+export const serializeProject = (project: Omit<ProjectFile, 'version' | 'exportDate'>): string => JSON.stringify({
+  version: PROJECT_SCHEMA_VERSION,
+  audio: project.audio,
+  cues: project.cues,
+  lanes: project.lanes,
+  tempoMap: project.tempoMap,
+  timecode: project.timecode,
+  exportDate: new Date().toISOString(),
+}, null, 2);
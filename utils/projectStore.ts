@@ -0,0 +1,115 @@
+import { ProjectRecord } from '../types';
+
+// Local project persistence. Project metadata + cues live in one store and the
+// original audio file in another, so cue autosaves never rewrite the audio blob.
+
+const DB_NAME = 'audiocue-pro';
+const DB_VERSION = 1;
+const PROJECTS = 'projects';
+const AUDIO = 'audio';
+
+const LAST_PROJECT_KEY = 'audiocue:lastProjectId';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(PROJECTS)) {
+        db.createObjectStore(PROJECTS, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(AUDIO)) {
+        db.createObjectStore(AUDIO);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+const promisify = <T,>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export const listProjects = async (): Promise<ProjectRecord[]> => {
+  const db = await openDb();
+  const projects = await promisify(db.transaction(PROJECTS).objectStore(PROJECTS).getAll()) as ProjectRecord[];
+  return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getProject = async (id: string): Promise<ProjectRecord | undefined> => {
+  const db = await openDb();
+  return promisify(db.transaction(PROJECTS).objectStore(PROJECTS).get(id));
+};
+
+export const getProjectAudio = async (id: string): Promise<Blob | undefined> => {
+  const db = await openDb();
+  return promisify(db.transaction(AUDIO).objectStore(AUDIO).get(id));
+};
+
+export const saveProject = async (project: ProjectRecord, audio?: Blob): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, AUDIO], 'readwrite');
+  tx.objectStore(PROJECTS).put(project);
+  if (audio) tx.objectStore(AUDIO).put(audio, project.id);
+  await transactionDone(tx);
+};
+
+// Read-modify-write inside one transaction so concurrent edits (autosave vs. rename) don't clobber each other
+export const updateProject = async (id: string, changes: Partial<Omit<ProjectRecord, 'id' | 'createdAt'>>): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(PROJECTS, 'readwrite');
+  const store = tx.objectStore(PROJECTS);
+  const project = await promisify(store.get(id)) as ProjectRecord | undefined;
+  if (project) store.put({ ...project, ...changes, updatedAt: Date.now() });
+  await transactionDone(tx);
+};
+
+export const renameProject = (id: string, name: string): Promise<void> => updateProject(id, { name });
+
+export const duplicateProject = async (id: string): Promise<ProjectRecord | undefined> => {
+  const [project, audio] = await Promise.all([getProject(id), getProjectAudio(id)]);
+  if (!project) return undefined;
+  const now = Date.now();
+  const copy: ProjectRecord = {
+    ...project,
+    id: crypto.randomUUID(),
+    name: `${project.name} (copy)`,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await saveProject(copy, audio);
+  return copy;
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, AUDIO], 'readwrite');
+  tx.objectStore(PROJECTS).delete(id);
+  tx.objectStore(AUDIO).delete(id);
+  await transactionDone(tx);
+  if (getLastProjectId() === id) setLastProjectId(null);
+};
+
+export const getLastProjectId = (): string | null => localStorage.getItem(LAST_PROJECT_KEY);
+
+export const setLastProjectId = (id: string | null) => {
+  if (id) localStorage.setItem(LAST_PROJECT_KEY, id);
+  else localStorage.removeItem(LAST_PROJECT_KEY);
+};
@@ -0,0 +1,52 @@
+import { Setlist, SetlistAdvance, SetlistEntry } from '../types';
+import { isObject } from './guards';
+
+// The show's running order. Songs are saved projects referenced by id, so the
+// setlist itself is tiny and lives in localStorage next to the other settings.
+
+export const SETLIST_ADVANCE_OPTIONS: { value: SetlistAdvance; label: string }[] = [
+  { value: 'manual', label: 'Stop at end' },
+  { value: 'load', label: 'Cue next song' },
+  { value: 'play', label: 'Play next song' },
+];
+
+export const createSetlist = (name = 'Untitled Show'): Setlist => ({ name, entries: [], advance: 'manual' });
+
+export const createSetlistEntry = (projectId: string): SetlistEntry => ({ id: crypto.randomUUID(), projectId });
+
+const SETLIST_STORAGE_KEY = 'audiocue:setlist';
+
+export const loadSetlist = (): Setlist => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(SETLIST_STORAGE_KEY) ?? 'null');
+    if (!isObject(stored) || !Array.isArray(stored.entries)) return createSetlist();
+    return {
+      name: typeof stored.name === 'string' ? stored.name : 'Untitled Show',
+      entries: stored.entries.filter((e: unknown): e is SetlistEntry => isObject(e) && typeof e.id === 'string' && typeof e.projectId === 'string'),
+      advance: SETLIST_ADVANCE_OPTIONS.find(o => o.value === stored.advance)?.value ?? 'manual',
+    };
+  } catch {
+    return createSetlist();
+  }
+};
+
+export const saveSetlist = (setlist: Setlist) => {
+  localStorage.setItem(SETLIST_STORAGE_KEY, JSON.stringify(setlist));
+};
+
+// Position of the open project in the running order (-1 if it isn't part of the show)
+export const findSetlistIndex = (setlist: Setlist, projectId: string | null): number =>
+  projectId ? setlist.entries.findIndex(e => e.projectId === projectId) : -1;
+
+export const moveSetlistEntry = (setlist: Setlist, from: number, to: number): Setlist => {
+  if (to < 0 || to >= setlist.entries.length || from === to) return setlist;
+  const entries = [...setlist.entries];
+  const [entry] = entries.splice(from, 1);
+  entries.splice(to, 0, entry);
+  return { ...setlist, entries };
+};
+
+export const removeSetlistEntries = (setlist: Setlist, projectId: string): Setlist => ({
+  ...setlist,
+  entries: setlist.entries.filter(e => e.projectId !== projectId),
+});
@@ -0,0 +1,26 @@
+import { isObject } from './guards';
+
+// App settings that live in localStorage (not per project) as JSON objects.
+
+/**
+ * Stored settings merged over `defaults`. A stored field is only taken when it
+ * has the same type as the default, so settings added later and damaged
+ * entries fall back to their defaults.
+ */
+export const loadStoredSettings = <T extends object>(key: string, defaults: T): T => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(key) ?? 'null');
+    if (!isObject(stored)) return defaults;
+    const settings = { ...defaults };
+    for (const field of Object.keys(defaults) as (keyof T & string)[]) {
+      if (typeof stored[field] === typeof defaults[field]) settings[field] = stored[field] as T[keyof T & string];
+    }
+    return settings;
+  } catch {
+    return defaults;
+  }
+};
+
+export const saveStoredSettings = <T extends object>(key: string, settings: T) => {
+  localStorage.setItem(key, JSON.stringify(settings));
+};
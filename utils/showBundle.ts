@@ -0,0 +1,108 @@
+import { ProjectState, Setlist, SetlistAdvance } from '../types';
+import { parseCues } from './cueUtils';
+import { isObject } from './guards';
+import { ensureLanes, parseLanes } from './lanes';
+import { parseTempoMap } from './tempo';
+import { parseTimecodeSettings } from './timecode';
+import { SETLIST_ADVANCE_OPTIONS } from './setlist';
+
+// Whole-show export: one file with the running order, every song's cue sheet and
+// its original audio. Layout:
+//
+//   "ACSHOW01"            8-byte magic + format version
+//   uint32 (LE)           manifest length in bytes
+//   manifest              UTF-8 JSON (ShowManifest)
+//   audio…                the songs' audio files back to back
+//
+// Audio stays binary (no base64), so a 20-song show is roughly the size of its
+// audio and can be written and read with Blob slices instead of one huge string.
+
+const MAGIC = 'ACSHOW01';
+const HEADER_BYTES = MAGIC.length + 4;
+
+export const SHOW_FILE_EXTENSION = '.acshow';
+
+export interface ShowSong extends ProjectState {
+  name: string;
+}
+
+export interface ShowBundleEntry {
+  song: ShowSong;
+  audio: Blob;
+}
+
+export interface ShowBundle {
+  name: string;
+  advance: SetlistAdvance;
+  entries: ShowBundleEntry[];
+}
+
+interface ShowManifest {
+  name: string;
+  advance: SetlistAdvance;
+  exportDate: string;
+  entries: (ShowSong & { audio: { offset: number; size: number; type: string } })[];
+}
+
+export const writeShowBundle = (setlist: Setlist, entries: ShowBundleEntry[]): Blob => {
+  let offset = 0;
+  const manifest: ShowManifest = {
+    name: setlist.name,
+    advance: setlist.advance,
+    exportDate: new Date().toISOString(),
+    entries: entries.map(({ song, audio }) => {
+      const entry = { ...song, audio: { offset, size: audio.size, type: audio.type } };
+      offset += audio.size;
+      return entry;
+    }),
+  };
+
+  const json = new TextEncoder().encode(JSON.stringify(manifest));
+  const header = new Uint8Array(HEADER_BYTES);
+  header.set(new TextEncoder().encode(MAGIC));
+  new DataView(header.buffer).setUint32(MAGIC.length, json.length, true);
+
+  return new Blob([header, json, ...entries.map(e => e.audio)], { type: 'application/octet-stream' });
+};
+
+export const readShowBundle = async (file: Blob): Promise<ShowBundle> => {
+  const header = new Uint8Array(await file.slice(0, HEADER_BYTES).arrayBuffer());
+  if (header.length < HEADER_BYTES || new TextDecoder().decode(header.subarray(0, MAGIC.length)) !== MAGIC) {
+    throw new Error('Not an AudioCue show file');
+  }
+  const manifestLength = new DataView(header.buffer).getUint32(MAGIC.length, true);
+  const dataStart = HEADER_BYTES + manifestLength;
+  if (dataStart > file.size) throw new Error('Show file is truncated');
+
+  const manifest: unknown = JSON.parse(await file.slice(HEADER_BYTES, dataStart).text());
+  if (!isObject(manifest) || !Array.isArray(manifest.entries)) throw new Error('Show file has no songs');
+
+  const entries = manifest.entries.map((value: unknown, i: number): ShowBundleEntry => {
+    const raw = isObject(value) ? value : {};
+    const audio = isObject(raw.audio) ? raw.audio : {};
+    const offset = Number(audio.offset);
+    const size = Number(audio.size);
+    if (!(offset >= 0) || !(size > 0) || dataStart + offset + size > file.size) {
+      throw new Error(`Audio for song ${i + 1} is missing or truncated`);
+    }
+    const cues = Array.isArray(raw.cues) ? parseCues(raw.cues) : [];
+    return {
+      song: {
+        name: typeof raw.name === 'string' && raw.name ? raw.name : `Song ${i + 1}`,
+        fileName: typeof raw.fileName === 'string' ? raw.fileName : null,
+        duration: Number(raw.duration) || 0,
+        cues,
+        lanes: ensureLanes(parseLanes(raw.lanes), cues),
+        tempoMap: parseTempoMap(raw.tempoMap),
+        timecode: parseTimecodeSettings(raw.timecode),
+      },
+      audio: file.slice(dataStart + offset, dataStart + offset + size, String(audio.type || '')),
+    };
+  });
+
+  return {
+    name: typeof manifest.name === 'string' && manifest.name ? manifest.name : 'Imported Show',
+    advance: SETLIST_ADVANCE_OPTIONS.find(o => o.value === manifest.advance)?.value ?? 'manual',
+    entries,
+  };
+};
@@ -0,0 +1,172 @@
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { Cue, CueAction, HttpCueAction, OscCueAction } from '../types';
+import { ActionTransports, ShowControlEngine, createBrowserTransports } from './showControl';
+
+// Pre-wait timers run only when the test says so
+const createManualTimers = () => {
+  let next = 0;
+  const timers = new Map<number, () => void>();
+  return {
+    setTimer: (callback: () => void) => {
+      timers.set(++next, callback);
+      return next;
+    },
+    clearTimer: (handle: unknown) => {
+      timers.delete(handle as number);
+    },
+    runAll: () => {
+      const due = [...timers.values()];
+      timers.clear();
+      due.forEach(callback => callback());
+    },
+    get size() {
+      return timers.size;
+    },
+  };
+};
+
+// Transports that record what would have gone out
+const createRecordingTransports = () => {
+  const sent: { cue: string; action: CueAction }[] = [];
+  const record = async (action: CueAction, cue: Cue) => {
+    sent.push({ cue: cue.label, action });
+  };
+  const transports: ActionTransports = { http: record, websocket: record, osc: record, event: record };
+  return { sent, transports };
+};
+
+const oscAction = (preWait = 0): OscCueAction => ({
+  id: crypto.randomUUID(),
+  type: 'osc',
+  preWait,
+  enabled: true,
+  target: 'ws://localhost:8081',
+  address: '/cue/go',
+  args: [{ type: 'i', value: 1 }],
+});
+
+const cue = (time: number, label: string, actions: CueAction[]): Cue => ({
+  id: crypto.randomUUID(),
+  time,
+  label,
+  color: '#fff',
+  row: 0,
+  actions,
+});
+
+// Let resolved transport promises update the log
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('ShowControlEngine', () => {
+  it('fires each crossed cue once while armed', async () => {
+    const { sent, transports } = createRecordingTransports();
+    const engine = new ShowControlEngine({ transports, ...createManualTimers() });
+    engine.setCues([cue(2, 'B', [oscAction()]), cue(1, 'A', [oscAction()])]);
+
+    engine.advance(0.5, null);
+    engine.advance(1.5, null);
+    expect(sent).toEqual([]); // Not armed yet
+
+    engine.seek(0);
+    engine.setArmed(true);
+    engine.advance(1.5, null);
+    engine.advance(2.5, null);
+    engine.advance(3, null);
+    await settle();
+    expect(sent.map(s => s.cue)).toEqual(['A', 'B']);
+    expect(engine.getLog().map(e => e.status)).toEqual(['ok', 'ok']);
+  });
+
+  it('fires a cue at the start when playing from the top without a seek', () => {
+    const { sent, transports } = createRecordingTransports();
+    const engine = new ShowControlEngine({ transports, ...createManualTimers() });
+    engine.setCues([cue(0, 'Opening', [oscAction()]), cue(1, 'A', [oscAction()])]);
+    engine.setArmed(true);
+
+    // The first animation frame already lands past 0:00
+    engine.advance(0.016, null);
+    engine.advance(1.5, null);
+    engine.stop();
+    engine.advance(0.016, null);
+    expect(sent.map(s => s.cue)).toEqual(['Opening', 'A', 'Opening']);
+  });
+
+  it('fires again on every pass through a loop', () => {
+    const { sent, transports } = createRecordingTransports();
+    const engine = new ShowControlEngine({ transports, ...createManualTimers() });
+    engine.setCues([cue(1, 'A', [oscAction()])]);
+    engine.setArmed(true);
+    engine.seek(0);
+
+    const loop = { start: 0.5, end: 2 };
+    engine.advance(1.8, loop);
+    engine.advance(0.7, loop); // Wrapped
+    engine.advance(1.2, loop);
+    expect(sent.map(s => s.cue)).toEqual(['A', 'A']);
+  });
+
+  it('cancels actions waiting on a pre-wait when paused', () => {
+    const { sent, transports } = createRecordingTransports();
+    const timers = createManualTimers();
+    const engine = new ShowControlEngine({ transports, ...timers });
+    engine.setCues([cue(1, 'A', [oscAction(2)])]);
+    engine.setArmed(true);
+    engine.seek(0);
+    engine.advance(1.1, null);
+    expect(timers.size).toBe(1);
+
+    engine.pause();
+    timers.runAll();
+    expect(sent).toEqual([]);
+    expect(engine.getLog()[0]).toMatchObject({ status: 'cancelled', detail: 'Paused' });
+  });
+
+  describe('browser transports against a mock endpoint', () => {
+    const requests: { method?: string; url?: string; body: string }[] = [];
+    let server: http.Server;
+    let url: string;
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => { body += chunk; });
+        req.on('end', () => {
+          requests.push({ method: req.method, url: req.url, body });
+          res.writeHead(req.url === '/fail' ? 500 : 200).end();
+        });
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+    const httpAction = (path: string): HttpCueAction => ({
+      id: crypto.randomUUID(),
+      type: 'http',
+      preWait: 0,
+      enabled: true,
+      method: 'POST',
+      url: `${url}${path}`,
+      headers: { 'Content-Type': 'application/json' },
+      body: '{"go":true}',
+    });
+
+    it('posts the action and logs the response status', async () => {
+      const engine = new ShowControlEngine({ transports: createBrowserTransports(), ...createManualTimers() });
+      const go = cue(1, 'Lights', [httpAction('/cue'), httpAction('/fail')]);
+      engine.setCues([go]);
+      engine.setArmed(true);
+      engine.seek(0);
+      engine.advance(1.5, null);
+
+      await expect.poll(() => engine.getLog().every(e => e.status !== 'sent')).toBe(true);
+      expect(requests).toContainEqual({ method: 'POST', url: '/cue', body: '{"go":true}' });
+      expect(engine.getLog().map(e => e.status)).toEqual(['ok', 'error']);
+      expect(engine.getLog()[1].detail).toMatch(/^500/);
+      engine.dispose();
+    });
+  });
+});
@@ -0,0 +1,318 @@
+import {
+  Cue,
+  CueAction,
+  CueActionType,
+  LoopRegion,
+  HttpCueAction,
+  WebSocketCueAction,
+  OscCueAction,
+  EventCueAction,
+} from '../types';
+import { sortCuesByTime } from './cueUtils';
+import { describeCueAction } from './cueActions';
+import { encodeOscMessage } from './osc';
+
+// Show control: fires cue actions as playback crosses cues. The engine only knows
+// about media time and injected transports, so it can be driven without audio and
+// pointed at mock endpoints (or mock transports) when testing.
+
+export type ActionTransport<A extends CueAction> = (action: A, cue: Cue) => Promise<string | void>;
+
+export interface ActionTransports {
+  http: ActionTransport<HttpCueAction>;
+  websocket: ActionTransport<WebSocketCueAction>;
+  osc: ActionTransport<OscCueAction>;
+  event: ActionTransport<EventCueAction>;
+  dispose?: () => void;
+}
+
+export type ActionLogStatus = 'waiting' | 'sent' | 'ok' | 'error' | 'cancelled';
+
+export interface ActionLogEntry {
+  id: string;
+  at: number; // Wall-clock ms of the last status change
+  cueId: string;
+  cueLabel: string;
+  cueTime: number;
+  actionId: string;
+  actionType: CueActionType;
+  summary: string;
+  status: ActionLogStatus;
+  detail?: string;
+}
+
+export const CUE_EVENT_NAME = 'audiocue:cue';
+
+const SOCKET_OPEN_TIMEOUT = 3000;
+
+// Keeps one WebSocket per URL open between cues so each trigger doesn't pay for a handshake
+class SocketPool {
+  private sockets = new Map<string, Promise<WebSocket>>();
+
+  get(url: string): Promise<WebSocket> {
+    const existing = this.sockets.get(url);
+    if (existing) return existing;
+
+    const opening = new Promise<WebSocket>((resolve, reject) => {
+      const socket = new WebSocket(url);
+      socket.binaryType = 'arraybuffer';
+      const timer = window.setTimeout(() => {
+        socket.close();
+        reject(new Error(`Timed out connecting to ${url}`));
+      }, SOCKET_OPEN_TIMEOUT);
+      socket.onopen = () => {
+        window.clearTimeout(timer);
+        resolve(socket);
+      };
+      socket.onerror = () => {
+        window.clearTimeout(timer);
+        reject(new Error(`Could not connect to ${url}`));
+      };
+      socket.onclose = () => this.sockets.delete(url);
+    });
+    opening.catch(() => this.sockets.delete(url));
+    this.sockets.set(url, opening);
+    return opening;
+  }
+
+  dispose() {
+    for (const opening of this.sockets.values()) opening.then(s => s.close(), () => {});
+    this.sockets.clear();
+  }
+}
+
+// Real network transports for the browser
+export const createBrowserTransports = (): ActionTransports => {
+  const pool = new SocketPool();
+  return {
+    http: async (action) => {
+      const response = await fetch(action.url, {
+        method: action.method,
+        headers: action.headers,
+        body: action.method === 'GET' ? undefined : action.body,
+      });
+      if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+      return `${response.status} ${response.statusText}`.trim();
+    },
+    websocket: async (action) => {
+      (await pool.get(action.url)).send(action.message);
+    },
+    osc: async (action) => {
+      const packet = encodeOscMessage(action.address, action.args);
+      (await pool.get(action.target)).send(packet);
+    },
+    event: async (action, cue) => {
+      let payload: unknown;
+      try {
+        payload = action.payload.trim() ? JSON.parse(action.payload) : null;
+      } catch {
+        throw new Error('Payload is not valid JSON');
+      }
+      window.dispatchEvent(new CustomEvent(CUE_EVENT_NAME, {
+        detail: { name: action.name, payload, cueId: cue.id, cueLabel: cue.label, cueTime: cue.time },
+      }));
+    },
+    dispose: () => pool.dispose(),
+  };
+};
+
+export interface ShowControlOptions {
+  transports?: ActionTransports;
+  setTimer?: (callback: () => void, ms: number) => unknown;
+  clearTimer?: (handle: unknown) => void;
+  now?: () => number;
+  maxLogEntries?: number;
+}
+
+// Cues sitting exactly on a seek target still fire once playback moves on from it
+const EPSILON = 1e-6;
+
+export class ShowControlEngine {
+  private cues: Cue[] = [];
+  private cursor = -EPSILON; // Media time up to which crossings have been handled
+  private armed = false;
+  private pending = new Map<string, unknown>(); // log entry id -> pre-wait timer
+  private log: ActionLogEntry[] = [];
+  private listeners = new Set<() => void>();
+  private goListeners = new Set<(cue: Cue, index: number) => void>();
+  private transports: ActionTransports;
+  private setTimer: (callback: () => void, ms: number) => unknown;
+  private clearTimer: (handle: unknown) => void;
+  private now: () => number;
+  private maxLogEntries: number;
+
+  constructor(options: ShowControlOptions = {}) {
+    this.transports = options.transports ?? createBrowserTransports();
+    this.setTimer = options.setTimer ?? ((callback, ms) => window.setTimeout(callback, ms));
+    this.clearTimer = options.clearTimer ?? (handle => window.clearTimeout(handle as number));
+    this.now = options.now ?? Date.now;
+    this.maxLogEntries = options.maxLogEntries ?? 500;
+  }
+
+  setCues(cues: Cue[]) {
+    this.cues = sortCuesByTime(cues);
+  }
+
+  isArmed() {
+    return this.armed;
+  }
+
+  setArmed(armed: boolean) {
+    if (armed === this.armed) return;
+    this.armed = armed;
+    if (!armed) this.cancelPending('Disarmed');
+    this.notify();
+  }
+
+  // Jump without firing anything (seek, pre-roll, restart)
+  seek(time: number) {
+    this.cancelPending('Seek');
+    this.cursor = time - EPSILON;
+  }
+
+  // Actions still in their pre-wait don't go out while the show is paused
+  pause() {
+    this.cancelPending('Paused');
+  }
+
+  // Back to the top of the show, so a cue at 0:00 fires when playback starts again
+  stop() {
+    this.cancelPending('Stopped');
+    this.cursor = -EPSILON;
+  }
+
+  /**
+   * Playback has moved on to `time`. Every cue crossed since the last call fires
+   * once. Moving backwards inside the active loop is a wrap: the tail of the pass
+   * (up to loop.end) and the head of the next one (from loop.start) both count.
+   */
+  advance(time: number, loop: LoopRegion | null) {
+    const cursor = this.cursor;
+    if (time >= cursor) {
+      this.cross(cursor, time);
+    } else if (loop && time >= loop.start - EPSILON && cursor <= loop.end + EPSILON) {
+      this.cross(cursor, loop.end);
+      this.cross(loop.start - EPSILON, time);
+    }
+    // Any other backwards jump is an unannounced seek: just follow it
+    this.cursor = time;
+  }
+
+  // Fire a cue's actions immediately, armed or not (e.g. a "test" button)
+  fireCue(cue: Cue) {
+    for (const action of cue.actions ?? []) {
+      if (action.enabled) this.schedule(cue, action);
+    }
+  }
+
+  fireAction(cue: Cue, action: CueAction) {
+    this.schedule(cue, action);
+  }
+
+  getLog(): ActionLogEntry[] {
+    return this.log;
+  }
+
+  clearLog() {
+    this.log = this.log.filter(e => e.status === 'waiting' || e.status === 'sent');
+    this.notify();
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  // Called for every cue crossed while armed, with or without actions. `index` is
+  // the cue's 1-based position in the show.
+  onGo(listener: (cue: Cue, index: number) => void): () => void {
+    this.goListeners.add(listener);
+    return () => this.goListeners.delete(listener);
+  }
+
+  dispose() {
+    this.cancelPending('Stopped');
+    this.transports.dispose?.();
+    this.listeners.clear();
+    this.goListeners.clear();
+  }
+
+  private cross(from: number, to: number) {
+    if (!this.armed) return;
+    this.cues.forEach((cue, i) => {
+      if (cue.time <= from || cue.time > to) return;
+      for (const listener of this.goListeners) listener(cue, i + 1);
+      this.fireCue(cue);
+    });
+  }
+
+  private schedule(cue: Cue, action: CueAction) {
+    const entry: ActionLogEntry = {
+      id: crypto.randomUUID(),
+      at: this.now(),
+      cueId: cue.id,
+      cueLabel: cue.label,
+      cueTime: cue.time,
+      actionId: action.id,
+      actionType: action.type,
+      summary: describeCueAction(action),
+      status: 'waiting',
+      detail: action.preWait > 0 ? `pre-wait ${action.preWait}s` : undefined,
+    };
+    this.append(entry);
+
+    if (action.preWait > 0) {
+      const timer = this.setTimer(() => {
+        this.pending.delete(entry.id);
+        this.execute(entry.id, cue, action);
+      }, action.preWait * 1000);
+      this.pending.set(entry.id, timer);
+    } else {
+      this.execute(entry.id, cue, action);
+    }
+  }
+
+  private async execute(entryId: string, cue: Cue, action: CueAction) {
+    this.update(entryId, 'sent');
+    try {
+      const detail = await this.send(cue, action);
+      this.update(entryId, 'ok', detail || undefined);
+    } catch (err) {
+      this.update(entryId, 'error', err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  private send(cue: Cue, action: CueAction): Promise<string | void> {
+    switch (action.type) {
+      case 'http': return this.transports.http(action, cue);
+      case 'websocket': return this.transports.websocket(action, cue);
+      case 'osc': return this.transports.osc(action, cue);
+      case 'event': return this.transports.event(action, cue);
+    }
+  }
+
+  private cancelPending(reason: string) {
+    if (this.pending.size === 0) return;
+    for (const [entryId, timer] of this.pending) {
+      this.clearTimer(timer);
+      this.update(entryId, 'cancelled', reason, false);
+    }
+    this.pending.clear();
+    this.notify();
+  }
+
+  private append(entry: ActionLogEntry) {
+    const log = [...this.log, entry];
+    this.log = log.length > this.maxLogEntries ? log.slice(log.length - this.maxLogEntries) : log;
+    this.notify();
+  }
+
+  private update(entryId: string, status: ActionLogStatus, detail?: string, notify = true) {
+    this.log = this.log.map(e => e.id === entryId ? { ...e, status, detail, at: this.now() } : e);
+    if (notify) this.notify();
+  }
+
+  private notify() {
+    for (const listener of this.listeners) listener();
+  }
+}
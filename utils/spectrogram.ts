@@ -0,0 +1,129 @@
+import { SpectrogramColorMap, FrequencyScale } from '../types';
+import { fft, hannWindow } from './fft';
+
+// Spectrogram tiles: each tile is TILE_COLUMNS STFT frames spaced `hop` samples
+// apart, rendered to TILE_ROWS rows of RGBA pixels. Hops are powers of two so
+// every zoom level maps onto a fixed set of tile grids that can be cached.
+
+export const FFT_SIZE = 2048;
+export const TILE_COLUMNS = 256;
+export const TILE_ROWS = 256;
+export const MIN_HOP = 64;
+export const MAX_HOP = 16384;
+
+const BINS = FFT_SIZE / 2;
+const DB_RANGE = 100; // dBFS mapped to the bottom of the colour map
+const MIN_LOG_FREQ = 20;
+
+export type SpectrogramRequest =
+  | { type: 'load'; mix: Float32Array; sampleRate: number }
+  | { type: 'tile'; key: string; hop: number; index: number; colorMap: SpectrogramColorMap; scale: FrequencyScale };
+
+export interface SpectrogramTileResponse {
+  type: 'tile';
+  key: string;
+  pixels: Uint8ClampedArray;
+}
+
+export const tileKey = (hop: number, index: number) => `${hop}:${index}`;
+
+// Largest power-of-two hop that still gives at least one frame per pixel
+export const pickHop = (samplesPerPixel: number): number => {
+  let hop = MIN_HOP;
+  while (hop * 2 <= samplesPerPixel && hop < MAX_HOP) hop *= 2;
+  return hop;
+};
+
+export const tileDuration = (hop: number, sampleRate: number) => (TILE_COLUMNS * hop) / sampleRate;
+
+/**
+ * Magnitudes for one tile, quantized to 0-255 over DB_RANGE and laid out
+ * column-major (column * BINS + bin).
+ */
+export const computeTileMagnitudes = (mix: Float32Array, hop: number, index: number): Uint8Array => {
+  const out = new Uint8Array(TILE_COLUMNS * BINS);
+  const window = hannWindow(FFT_SIZE);
+  const re = new Float64Array(FFT_SIZE);
+  const im = new Float64Array(FFT_SIZE);
+  const scale = 4 / FFT_SIZE; // full-scale sine -> 0 dB with a Hann window
+
+  for (let col = 0; col < TILE_COLUMNS; col++) {
+    const center = (index * TILE_COLUMNS + col) * hop;
+    const start = center - FFT_SIZE / 2;
+    if (start >= mix.length) break;
+
+    for (let i = 0; i < FFT_SIZE; i++) {
+      const idx = start + i;
+      re[i] = idx >= 0 && idx < mix.length ? mix[idx] * window[i] : 0;
+      im[i] = 0;
+    }
+    fft(re, im);
+
+    for (let bin = 0; bin < BINS; bin++) {
+      const mag = Math.sqrt(re[bin] * re[bin] + im[bin] * im[bin]) * scale;
+      const db = mag > 0 ? 20 * Math.log10(mag) : -DB_RANGE;
+      out[col * BINS + bin] = Math.max(0, Math.min(255, Math.round(((db + DB_RANGE) / DB_RANGE) * 255)));
+    }
+  }
+  return out;
+};
+
+const hzToMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+const melToHz = (mel: number) => 700 * (Math.pow(10, mel / 2595) - 1);
+
+// FFT bin shown on each output row, top row = highest frequency
+export const buildRowBinMap = (scale: FrequencyScale, sampleRate: number): Uint16Array => {
+  const nyquist = sampleRate / 2;
+  const map = new Uint16Array(TILE_ROWS);
+  for (let row = 0; row < TILE_ROWS; row++) {
+    const frac = 1 - (row + 0.5) / TILE_ROWS;
+    let hz: number;
+    if (scale === 'log') {
+      hz = MIN_LOG_FREQ * Math.pow(nyquist / MIN_LOG_FREQ, frac);
+    } else if (scale === 'mel') {
+      hz = melToHz(frac * hzToMel(nyquist));
+    } else {
+      hz = frac * nyquist;
+    }
+    map[row] = Math.min(BINS - 1, Math.round((hz / nyquist) * BINS));
+  }
+  return map;
+};
+
+const COLOR_STOPS: Record<SpectrogramColorMap, string[]> = {
+  viridis: ['#440154', '#482878', '#3e4989', '#31688e', '#26828e', '#1f9e89', '#35b779', '#6ece58', '#b5de2b', '#fde725'],
+  magma: ['#000004', '#1c1044', '#4f127b', '#812581', '#b5367a', '#e55064', '#fb8761', '#fec287', '#fcfdbf'],
+  gray: ['#000000', '#ffffff'],
+};
+
+// 256-entry RGB lookup table interpolated from the colour map's stops
+export const buildColorLut = (colorMap: SpectrogramColorMap): Uint8Array => {
+  const stops = COLOR_STOPS[colorMap].map(hex => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16)));
+  const lut = new Uint8Array(256 * 3);
+  for (let v = 0; v < 256; v++) {
+    const pos = (v / 255) * (stops.length - 1);
+    const lo = Math.floor(pos);
+    const hi = Math.min(stops.length - 1, lo + 1);
+    const t = pos - lo;
+    for (let c = 0; c < 3; c++) {
+      lut[v * 3 + c] = Math.round(stops[lo][c] + (stops[hi][c] - stops[lo][c]) * t);
+    }
+  }
+  return lut;
+};
+
+export const renderTilePixels = (magnitudes: Uint8Array, rowBins: Uint16Array, lut: Uint8Array): Uint8ClampedArray => {
+  const pixels = new Uint8ClampedArray(TILE_COLUMNS * TILE_ROWS * 4);
+  for (let row = 0; row < TILE_ROWS; row++) {
+    const bin = rowBins[row];
+    for (let col = 0; col < TILE_COLUMNS; col++) {
+      const v = magnitudes[col * BINS + bin];
+      const p = (row * TILE_COLUMNS + col) * 4;
+      pixels[p] = lut[v * 3];
+      pixels[p + 1] = lut[v * 3 + 1];
+      pixels[p + 2] = lut[v * 3 + 2];
+      pixels[p + 3] = 255;
+    }
+  }
+  return pixels;
+};
@@ -0,0 +1,53 @@
+import { Cue, Lane, LoopRegion, TimeFormatOptions } from '../types';
+import { resolveLoopPosition } from './playback';
+
+// Read-only stage display in a second window/tab. The editor window publishes the
+// show and transport on a BroadcastChannel; the stage view extrapolates the
+// playhead between transport messages so its countdowns run smoothly.
+
+export const STAGE_CHANNEL = 'audiocue:stage';
+export const STAGE_VIEW_PARAM = 'stage'; // ?view=stage
+
+// The editor re-sends the transport this often, so a stage view can tell it is still there
+export const STAGE_HEARTBEAT_MS = 1000;
+export const STAGE_TIMEOUT_MS = 3000;
+// While playing, the stage view extrapolates between transport messages, so they go out at most this often
+export const STAGE_TRANSPORT_INTERVAL_MS = 100;
+
+export interface StageShow {
+  name: string | null;
+  duration: number;
+  cues: Cue[];
+  lanes: Lane[];
+  timeFormat: TimeFormatOptions;
+}
+
+export interface StageTransport {
+  playing: boolean;
+  time: number; // Media time when the message was sent
+  rate: number;
+  loop: LoopRegion | null;
+  sentAt: number; // Date.now() in the sending window (performance.now() isn't shared between windows)
+}
+
+export type StageMessage =
+  | { type: 'show'; show: StageShow }
+  | { type: 'transport'; transport: StageTransport }
+  | { type: 'hello' } // Stage view asking for a full snapshot
+  | { type: 'bye' }; // Editor window closing
+
+export const isStageView = () => new URLSearchParams(window.location.search).get('view') === STAGE_VIEW_PARAM;
+
+export const getStageViewUrl = () => {
+  const url = new URL(window.location.href);
+  url.search = `?view=${STAGE_VIEW_PARAM}`;
+  url.hash = '';
+  return url.toString();
+};
+
+// Playhead at `now` (Date.now()), following the same loop wrap as the editor's source
+export const getStageTime = (transport: StageTransport, now: number, duration: number): number => {
+  if (!transport.playing) return transport.time;
+  const linear = transport.time + (Math.max(0, now - transport.sentAt) / 1000) * transport.rate;
+  return Math.min(duration, resolveLoopPosition(linear, transport.loop).time);
+};
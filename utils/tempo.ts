@@ -0,0 +1,172 @@
+import { TempoMap, SnapMode } from '../types';
+import { isObject } from './guards';
+
+export const TICKS_PER_BEAT = 960;
+
+export const DEFAULT_TEMPO_MAP: TempoMap = {
+  bpm: 120,
+  beatsPerBar: 4,
+  beatUnit: 4,
+  offset: 0,
+  changes: [],
+};
+
+// Beat subdivisions per snap mode (bar is handled separately)
+const SNAP_DIVISIONS: Partial<Record<SnapMode, number>> = {
+  beat: 1,
+  half: 2,
+  triplet: 3,
+  quarter: 4,
+};
+
+interface TempoSegment {
+  startBar: number;
+  startTime: number;
+  bpm: number;
+  beatsPerBar: number;
+  beatUnit: number;
+}
+
+export interface GridLine {
+  time: number;
+  bar: number;
+  beat: number; // 1-based
+  isBar: boolean;
+}
+
+const beatLength = (seg: TempoSegment) => 60 / seg.bpm;
+const barLength = (seg: TempoSegment) => beatLength(seg) * seg.beatsPerBar;
+
+// Tempo regions in time order, each starting on a bar line
+export const buildTempoSegments = (map: TempoMap): TempoSegment[] => {
+  const segments: TempoSegment[] = [{
+    startBar: 1,
+    startTime: map.offset,
+    bpm: map.bpm,
+    beatsPerBar: map.beatsPerBar,
+    beatUnit: map.beatUnit,
+  }];
+  const changes = [...map.changes].filter(c => c.bar > 1).sort((a, b) => a.bar - b.bar);
+  for (const change of changes) {
+    const prev = segments[segments.length - 1];
+    if (change.bar <= prev.startBar) continue;
+    segments.push({
+      startBar: change.bar,
+      startTime: prev.startTime + (change.bar - prev.startBar) * barLength(prev),
+      bpm: change.bpm,
+      beatsPerBar: change.beatsPerBar,
+      beatUnit: change.beatUnit,
+    });
+  }
+  return segments;
+};
+
+const findSegmentIndex = (segments: TempoSegment[], time: number) => {
+  let idx = 0;
+  for (let i = 1; i < segments.length; i++) {
+    if (segments[i].startTime <= time) idx = i;
+  }
+  return idx;
+};
+
+export const timeToMusical = (time: number, map: TempoMap) => {
+  const segments = buildTempoSegments(map);
+  const seg = segments[findSegmentIndex(segments, time)];
+  const totalBeats = (time - seg.startTime) / beatLength(seg);
+  const wholeBeats = Math.floor(totalBeats);
+  const barOffset = Math.floor(wholeBeats / seg.beatsPerBar);
+  const bar = seg.startBar + barOffset;
+  const beat = wholeBeats - barOffset * seg.beatsPerBar + 1;
+  const tick = Math.min(TICKS_PER_BEAT - 1, Math.floor((totalBeats - wholeBeats) * TICKS_PER_BEAT));
+  // Bar 0 is skipped so the bar before the first downbeat reads as -1
+  return { bar: bar <= 0 ? bar - 1 : bar, beat, tick };
+};
+
+export const musicalToTime = (bar: number, beat: number, tick: number, map: TempoMap): number => {
+  const linearBar = bar < 0 ? bar + 1 : bar;
+  const segments = buildTempoSegments(map);
+  let seg = segments[0];
+  for (const candidate of segments) {
+    if (candidate.startBar <= linearBar) seg = candidate;
+  }
+  const beats = (linearBar - seg.startBar) * seg.beatsPerBar + (beat - 1) + tick / TICKS_PER_BEAT;
+  return seg.startTime + beats * beatLength(seg);
+};
+
+export const formatBarsBeats = (time: number, map: TempoMap): string => {
+  const { bar, beat, tick } = timeToMusical(time, map);
+  return `${bar}.${beat}.${tick.toString().padStart(3, '0')}`;
+};
+
+/**
+ * Bar and beat lines between startT and endT. `subdivision` splits each beat
+ * (1 = beats only); lines are skipped for the part of the range before time 0.
+ */
+export const getBeatGrid = (startT: number, endT: number, map: TempoMap, subdivision = 1): GridLine[] => {
+  const segments = buildTempoSegments(map);
+  const lines: GridLine[] = [];
+
+  segments.forEach((seg, i) => {
+    const segEnd = i + 1 < segments.length ? segments[i + 1].startTime : Infinity;
+    // The first segment also extends backwards before bar 1
+    const segStart = i === 0 ? -Infinity : seg.startTime;
+    const from = Math.max(startT, segStart, 0);
+    const to = Math.min(endT, segEnd);
+    if (from >= to) return;
+
+    const step = beatLength(seg) / subdivision;
+    let n = Math.ceil((from - seg.startTime) / step);
+    for (let time = seg.startTime + n * step; time < to; n++, time = seg.startTime + n * step) {
+      if (n % subdivision !== 0) {
+        lines.push({ time, bar: 0, beat: 0, isBar: false });
+        continue;
+      }
+      const beatIndex = n / subdivision;
+      const barOffset = Math.floor(beatIndex / seg.beatsPerBar);
+      const beat = beatIndex - barOffset * seg.beatsPerBar + 1;
+      const bar = seg.startBar + barOffset;
+      lines.push({ time, bar: bar <= 0 ? bar - 1 : bar, beat, isBar: beat === 1 });
+    }
+  });
+  return lines;
+};
+
+// Round `time` to the nearest grid position for the given snap mode
+export const snapTime = (time: number, mode: SnapMode, map: TempoMap | null): number => {
+  if (mode === 'off') return time;
+  if (mode === 'tenth' || !map) return Math.round(time * 10) / 10;
+
+  const segments = buildTempoSegments(map);
+  const idx = findSegmentIndex(segments, time);
+  const seg = segments[idx];
+  const step = mode === 'bar' ? barLength(seg) : beatLength(seg) / (SNAP_DIVISIONS[mode] ?? 1);
+  let snapped = seg.startTime + Math.round((time - seg.startTime) / step) * step;
+
+  // A tempo change is always a bar line, so it may be closer than the rounded position
+  const next = segments[idx + 1];
+  if (next && Math.abs(next.startTime - time) < Math.abs(snapped - time)) snapped = next.startTime;
+  return snapped;
+};
+
+// Coerce an untrusted tempo map (e.g. from an imported file), or null if unusable
+export const parseTempoMap = (raw: unknown): TempoMap | null => {
+  if (!isObject(raw) || !(Number(raw.bpm) > 0)) return null;
+  const positive = (v: unknown, fallback: number) => (Number(v) > 0 ? Number(v) : fallback);
+  return {
+    bpm: Number(raw.bpm),
+    beatsPerBar: Math.round(positive(raw.beatsPerBar, DEFAULT_TEMPO_MAP.beatsPerBar)),
+    beatUnit: Math.round(positive(raw.beatUnit, DEFAULT_TEMPO_MAP.beatUnit)),
+    offset: Math.max(0, Number(raw.offset) || 0),
+    changes: Array.isArray(raw.changes)
+      ? raw.changes
+          .filter(isObject)
+          .filter(c => Number(c.bar) > 1 && Number(c.bpm) > 0)
+          .map(c => ({
+            bar: Math.round(Number(c.bar)),
+            bpm: Number(c.bpm),
+            beatsPerBar: Math.round(positive(c.beatsPerBar, DEFAULT_TEMPO_MAP.beatsPerBar)),
+            beatUnit: Math.round(positive(c.beatUnit, DEFAULT_TEMPO_MAP.beatUnit)),
+          }))
+      : [],
+  };
+};
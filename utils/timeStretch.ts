@@ -0,0 +1,92 @@
+// WSOLA (waveform-similarity overlap-add) time stretching, used to slow down or
+// speed up playback without changing pitch. Frame alignment is searched on the
+// mono mix and applied to every channel so the stereo image stays intact.
+
+const FRAME_SIZE = 2048;
+const SYNTHESIS_HOP = FRAME_SIZE / 2;
+const SEARCH_RADIUS = 256;
+const SEARCH_STEP = 2;
+const CORRELATION_STEP = 8;
+
+export interface TimeStretchRequest {
+  channels: Float32Array[];
+  rate: number;
+}
+
+export interface TimeStretchResponse {
+  channels: Float32Array[];
+}
+
+const hann = (size: number) => {
+  const w = new Float32Array(size);
+  for (let i = 0; i < size; i++) w[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / size);
+  return w;
+};
+
+/**
+ * Stretch the given channels so they last `1 / rate` times as long.
+ * rate < 1 slows down, rate > 1 speeds up.
+ */
+export const stretchChannels = (channels: Float32Array[], rate: number): Float32Array[] => {
+  const inputLength = channels[0]?.length ?? 0;
+  const outputLength = Math.ceil(inputLength / rate);
+  if (inputLength === 0 || rate === 1) return channels.map(c => c.slice());
+
+  const window = hann(FRAME_SIZE);
+  const analysisHop = SYNTHESIS_HOP * rate;
+
+  const mix = new Float32Array(inputLength);
+  for (const channel of channels) {
+    for (let i = 0; i < inputLength; i++) mix[i] += channel[i];
+  }
+
+  const outputs = channels.map(() => new Float32Array(outputLength + FRAME_SIZE));
+  const norm = new Float32Array(outputLength + FRAME_SIZE);
+
+  let prevPos = 0;
+  for (let k = 0, outPos = 0; outPos < outputLength; k++, outPos += SYNTHESIS_HOP) {
+    const nominal = Math.round(k * analysisHop);
+    let pos = Math.min(nominal, Math.max(0, inputLength - 1));
+
+    // Pick the candidate that best continues the waveform of the previous frame
+    if (k > 0) {
+      const target = prevPos + SYNTHESIS_HOP;
+      let best = -Infinity;
+      for (let d = -SEARCH_RADIUS; d <= SEARCH_RADIUS; d += SEARCH_STEP) {
+        const candidate = nominal + d;
+        if (candidate < 0 || candidate + SYNTHESIS_HOP >= inputLength) continue;
+        let corr = 0;
+        for (let i = 0; i < SYNTHESIS_HOP && target + i < inputLength; i += CORRELATION_STEP) {
+          corr += mix[target + i] * mix[candidate + i];
+        }
+        if (corr > best) {
+          best = corr;
+          pos = candidate;
+        }
+      }
+    }
+
+    for (let c = 0; c < channels.length; c++) {
+      const input = channels[c];
+      const output = outputs[c];
+      for (let i = 0; i < FRAME_SIZE; i++) {
+        const idx = pos + i;
+        if (idx >= inputLength) break;
+        output[outPos + i] += input[idx] * window[i];
+      }
+    }
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      if (pos + i >= inputLength) break;
+      norm[outPos + i] += window[i];
+    }
+    prevPos = pos;
+  }
+
+  return outputs.map(output => {
+    const result = new Float32Array(outputLength);
+    for (let i = 0; i < outputLength; i++) {
+      result[i] = norm[i] > 1e-3 ? output[i] / norm[i] : 0;
+    }
+    return result;
+  });
+};
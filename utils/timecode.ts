@@ -0,0 +1,130 @@
+import { TimecodeFormat, TimecodeSettings } from '../types';
+import { isObject } from './guards';
+
+// Clock/timecode formatting and parsing. Times here are show time (media time plus
+// the project's start offset); callers add or remove the offset.
+
+export const TIMECODE_FORMATS: { value: TimecodeFormat; label: string }[] = [
+  { value: 'clock', label: 'mm:ss.cc' },
+  { value: 'seconds', label: 'Seconds' },
+  { value: 'samples', label: 'Samples' },
+  { value: 'smpte24', label: 'SMPTE 24' },
+  { value: 'smpte25', label: 'SMPTE 25' },
+  { value: 'smpte2997df', label: 'SMPTE 29.97 DF' },
+  { value: 'smpte30', label: 'SMPTE 30' },
+];
+
+export const DEFAULT_TIMECODE: TimecodeSettings = { format: 'clock', startOffset: 0 };
+
+export interface FrameRate {
+  fps: number; // Actual frames per second
+  nominal: number; // Frames counted per timecode second
+  dropFrame: boolean;
+}
+
+export const getFrameRate = (format: TimecodeFormat): FrameRate | null => {
+  switch (format) {
+    case 'smpte24': return { fps: 24, nominal: 24, dropFrame: false };
+    case 'smpte25': return { fps: 25, nominal: 25, dropFrame: false };
+    case 'smpte2997df': return { fps: 30000 / 1001, nominal: 30, dropFrame: true };
+    case 'smpte30': return { fps: 30, nominal: 30, dropFrame: false };
+    default: return null;
+  }
+};
+
+// 29.97 drop-frame skips labels :00 and :01 at the start of every minute except each tenth
+const FRAMES_PER_10_MINUTES_DF = 17982;
+const FRAMES_PER_MINUTE_DF = 1798;
+
+const pad2 = (n: number) => n.toString().padStart(2, '0');
+
+export const formatClock = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  const ms = Math.floor((seconds % 1) * 100);
+  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}.${ms.toString().padStart(2, '0')}`;
+};
+
+// Frame count → HH:MM:SS:FF (HH:MM:SS;FF for drop-frame)
+export const framesToTimecode = (frames: number, rate: FrameRate): string => {
+  let labelFrames = frames;
+  if (rate.dropFrame) {
+    const tens = Math.floor(frames / FRAMES_PER_10_MINUTES_DF);
+    const rest = frames % FRAMES_PER_10_MINUTES_DF;
+    labelFrames += 18 * tens + (rest > 1 ? 2 * Math.floor((rest - 2) / FRAMES_PER_MINUTE_DF) : 0);
+  }
+  const ff = labelFrames % rate.nominal;
+  const totalSeconds = Math.floor(labelFrames / rate.nominal);
+  const hh = Math.floor(totalSeconds / 3600);
+  return `${pad2(hh)}:${pad2(Math.floor(totalSeconds / 60) % 60)}:${pad2(totalSeconds % 60)}${rate.dropFrame ? ';' : ':'}${pad2(ff)}`;
+};
+
+// Timecode label fields → frame count (inverse of framesToTimecode)
+export const timecodeToFrames = (hh: number, mm: number, ss: number, ff: number, rate: FrameRate): number => {
+  const frames = ((hh * 60 + mm) * 60 + ss) * rate.nominal + ff;
+  if (!rate.dropFrame) return frames;
+  const totalMinutes = hh * 60 + mm;
+  return frames - 2 * (totalMinutes - Math.floor(totalMinutes / 10));
+};
+
+// Frame containing `seconds` (a small epsilon keeps exact frame boundaries from rounding down)
+export const secondsToFrames = (seconds: number, rate: FrameRate): number => Math.floor(seconds * rate.fps + 1e-6);
+
+export const formatTimecode = (seconds: number, format: TimecodeFormat, sampleRate: number): string => {
+  if (seconds < 0) return `-${formatTimecode(-seconds, format, sampleRate)}`;
+  const rate = getFrameRate(format);
+  if (rate) return framesToTimecode(secondsToFrames(seconds, rate), rate);
+  switch (format) {
+    case 'seconds': return seconds.toFixed(3);
+    case 'samples': return String(Math.round(seconds * sampleRate));
+    default: return formatClock(seconds);
+  }
+};
+
+// Colon-separated fields, right-aligned: "5:00" is 5 seconds in SMPTE, 5 minutes on the clock
+const parseFields = (text: string, maxFields: number): number[] | null => {
+  const fields = text.split(/[:;]/).map(f => f.trim());
+  if (fields.length > maxFields || fields.some(f => !/^\d+(\.\d+)?$/.test(f))) return null;
+  return fields.map(Number);
+};
+
+/**
+ * Parse a position typed in the given format. Returns show time in seconds, or
+ * null if the text can't be read. Plain numbers are always accepted in the
+ * seconds/samples formats; clock and SMPTE fill fields from the right.
+ */
+export const parseTimecode = (text: string, format: TimecodeFormat, sampleRate: number): number | null => {
+  const trimmed = text.trim();
+  const negative = trimmed.startsWith('-');
+  const body = negative ? trimmed.slice(1) : trimmed;
+  if (!body) return null;
+
+  let seconds: number | null = null;
+  const rate = getFrameRate(format);
+  if (rate) {
+    const fields = parseFields(body, 4);
+    if (!fields || fields.some(f => !Number.isInteger(f))) return null;
+    const [hh, mm, ss, ff] = [0, 0, 0, 0, ...fields].slice(-4);
+    if (mm >= 60 || ss >= 60 || ff >= rate.nominal) return null;
+    seconds = timecodeToFrames(hh, mm, ss, ff, rate) / rate.fps;
+  } else if (format === 'seconds' || format === 'samples') {
+    if (!/^\d+(\.\d+)?$/.test(body)) return null;
+    seconds = format === 'samples' ? Number(body) / sampleRate : Number(body);
+  } else {
+    const fields = parseFields(body, 3);
+    if (!fields) return null;
+    const [hh, mm, ss] = [0, 0, 0, ...fields].slice(-3);
+    seconds = hh * 3600 + mm * 60 + ss;
+  }
+  return negative ? -seconds : seconds;
+};
+
+// Coerce timecode settings from an imported file
+export const parseTimecodeSettings = (raw: unknown): TimecodeSettings => {
+  const settings = isObject(raw) ? raw : {};
+  const startOffset = Number(settings.startOffset);
+  return {
+    format: TIMECODE_FORMATS.find(f => f.value === settings.format)?.value ?? DEFAULT_TIMECODE.format,
+    startOffset: Number.isFinite(startOffset) ? startOffset : 0,
+  };
+};
@@ -0,0 +1,263 @@
+// RIFF/WAVE reading and writing. PCM samples are quantised by rounding, so
+// identical float input always gives identical files.
+
+export type WavBitDepth = 16 | 24;
+
+const writeAscii = (view: DataView, offset: number, text: string) => {
+  for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+};
+
+/**
+ * Interleave `channels` (all the same length) into a PCM WAV file. Channel
+ * order is kept, so an LTC channel appended after the program lands last.
+ */
+export const encodeWav = (channels: Float32Array[], sampleRate: number, bitDepth: WavBitDepth = 16): Blob => {
+  if (channels.length === 0) throw new Error('No channels to write');
+  const frames = channels[0].length;
+  const bytesPerSample = bitDepth / 8;
+  const blockAlign = channels.length * bytesPerSample;
+  const dataBytes = frames * blockAlign;
+  const header = new ArrayBuffer(44);
+  const view = new DataView(header);
+
+  writeAscii(view, 0, 'RIFF');
+  view.setUint32(4, 36 + dataBytes, true);
+  writeAscii(view, 8, 'WAVE');
+  writeAscii(view, 12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, channels.length, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitDepth, true);
+  writeAscii(view, 36, 'data');
+  view.setUint32(40, dataBytes, true);
+
+  const data = new DataView(new ArrayBuffer(dataBytes));
+  const max = bitDepth === 16 ? 0x7fff : 0x7fffff;
+  let offset = 0;
+  for (let i = 0; i < frames; i++) {
+    for (const channel of channels) {
+      const value = Math.round(Math.max(-1, Math.min(1, channel[i])) * max);
+      if (bitDepth === 16) {
+        data.setInt16(offset, value, true);
+      } else {
+        data.setUint8(offset, value & 0xff);
+        data.setUint8(offset + 1, (value >> 8) & 0xff);
+        data.setInt8(offset + 2, value >> 16);
+      }
+      offset += bytesPerSample;
+    }
+  }
+
+  return new Blob([header, data.buffer], { type: 'audio/wav' });
+};
+
+// Markers embedded in a WAV: RIFF `cue ` points, named by `labl`/`note` and
+// given a length by `ltxt` in the `LIST/adtl` chunk (regions), plus the
+// Broadcast Wave `bext` time reference. decodeAudioData drops all of these.
+
+export interface WavMarker {
+  time: number; // Seconds from the first sample
+  label: string;
+  duration?: number; // Seconds, for regions
+}
+
+export interface WavInfo {
+  sampleRate: number; // Of the file, not the decoded buffer
+  channels: number;
+  frames: number;
+  markers: WavMarker[];
+  timeReference: number | null; // bext TimeReference in seconds: the show time of the first sample
+  description: string | null; // bext Description
+}
+
+interface RiffChunk {
+  id: string;
+  offset: number; // Start of the chunk body
+  size: number;
+}
+
+const readAscii = (view: DataView, offset: number, length: number) => {
+  let text = '';
+  for (let i = 0; i < length; i++) text += String.fromCharCode(view.getUint8(offset + i));
+  return text;
+};
+
+// Labels are ASCII in older files and UTF-8 in most current ones; anything else is read as Latin-1
+const readText = (bytes: Uint8Array) => {
+  const end = bytes.indexOf(0);
+  const text = end >= 0 ? bytes.subarray(0, end) : bytes;
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(text).trim();
+  } catch {
+    return new TextDecoder('latin1').decode(text).trim();
+  }
+};
+
+const readChunks = (view: DataView, start: number, end: number): RiffChunk[] => {
+  const chunks: RiffChunk[] = [];
+  let dataSize64: number | null = null;
+  let offset = start;
+  while (offset + 8 <= end) {
+    const id = readAscii(view, offset, 4);
+    let size = view.getUint32(offset + 4, true);
+    // RF64 keeps the real sizes in `ds64` and writes 0xFFFFFFFF in the chunk header
+    if (id === 'ds64' && size >= 16) dataSize64 = view.getUint32(offset + 20, true) * 2 ** 32 + view.getUint32(offset + 16, true);
+    if (id === 'data' && size === 0xffffffff && dataSize64 !== null) size = dataSize64;
+    chunks.push({ id, offset: offset + 8, size: Math.min(size, end - offset - 8) });
+    offset += 8 + size + (size & 1);
+  }
+  return chunks;
+};
+
+const readRiff = (data: ArrayBuffer): { view: DataView; form: string; chunks: RiffChunk[] } | null => {
+  const view = new DataView(data);
+  if (data.byteLength < 12 || readAscii(view, 8, 4) !== 'WAVE') return null;
+  const form = readAscii(view, 0, 4);
+  if (form !== 'RIFF' && form !== 'RF64') return null;
+  return { view, form, chunks: readChunks(view, 12, data.byteLength) };
+};
+
+const isAdtl = (view: DataView, chunk: RiffChunk) =>
+  chunk.id === 'LIST' && chunk.size >= 4 && readAscii(view, chunk.offset, 4) === 'adtl';
+
+// Null when `data` isn't a WAV file
+export const readWavInfo = (data: ArrayBuffer): WavInfo | null => {
+  const riff = readRiff(data);
+  if (!riff) return null;
+  const { view, chunks } = riff;
+  const fmt = chunks.find(c => c.id === 'fmt ' && c.size >= 16);
+  if (!fmt) return null;
+  const channels = view.getUint16(fmt.offset + 2, true);
+  const sampleRate = view.getUint32(fmt.offset + 4, true);
+  const blockAlign = view.getUint16(fmt.offset + 12, true);
+  const dataChunk = chunks.find(c => c.id === 'data');
+  const frames = dataChunk && blockAlign > 0 ? Math.floor(dataChunk.size / blockAlign) : 0;
+
+  const positions = new Map<number, number>(); // Cue point ID -> sample
+  for (const chunk of chunks.filter(c => c.id === 'cue ' && c.size >= 4)) {
+    const count = Math.min(view.getUint32(chunk.offset, true), Math.floor((chunk.size - 4) / 24));
+    for (let i = 0; i < count; i++) {
+      const point = chunk.offset + 4 + i * 24;
+      // dwSampleOffset is the position within the data chunk; dwPosition is what older writers filled in
+      const sampleOffset = view.getUint32(point + 20, true);
+      positions.set(view.getUint32(point, true), sampleOffset || view.getUint32(point + 4, true));
+    }
+  }
+
+  const labels = new Map<number, string>();
+  const notes = new Map<number, string>();
+  const lengths = new Map<number, number>();
+  for (const list of chunks.filter(c => isAdtl(view, c))) {
+    for (const sub of readChunks(view, list.offset + 4, list.offset + list.size)) {
+      if (sub.size < 4) continue;
+      const id = view.getUint32(sub.offset, true);
+      if (sub.id === 'labl' || sub.id === 'note') {
+        const text = readText(new Uint8Array(data, sub.offset + 4, sub.size - 4));
+        (sub.id === 'labl' ? labels : notes).set(id, text);
+      } else if (sub.id === 'ltxt' && sub.size >= 8) {
+        lengths.set(id, view.getUint32(sub.offset + 4, true));
+      }
+    }
+  }
+
+  let timeReference: number | null = null;
+  let description: string | null = null;
+  const bext = chunks.find(c => c.id === 'bext' && c.size >= 346);
+  if (bext && sampleRate > 0) {
+    description = readText(new Uint8Array(data, bext.offset, 256)) || null;
+    const samples = view.getUint32(bext.offset + 342, true) * 2 ** 32 + view.getUint32(bext.offset + 338, true);
+    timeReference = samples / sampleRate;
+  }
+
+  const markers = [...positions].map(([id, sample], i): WavMarker => {
+    const length = lengths.get(id) ?? 0;
+    return {
+      time: sample / sampleRate,
+      label: labels.get(id) || notes.get(id) || `Marker ${i + 1}`,
+      ...(length > 0 ? { duration: length / sampleRate } : {}),
+    };
+  }).sort((a, b) => a.time - b.time);
+
+  return { sampleRate, channels, frames, markers, timeReference, description };
+};
+
+const chunkHeader = (id: string, size: number) => {
+  const header = new DataView(new ArrayBuffer(8));
+  writeAscii(header, 0, id);
+  header.setUint32(4, size, true);
+  return header.buffer;
+};
+
+const PAD = new Uint8Array(1);
+
+/**
+ * The original WAV with `markers` as its cue points: every chunk is copied
+ * byte for byte (the audio is not re-encoded) except any existing `cue ` and
+ * `LIST/adtl` chunks, which are replaced by new ones after the data chunk.
+ */
+export const embedWavMarkers = (data: ArrayBuffer, markers: WavMarker[]): Blob => {
+  const riff = readRiff(data);
+  const info = readWavInfo(data);
+  if (!riff || !info) throw new Error('Not a WAV file');
+  if (riff.form === 'RF64') throw new Error('RF64 (over 4 GB) WAV files are not supported');
+  const { view, chunks } = riff;
+
+  const parts: BlobPart[] = [];
+  for (const chunk of chunks) {
+    if (chunk.id === 'cue ' || isAdtl(view, chunk)) continue;
+    parts.push(data.slice(chunk.offset - 8, chunk.offset + chunk.size));
+    if (chunk.size & 1) parts.push(PAD);
+  }
+
+  if (markers.length > 0) {
+    const toSample = (seconds: number) => Math.max(0, Math.min(info.frames, Math.round(seconds * info.sampleRate)));
+    const cue = new DataView(new ArrayBuffer(4 + markers.length * 24));
+    cue.setUint32(0, markers.length, true);
+    markers.forEach((marker, i) => {
+      const point = 4 + i * 24;
+      const sample = toSample(marker.time);
+      cue.setUint32(point, i + 1, true); // dwName (cue point ID)
+      cue.setUint32(point + 4, sample, true); // dwPosition
+      writeAscii(cue, point + 8, 'data'); // fccChunk
+      cue.setUint32(point + 12, 0, true); // dwChunkStart
+      cue.setUint32(point + 16, 0, true); // dwBlockStart
+      cue.setUint32(point + 20, sample, true); // dwSampleOffset
+    });
+    parts.push(chunkHeader('cue ', cue.byteLength), cue.buffer);
+
+    const adtl: BlobPart[] = [new TextEncoder().encode('adtl')];
+    let adtlSize = 4;
+    markers.forEach((marker, i) => {
+      const text = new TextEncoder().encode(`${marker.label}\0`);
+      const labl = new Uint8Array(4 + text.length);
+      new DataView(labl.buffer).setUint32(0, i + 1, true);
+      labl.set(text, 4);
+      adtl.push(chunkHeader('labl', labl.length), labl);
+      adtlSize += 8 + labl.length;
+      if (labl.length & 1) {
+        adtl.push(PAD);
+        adtlSize += 1;
+      }
+      if (marker.duration && marker.duration > 0) {
+        const ltxt = new DataView(new ArrayBuffer(20));
+        const start = toSample(marker.time);
+        ltxt.setUint32(0, i + 1, true);
+        ltxt.setUint32(4, toSample(marker.time + marker.duration) - start, true); // dwSampleLength
+        writeAscii(ltxt, 8, 'rgn '); // dwPurposeID; country, language, dialect and code page stay 0
+        adtl.push(chunkHeader('ltxt', ltxt.byteLength), ltxt.buffer);
+        adtlSize += 8 + ltxt.byteLength;
+      }
+    });
+    parts.push(chunkHeader('LIST', adtlSize), ...adtl);
+  }
+
+  const body = new Blob(parts);
+  const header = new DataView(new ArrayBuffer(12));
+  writeAscii(header, 0, 'RIFF');
+  header.setUint32(4, 4 + body.size, true);
+  writeAscii(header, 8, 'WAVE');
+  return new Blob([header.buffer, body], { type: 'audio/wav' });
+};
@@ -0,0 +1,8 @@
+import { renderLtc, LtcRenderOptions, LtcRenderResponse } from '../utils/ltc';
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (e: MessageEvent<LtcRenderOptions>) => {
+  const response: LtcRenderResponse = { samples: renderLtc(e.data) };
+  ctx.postMessage(response, [response.samples.buffer]);
+};
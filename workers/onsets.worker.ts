@@ -0,0 +1,13 @@
+import { analyzeOnsets, OnsetAnalysisRequest, OnsetAnalysisMessage } from '../utils/onsetDetection';
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (e: MessageEvent<OnsetAnalysisRequest>) => {
+  const { mix, sampleRate } = e.data;
+  const analysis = analyzeOnsets(mix, sampleRate, (progress) => {
+    const message: OnsetAnalysisMessage = { type: 'progress', progress };
+    ctx.postMessage(message);
+  });
+  const message: OnsetAnalysisMessage = { type: 'done', analysis };
+  ctx.postMessage(message, [analysis.envelope.buffer]);
+};
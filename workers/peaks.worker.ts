@@ -0,0 +1,13 @@
+import { buildChannelPeaks, getPyramidTransferables, PeakAnalysisRequest, PeakAnalysisMessage } from '../utils/peaks';
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (e: MessageEvent<PeakAnalysisRequest>) => {
+  const { channels, sampleRate } = e.data;
+  const peaks = buildChannelPeaks(channels, sampleRate, (progress) => {
+    const message: PeakAnalysisMessage = { type: 'progress', progress };
+    ctx.postMessage(message);
+  });
+  const message: PeakAnalysisMessage = { type: 'done', peaks };
+  ctx.postMessage(message, [...peaks.channels, peaks.sum].flatMap(getPyramidTransferables));
+};
@@ -0,0 +1,45 @@
+import {
+  computeTileMagnitudes,
+  buildRowBinMap,
+  buildColorLut,
+  renderTilePixels,
+  tileKey,
+  SpectrogramRequest,
+  SpectrogramTileResponse,
+} from '../utils/spectrogram';
+
+const ctx = self as unknown as Worker;
+
+// Raw magnitudes are kept so colour map / frequency scale changes skip the FFT
+const MAX_CACHED_TILES = 64;
+const magnitudeCache = new Map<string, Uint8Array>();
+
+let mix: Float32Array | null = null;
+let sampleRate = 44100;
+
+ctx.onmessage = (e: MessageEvent<SpectrogramRequest>) => {
+  const request = e.data;
+  if (request.type === 'load') {
+    mix = request.mix;
+    sampleRate = request.sampleRate;
+    magnitudeCache.clear();
+    return;
+  }
+  if (!mix) return;
+
+  const rawKey = tileKey(request.hop, request.index);
+  let magnitudes = magnitudeCache.get(rawKey);
+  if (magnitudes) {
+    magnitudeCache.delete(rawKey);
+  } else {
+    magnitudes = computeTileMagnitudes(mix, request.hop, request.index);
+    if (magnitudeCache.size >= MAX_CACHED_TILES) {
+      magnitudeCache.delete(magnitudeCache.keys().next().value as string);
+    }
+  }
+  magnitudeCache.set(rawKey, magnitudes);
+
+  const pixels = renderTilePixels(magnitudes, buildRowBinMap(request.scale, sampleRate), buildColorLut(request.colorMap));
+  const response: SpectrogramTileResponse = { type: 'tile', key: request.key, pixels };
+  ctx.postMessage(response, [pixels.buffer]);
+};
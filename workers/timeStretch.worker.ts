@@ -0,0 +1,9 @@
+import { stretchChannels, TimeStretchRequest, TimeStretchResponse } from '../utils/timeStretch';
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (e: MessageEvent<TimeStretchRequest>) => {
+  const { channels, rate } = e.data;
+  const response: TimeStretchResponse = { channels: stretchChannels(channels, rate) };
+  ctx.postMessage(response, response.channels.map(c => c.buffer));
+};